@@ -1,8 +1,23 @@
 import React, { useEffect, useMemo, useState, useRef } from "react";
-import type { OutlookMessageContext } from "../office";
-import { getEmailBodyText } from "../office";
-import { aiGenerate, type AiLocale, type AiMode, type AiTone } from "./aiClient";
+import type { ConversationThreadRef, OutlookMessageContext } from "../office";
+import { getConversationThreadRef, getEmailBodyText } from "../office";
+import {
+  aiGenerate,
+  aiGenerateStream,
+  aiSummarizeThread,
+  type AiLocale,
+  type AiMode,
+  type AiKnowledgeRef,
+  type AiLength,
+  type AiTone,
+  type AiUsage,
+  type AiWarning,
+} from "./aiClient";
 import { getSettings, saveSettings, type CockpitSettingsV1, type LangOption, type AppLocale } from "../settings";
+import TaskExtractor from "./TaskExtractor";
+import LeadQualifier from "./LeadQualifier";
+import { isThreadSummaryStale, loadThreadSummary, saveThreadSummary, threadFingerprint } from "./threadSummary";
+import { factWarnings, highlightWarnings, removedMarkup, warningLabel } from "./draftWarnings";
 
 type Action = "summarize" | "reply" | "tasks" | "rewrite";
 
@@ -97,7 +112,7 @@ type EmailWorkspace = {
   // latest outputs
   // 3 result slots (Opção 1/2/3)
   activeOption?: number;
-  results?: Array<{ html?: string; text?: string; ts?: number }>;
+  results?: Array<{ html?: string; text?: string; ts?: number; label?: string }>;
   // legacy single output (kept for backward compatibility)
   htmlOut?: string;
   textOut?: string;
@@ -178,39 +193,6 @@ function loadWorkspace(key: string): EmailWorkspace {
   return { key, ts: now, updatedAt: now };
 }
 
-const SUMMARY_KEY_V2 = "icc.summary.v2";
-
-function loadSummary(emailKey: string): string {
-  try {
-    const raw = localStorage.getItem(SUMMARY_KEY_V2);
-    const map = raw ? (JSON.parse(raw) as Record<string, { ts: number; text: string }>) : {};
-    const row = map[emailKey];
-    if (!row) return "";
-    if (typeof row.ts === "number" && Date.now() - row.ts > WORKSPACE_KEEP_MS) return "";
-    return String(row.text || "");
-  } catch {
-    return "";
-  }
-}
-
-function upsertSummary(emailKey: string, text: string, conversationId: string) {
-  try {
-    const raw = localStorage.getItem(SUMMARY_KEY_V2);
-    const map = raw ? (JSON.parse(raw) as Record<string, { ts: number; text: string; conversationId?: string }>) : {};
-    map[emailKey] = { ts: Date.now(), text, conversationId };
-    // prune
-    const now = Date.now();
-    for (const k of Object.keys(map)) {
-      const ts = (map[k] as any)?.ts;
-      if (!ts || now - ts > WORKSPACE_KEEP_MS) delete map[k];
-    }
-    localStorage.setItem(SUMMARY_KEY_V2, JSON.stringify(map));
-    window.dispatchEvent(new CustomEvent("icc-summary-updated", { detail: { emailKey, conversationId } }));
-  } catch {
-    // ignore
-  }
-}
-
 function defaultTemplates(): SnippetTemplate[] {
   return [
     {
@@ -321,8 +303,8 @@ function trimEmailBodyFull(raw: string) {
 }
 
 function sanitizeAiHtml(html: string) {
-  // defense-in-depth (server already instructs the model)
-  const allowed = new Set(["P", "BR", "UL", "OL", "LI", "STRONG", "EM", "A", "H3", "H4", "CODE"]);
+  // defense-in-depth (the server already restricts drafts to the same allow-list, ai/aiHtml.js)
+  const allowed = new Set(["P", "BR", "UL", "OL", "LI", "STRONG", "EM", "A"]);
   const div = document.createElement("div");
   div.innerHTML = html || "";
 
@@ -355,6 +337,18 @@ function sanitizeAiHtml(html: string) {
   return div.innerHTML;
 }
 
+// Partial model output while streaming: plain text gets paragraphs (like the server's ensureBasicHtml)
+function partialToHtml(partial: string) {
+  // the trailing "<!-- notas: K1 -->" (knowledge citations) is parsed by the server; hide it while streaming
+  const t = String(partial || "").replace(/<!--[\s\S]*$/, "");
+  if (/<(p|ul|ol|li|br)\b/i.test(t)) return sanitizeAiHtml(t);
+  const esc = t.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  return esc
+    .split(/\n{2,}/)
+    .map((p) => `<p>${p.replace(/\n/g, "<br>")}</p>`)
+    .join("");
+}
+
 async function copyToClipboard(text: string) {
   try {
     await navigator.clipboard.writeText(text);
@@ -649,11 +643,18 @@ function resolveLocale(option: LangOption, textForDetection: string, fallback: A
   return detected || fallback;
 }
 
+// Summary language: the reading language, or the one detected in the email when "auto"
+function summaryLocaleFor(option: LangOption, subject: string, bodyText: string): AppLocale {
+  return resolveLocale(option, `${subject}\n${bodyText}`, "pt-PT");
+}
+
 export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
   const [tone, setTone] = useState<AiTone>("neutro");
+  const [replyLength, setReplyLength] = useState<AiLength>("m");
   const [mode, setMode] = useState<AiMode>("fast");
   const [locale, setLocale] = useState<AiLocale>("pt-PT");
   const [readingLang, setReadingLang] = useState<LangOption>("auto");
+  const [summaryBilingual, setSummaryBilingual] = useState(false);
   const [replyLang, setReplyLang] = useState<LangOption>("auto");
   const [settings, setSettings] = useState<CockpitSettingsV1 | null>(null);
 
@@ -676,7 +677,18 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
   const [reminderCreateEvent, setReminderCreateEvent] = useState<boolean>(true);
   const REMINDER_CATEGORY = "CRM: Follow-up";
 
-  type ResultSlot = { html: string; text: string; ts: number };
+  // label: set when the slot came from a multi-variant run ("Aceitar", "Recusar", …)
+  // knowledge: knowledge base notes sent with the prompt (cited = used in the draft)
+  // warnings: server checks of the draft (facts not in the email are highlighted in the preview)
+  type ResultSlot = {
+    html: string;
+    text: string;
+    ts: number;
+    label?: string;
+    usage?: AiUsage;
+    knowledge?: AiKnowledgeRef[];
+    warnings?: AiWarning[];
+  };
   const makeEmptySlots = (): ResultSlot[] =>
     Array.from({ length: 3 }, () => ({ html: "", text: "", ts: 0 }));
 
@@ -695,6 +707,19 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
       return next;
     });
 
+  // Writes into a given slot (streaming keeps writing into the slot that was active when the run started)
+  const setSlot = (idx: number, patch: Partial<ResultSlot>) =>
+    setResultSlots((prev) => {
+      const next = prev.length ? [...prev] : makeEmptySlots();
+      const cur = next[idx] || { html: "", text: "", ts: 0 };
+      next[idx] = { ...cur, ...patch, ts: Date.now() };
+      return next;
+    });
+
+  // Streaming run in progress (cancel = abort the request; the server then aborts the provider call)
+  const streamAbortRef = useRef<AbortController | null>(null);
+  const [streaming, setStreaming] = useState(false);
+
   const setTextOut = (v: string) =>
     setResultSlots((prev) => {
       const next = prev.length ? [...prev] : makeEmptySlots();
@@ -746,7 +771,7 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
     });
   }, [htmlOut, textOut, ctx.conversationId, emailKey]);
 
-  const [sheet, setSheet] = useState<"" | "options" | "compose" | "rewrite" | "recipients" | "context" | "reminder">("");
+  const [sheet, setSheet] = useState<"" | "options" | "compose" | "rewrite" | "recipients" | "context" | "reminder" | "tasks" | "qualify">("");
 
   // Templates/Snippets
 
@@ -853,7 +878,7 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
     for (let i = 0; i < 3; i++) {
       const v = wsSlots[i] || undefined;
       if (v && (v.html || v.text)) {
-        slots[i] = { html: v.html || "", text: v.text || "", ts: v.ts || 0 };
+        slots[i] = { html: v.html || "", text: v.text || "", ts: v.ts || 0, label: v.label };
       }
     }
     if (!slots.some((x) => x.html || x.text)) {
@@ -876,7 +901,7 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
         updatedAt: Date.now(),
         conversationId: ctx.conversationId,
         subject: (ctx as any).subject,
-        summary: loadSummary(emailKey) || undefined,
+        summary: loadThreadSummary(ctx.conversationId || "")?.text || undefined,
         tplPickId: tplPickId || undefined,
         composeNotes: composeNotes || undefined,
         rewriteText: rewriteText || undefined,
@@ -885,7 +910,12 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
         includeBodyEmails,
         attachOriginalItem,
         activeOption,
-        results: resultSlots.map((s) => ({ html: s.html || undefined, text: s.text || undefined, ts: s.ts || undefined })),
+        results: resultSlots.map((s) => ({
+          html: s.html || undefined,
+          text: s.text || undefined,
+          ts: s.ts || undefined,
+          label: s.label || undefined,
+        })),
         // legacy (keep for downgrade compatibility)
         htmlOut: htmlOut || undefined,
         textOut: textOut || undefined,
@@ -919,6 +949,20 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
     currentEmailKeyRef.current = emailKey || "";
   }, [emailKey]);
 
+  // EWS ids of the conversation's messages (thread summary + freshness); undefined = lookup still running.
+  // Looked up again per item: selecting a new message of the thread is how new messages show up.
+  const [threadRef, setThreadRef] = useState<ConversationThreadRef | null | undefined>(undefined);
+  useEffect(() => {
+    let cancelled = false;
+    setThreadRef(undefined);
+    getConversationThreadRef(ctx.conversationId || "").then((ref) => {
+      if (!cancelled) setThreadRef(ref);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [emailKey, ctx.conversationId]);
+
   // Auto-summary state per email (throttle + in-flight guard). We only mark success when a summary is actually saved.
   const autoSummaryStateRef = useRef<Record<string, { inflight?: boolean; lastAttempt?: number }>>({});
 
@@ -931,18 +975,34 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
       .trim();
   }
 
+  // Latest run() for the delayed auto-summary (run is recreated every render; listing it would re-arm the timer)
+  const runRef = useRef(run);
+  runRef.current = run;
+
   useEffect(() => {
     if (!ctx.conversationId) return;
     if (!emailKey) return;
-
-    // If we already have a cached summary for this email, nothing to do.
-    const cached = loadSummary(emailKey);
-    if (cached) return;
+    // wait for the user's language options (reading language, bilingual)
+    if (!settings) return;
 
     // Need a body to summarize (avoid using previous email body).
     const bodyNow = (rawBody || body || "").trim();
     if (!bodyNow) return;
 
+    // Conversation summary still fresh (no new messages, same language options) → nothing to do.
+    if (threadRef === undefined) return;
+    const cached = loadThreadSummary(ctx.conversationId);
+    if (
+      cached &&
+      !isThreadSummaryStale(cached, {
+        fingerprint: threadFingerprint(threadRef?.itemIds),
+        latestIso: ctx.receivedDateTimeIso || "",
+        locale: summaryLocaleFor(readingLang, ctx.subject || "", bodyNow),
+        bilingual: summaryBilingual,
+      })
+    )
+      return;
+
     const st = (autoSummaryStateRef.current[emailKey] ||= {});
     const now = Date.now();
 
@@ -956,14 +1016,16 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
     st.lastAttempt = now;
 
     const keyAtSchedule = emailKey;
+    let fired = false;
 
     const t = window.setTimeout(async () => {
+      fired = true;
       try {
         // If user switched emails meanwhile, cancel.
         if (currentEmailKeyRef.current !== keyAtSchedule) return;
 
-        // Run summarize. Summary language is always pt-PT (Portuguese Portugal).
-        await run("summarize");
+        // Run summarize (in the reading language, see summaryLocaleFor).
+        await runRef.current("summarize");
       } finally {
         const st2 = (autoSummaryStateRef.current[keyAtSchedule] ||= {});
         st2.inflight = false;
@@ -974,9 +1036,10 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
       window.clearTimeout(t);
       const st2 = (autoSummaryStateRef.current[keyAtSchedule] ||= {});
       st2.inflight = false;
+      // cancelled before it ran (deps changed within the delay): not an attempt, don't throttle the next one
+      if (!fired) st2.lastAttempt = 0;
     };
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [ctx.conversationId, emailKey, rawBody, body]);
+  }, [ctx.conversationId, ctx.subject, ctx.receivedDateTimeIso, emailKey, rawBody, body, threadRef, settings, readingLang, summaryBilingual]);
 
 
   async function ensureMasterCategory(displayName: string): Promise<void> {
@@ -1074,7 +1137,9 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
         const s = await getSettings();
         if (s) setSettings(s);
         if (s?.tone) setTone(s.tone);
+        if (s?.length) setReplyLength(s.length);
         if (s?.readingLanguage) setReadingLang(s.readingLanguage);
+        setSummaryBilingual(Boolean(s?.summaryBilingual));
         if (s?.replyLanguage) setReplyLang(s.replyLanguage);
         if (s?.enabledLanguages && Array.isArray(s.enabledLanguages) && s.enabledLanguages.length > 0) {
           // Keep only known locales, preserve order.
@@ -1202,7 +1267,8 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
     };
   }, [ctx, body, rawBody, fullBody, bodyScope, recipientRows]);
 
-  async function run(action: Action) {
+  // variants > 1 (reply/rewrite): one request returns labelled drafts that fill the option slots
+  async function run(action: Action, variants = 1) {
     try {
       setErr("");
       setNotice("");
@@ -1213,6 +1279,7 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
       // if the user switches the selected message while the AI call is running.
       const runEmailKey = emailKey;
       const runConversationId = ctx.conversationId || "";
+      const runThreadRef = threadRef;
 
       // For non-summary actions, we clear the previous output before generating again.
       // (Summary should live in the Summary card only, so we don't duplicate it in Result.)
@@ -1233,40 +1300,104 @@ export default function AiPanel({ ctx }: { ctx: OutlookMessageContext }) {
 ${email.bodyText || ""}
 ${composeNotes || ""}`;
       // Language rules:
-      // - Summary: always Portuguese (Portugal)
+      // - Summary: reading language (Auto = detected in the email), optionally bilingual
       // - Other actions: selected reply language; if Auto, keep the email's original language (server handles)
       let effectiveLocale: AiLocale = (locale as any) as AiLocale;
       if (action === "summarize") {
-        effectiveLocale = "pt-PT";
+        effectiveLocale = summaryLocaleFor(readingLang, ctx.subject || "", (rawBody || body || "").trim());
       } else {
         effectiveLocale = (replyLang === "auto" ? ("auto" as any) : (replyLang as any)) as AiLocale;
       }
 
-      const r = await aiGenerate({
+      const payload = {
         action,
         mode,
         locale: effectiveLocale,
         tone,
+        length: replyLength,
         email: action === "rewrite" ? undefined : (emailForAi as any),
         inputText: action === "rewrite" ? rewriteText : undefined,
-      });
+      };
+
+      // Summary goes to the Summary card in one piece; other actions stream into the active slot.
+      const runSlot = activeOption;
+      let r: any;
+      if (action === "summarize") {
+        // Whole conversation; the full body (quoted chain) is the server's fallback when EWS isn't available
+        r = await aiSummarizeThread({
+          mode,
+          conversationId: runConversationId,
+          email: { ...email, bodyScope: "full", bodyText: rawBody || fullBody || body, receivedAtIso: ctx.receivedDateTimeIso || "" },
+          thread: runThreadRef,
+          locale: effectiveLocale,
+          bilingual: summaryBilingual,
+        });
+      } else if (variants > 1) {
+        r = await aiGenerate({ ...payload, variants });
+        if (!r.ok) throw new Error(r.error);
+      } else {
+        const ctrl = new AbortController();
+        streamAbortRef.current = ctrl;
+        setStreaming(true);
+        r = await aiGenerateStream(payload, {
+          signal: ctrl.signal,
+          onDelta: (partial) => {
+            if (currentEmailKeyRef.current !== runEmailKey) return;
+            const html = partialToHtml(partial);
+            setSlot(runSlot, { html, text: stripHtml(html), label: undefined, usage: undefined, knowledge: undefined, warnings: undefined });
+          },
+        });
+        if (!r.ok) throw new Error(r.error);
+      }
 
       const safeHtml = sanitizeAiHtml((r as any).html || "");
       const plainTxt = ((r as any).text || "").trim() || stripHtml(safeHtml);
 
       // Summary: store only in the Summary cache/card (per email), not in Result output.
       if (action === "summarize") {
-        if (runEmailKey && plainTxt) {
-          upsertSummary(runEmailKey, plainTxt, runConversationId);
-          setNotice("Resumo atualizado.");
+        if (runConversationId && plainTxt) {
+          const prevIso = loadThreadSummary(runConversationId)?.latestIso || "";
+          const runIso = ctx.receivedDateTimeIso || "";
+          const count = Number(r.thread?.messageCount || 1);
+          saveThreadSummary(runConversationId, {
+            text: plainTxt,
+            fingerprint: threadFingerprint(runThreadRef?.itemIds),
+            latestIso: runIso > prevIso ? runIso : prevIso,
+            messageCount: count,
+            source: r.thread?.source || "quoted",
+            locale: effectiveLocale,
+            bilingual: summaryBilingual,
+          });
+          const cited = ((r.knowledge || []) as AiKnowledgeRef[]).filter((k) => k.cited).map((k) => k.title);
+          const facts = factWarnings(r.warnings);
+          setNotice(
+            `Resumo da conversa atualizado (${count} mensagem(ns)${r.cached ? ", da cache do servidor" : ""})` +
+              (cited.length ? ` — notas usadas: ${cited.join(", ")}.` : ".") +
+              (facts.length ? ` Verifica (não está no email): ${facts.map((w) => w.value).join(", ")}.` : "")
+          );
         }
         setSheet("");
         return;
       }
 
+      const variantSlots: ResultSlot[] = Array.isArray(r.variants)
+        ? r.variants.slice(0, 3).map((v: any) => {
+            const vHtml = sanitizeAiHtml(v.html || "");
+            return {
+              html: vHtml,
+              text: (v.text || "").trim() || stripHtml(vHtml),
+              ts: Date.now(),
+              label: v.title || v.label,
+              usage: v.usage,
+              knowledge: v.knowledge,
+              warnings: v.warnings,
+            };
+          })
+        : [];
+
       // For other actions, only apply to the currently open email.
       // If the user switched emails mid-run, don't pollute the current view.
-      if (runEmailKey !== emailKey) {
+      if (runEmailKey !== currentEmailKeyRef.current) {
         // Persist the result to the workspace of the email where the action started.
         // When the user returns to that email, it will be restored.
         try {
@@ -1276,7 +1407,7 @@ ${composeNotes || ""}`;
             updatedAt: Date.now(),
             conversationId: runConversationId,
             subject: (ctx as any).subject,
-            summary: loadSummary(runEmailKey) || undefined,
+            summary: loadThreadSummary(runConversationId)?.text || undefined,
             tplPickId: tplPickId || undefined,
             composeNotes: composeNotes || undefined,
             rewriteText: rewriteText || undefined,
@@ -1284,6 +1415,9 @@ ${composeNotes || ""}`;
             replyAll,
             includeBodyEmails,
             attachOriginalItem,
+            ...(variantSlots.length
+              ? { activeOption: 0, results: variantSlots.map((v) => ({ html: v.html, text: v.text, ts: v.ts, label: v.label })) }
+              : {}),
             htmlOut: safeHtml || undefined,
             textOut: plainTxt || undefined,
           });
@@ -1295,18 +1429,50 @@ ${composeNotes || ""}`;
         return;
       }
 
-      setHtmlOut(safeHtml);
-      setTextOut(plainTxt);
+      if (variantSlots.length) {
+        setResultSlots(() => {
+          const next = makeEmptySlots();
+          variantSlots.forEach((v, i) => (next[i] = v));
+          return next;
+        });
+        setActiveOption(0);
+      } else {
+        setSlot(runSlot, {
+          html: safeHtml,
+          text: plainTxt,
+          label: undefined,
+          usage: r.usage,
+          knowledge: r.knowledge,
+          warnings: r.warnings,
+        });
+      }
       setResultView(safeHtml ? "html" : "text");
+      const lengthFix = (r.lengthCheck?.fix ? r.lengthCheck : r.variants?.find((v: any) => v.lengthCheck?.fix)?.lengthCheck) as
+        | { fix: string; limit: number }
+        | undefined;
+      if (lengthFix) {
+        setNotice(
+          lengthFix.fix === "trimmed"
+            ? `O texto excedia a extensão pedida e foi cortado (~${lengthFix.limit} palavras).`
+            : "O texto excedia a extensão pedida e foi gerado de novo."
+        );
+      }
 
       setSheet("");
     } catch (e: any) {
-      setErr(e?.message ?? String(e));
+      if (e?.name === "AbortError") setNotice("Geração cancelada (o texto parcial ficou na opção).");
+      else setErr(e?.message ?? String(e));
     } finally {
+      streamAbortRef.current = null;
+      setStreaming(false);
       setBusy(false);
     }
   }
 
+  function cancelStream() {
+    streamAbortRef.current?.abort();
+  }
+
   function buildHtmlForInsert() {
     return htmlOut
       ? htmlOut
@@ -1754,7 +1920,7 @@ ${composeNotes || ""}`;
                 key={i}
                 style={activeOption === i ? S.optionTabActive : S.optionTab}
                 onClick={() => setActiveOption(i)}
-                title={`Opção ${i + 1}`}
+                title={resultSlots[i]?.label ? `Opção ${i + 1}: ${resultSlots[i].label}` : `Opção ${i + 1}`}
               >
                 {i + 1}
               </button>
@@ -1766,12 +1932,36 @@ ${composeNotes || ""}`;
           </button>
         </div>
 
-        {!(htmlOut || textOut) && !err ? (
+        {resultSlots[activeOption]?.label || resultSlots[activeOption]?.usage ? (
+          <div style={S.variantRow}>
+            {resultSlots[activeOption]?.label ? <strong>{resultSlots[activeOption].label}</strong> : null}
+            {resultSlots[activeOption]?.usage ? (
+              <span title="Tokens (entrada / saída)">
+                {resultSlots[activeOption].usage!.totalTokens} tokens ({resultSlots[activeOption].usage!.inputTokens} /{" "}
+                {resultSlots[activeOption].usage!.outputTokens})
+              </span>
+            ) : null}
+          </div>
+        ) : null}
+
+        {streaming ? (
+          <div style={S.streamRow}>
+            <span>A gerar…</span>
+            <button style={S.smallBtn} onClick={cancelStream} title="Parar a geração">
+              ■ Parar
+            </button>
+          </div>
+        ) : null}
+
+        {!(htmlOut || textOut) && !err && !streaming ? (
           <div style={S.placeholder}>{busy ? "A gerar…" : "Escolhe uma ação no rodapé para gerar conteúdo."}</div>
         ) : (
           <>
             {resultView === "html" ? (
-              <div style={S.preview} dangerouslySetInnerHTML={{ __html: htmlOut || buildHtmlForInsert() }} />
+              <div
+                style={S.preview}
+                dangerouslySetInnerHTML={{ __html: highlightWarnings(htmlOut || buildHtmlForInsert(), resultSlots[activeOption]?.warnings) }}
+              />
             ) : (
               <pre style={S.pre} title="Texto simples">
                 {textOut || ""}
@@ -1780,6 +1970,40 @@ ${composeNotes || ""}`;
           </>
         )}
 
+        {resultSlots[activeOption]?.knowledge?.length ? (
+          <div style={S.knowledgeBox}>
+            <div style={S.knowledgeTitle}>Base de conhecimento</div>
+            {resultSlots[activeOption].knowledge!.map((k) => (
+              <div
+                key={k.ref}
+                style={k.cited ? S.knowledgeCited : S.knowledgeItem}
+                title={k.cited ? "Usada pela IA neste texto" : "Enviada à IA, mas não usada"}
+              >
+                {k.cited ? "✓" : "·"} {k.title || "(sem título)"}
+                {k.pinned ? " (sempre)" : ""}
+              </div>
+            ))}
+          </div>
+        ) : null}
+
+        {resultSlots[activeOption]?.warnings?.length ? (
+          <div style={S.warningBox}>
+            {factWarnings(resultSlots[activeOption].warnings).length ? (
+              <>
+                <div style={S.warningTitle}>Verifica antes de enviar (não está no email)</div>
+                {factWarnings(resultSlots[activeOption].warnings).map((w, i) => (
+                  <div key={`${w.type}-${i}`}>
+                    <mark>{w.value}</mark> <span style={S.warningType}>{warningLabel(w)}</span>
+                  </div>
+                ))}
+              </>
+            ) : null}
+            {removedMarkup(resultSlots[activeOption].warnings).length ? (
+              <div style={S.warningType}>Formatação removida: {removedMarkup(resultSlots[activeOption].warnings).join(", ")}</div>
+            ) : null}
+          </div>
+        ) : null}
+
         {notice && <div style={S.notice}>{notice}</div>}
         {err && <div style={S.err}>{err}</div>}
       </div>
@@ -1844,13 +2068,23 @@ ${composeNotes || ""}`;
         <button
           style={busy || !canRun ? S.navBtnDisabled : S.navBtn}
           disabled={busy || !canRun}
-          onClick={() => run("tasks")}
-          title="Extrair tarefas e dependências"
+          onClick={() => setSheet("tasks")}
+          title="Extrair tarefas e criá-las no Odoo"
         >
           <span style={S.navIcon}>✅</span>
           <div style={S.navTxt}>Tarefas</div>
         </button>
 
+        <button
+          style={busy || !canRun ? S.navBtnDisabled : S.navBtn}
+          disabled={busy || !canRun}
+          onClick={() => setSheet("qualify")}
+          title="Qualificar como lead e preencher o formulário"
+        >
+          <span style={S.navIcon}>🎯</span>
+          <div style={S.navTxt}>Lead</div>
+        </button>
+
         <button
           style={busy ? S.navBtnDisabled : S.navBtn}
           disabled={busy}
@@ -1880,6 +2114,22 @@ ${composeNotes || ""}`;
             <option value="curto">Curto</option>
           </select>
 
+          <label style={S.fieldLabel}>Extensão (resposta)</label>
+          <select
+            style={S.select}
+            value={replyLength}
+            onChange={(e) => {
+              const v = e.currentTarget.value as AiLength;
+              setReplyLength(v);
+              void saveSettings({ length: v });
+            }}
+          >
+            <option value="xs">Extra curta</option>
+            <option value="s">Curta</option>
+            <option value="m">Média</option>
+            <option value="l">Longa</option>
+          </select>
+
           <label style={S.fieldLabel}>Idioma (resumo)</label>
           <select
             style={S.select}
@@ -1896,6 +2146,18 @@ ${composeNotes || ""}`;
               </option>
             ))}
           </select>
+          <label style={S.toggleRow} title="Resumo no idioma de leitura + citações-chave no idioma original do email">
+            <input
+              type="checkbox"
+              checked={summaryBilingual}
+              onChange={(e) => {
+                const v = e.currentTarget.checked;
+                setSummaryBilingual(v);
+                void saveSettings({ summaryBilingual: v });
+              }}
+            />
+            <span>Resumo bilingue</span>
+          </label>
 
           <label style={S.fieldLabel}>Idioma (resposta)</label>
           <select
@@ -2350,6 +2612,15 @@ Divitek
               {busy ? "A gerar…" : "Gerar resposta"}
             </button>
 
+            <button
+              style={busy || !canRun ? S.primaryBtnDisabled : S.secondaryBtn}
+              disabled={busy || !canRun}
+              onClick={() => { setRecipientPreset(replyAll ? "replyAll" : "reply"); run("reply", 3); }}
+              title="Gerar 3 respostas: aceitar, recusar e pedir informação (opções 1–3)"
+            >
+              3 variantes
+            </button>
+
             <button style={S.secondaryBtn} onClick={() => setSheet("recipients")} title="Escolher To/Cc/Bcc">
               Destinatários
             </button>
@@ -2370,6 +2641,35 @@ Divitek
         </div>
       </BottomSheet>
 
+      <BottomSheet open={sheet === "tasks"} title="Tarefas" onClose={() => setSheet("")}>
+        <div style={S.sheetBody}>
+          <div style={S.sheetHint}>
+            A IA lista as tarefas do email; revê título, projeto, responsável e prazo antes de criar no Odoo.
+          </div>
+          <TaskExtractor ctx={ctx} email={email} mode={mode} onNotice={setNotice} />
+          <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+            <button
+              style={busy || !canRun ? S.primaryBtnDisabled : S.secondaryBtn}
+              disabled={busy || !canRun}
+              onClick={() => run("tasks")}
+              title="Checklist de tarefas e riscos no resultado (texto)"
+            >
+              Checklist (texto)
+            </button>
+          </div>
+        </div>
+      </BottomSheet>
+
+      <BottomSheet open={sheet === "qualify"} title="Qualificar lead" onClose={() => setSheet("")}>
+        <div style={S.sheetBody}>
+          <div style={S.sheetHint}>
+            A IA extrai empresa, contacto, interesse, quantidades, orçamento e urgência. "Criar lead" abre o formulário
+            preenchido: revê cada campo (com a confiança da IA) antes de gravar.
+          </div>
+          <LeadQualifier ctx={ctx} email={email} mode={mode} onNotice={setNotice} />
+        </div>
+      </BottomSheet>
+
       <BottomSheet open={sheet === "rewrite"} title="Reescrever" onClose={() => setSheet("")}>
         <div style={S.sheetBody}>
           <label style={S.fieldLabel}>Texto</label>
@@ -2389,6 +2689,14 @@ Divitek
             >
               {busy ? "A gerar…" : "Reescrever"}
             </button>
+            <button
+              style={busy || !rewriteText.trim() ? S.primaryBtnDisabled : S.secondaryBtn}
+              disabled={busy || !rewriteText.trim()}
+              onClick={() => run("rewrite", 3)}
+              title="Gerar 3 versões: formal, curta e simpática (opções 1–3)"
+            >
+              3 variantes
+            </button>
             <div style={{ flex: 1 }} />
             <div style={S.sheetHint}>Dica: seleciona “Curto” em Opções para encurtar.</div>
           </div>
@@ -2657,6 +2965,15 @@ const S: Record<string, React.CSSProperties> = {
     lineHeight: "12px",
   },
 
+  knowledgeBox: { marginTop: 8, padding: "6px 8px", border: "1px solid #e2e8f0", borderRadius: 8, fontSize: 11 },
+  knowledgeTitle: { fontWeight: 600, color: "#0b2d6b", marginBottom: 2 },
+  knowledgeItem: { color: "#94a3b8" },
+  knowledgeCited: { color: "#0f172a", fontWeight: 600 },
+  warningBox: { marginTop: 8, padding: "6px 8px", border: "1px solid #fde68a", background: "#fffbeb", borderRadius: 8, fontSize: 11 },
+  warningTitle: { fontWeight: 600, color: "#92400e", marginBottom: 2 },
+  warningType: { color: "#a16207" },
+  variantRow: { display: "flex", alignItems: "center", gap: 8, fontSize: 11, color: "#475569", marginBottom: 6 },
+  streamRow: { display: "flex", alignItems: "center", justifyContent: "space-between", gap: 8, fontSize: 12, marginBottom: 6 },
   placeholder: {
     marginTop: 10,
     borderRadius: 14,
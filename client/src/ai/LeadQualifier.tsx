@@ -0,0 +1,139 @@
+import React, { useState } from "react";
+import { openCockpitDialog, type OutlookMessageContext } from "../office";
+import { aiQualifyLead, type AiEmailContext, type AiLead, type AiMode } from "./aiClient";
+import { saveLeadPrefill } from "./leadPrefill";
+
+const FIELD_LABEL: Array<[keyof AiLead, string]> = [
+  ["company", "Empresa"],
+  ["contactName", "Contacto"],
+  ["email", "Email"],
+  ["phone", "Telefone"],
+  ["productInterest", "Interesse"],
+  ["quantities", "Quantidades"],
+  ["budget", "Orçamento"],
+  ["urgency", "Urgência"],
+];
+
+export function confidenceColor(c: number): string {
+  return c >= 0.8 ? "#1b7a3a" : c >= 0.5 ? "#a46100" : "#8a1f1f";
+}
+
+/**
+ * "qualify" action: the AI reads the email into a typed lead (value + confidence per field).
+ * "Criar lead" only opens the lead form prefilled (Dialog); the user reviews and confirms there.
+ */
+export default function LeadQualifier({
+  ctx,
+  email,
+  mode,
+  onNotice,
+}: {
+  ctx: OutlookMessageContext;
+  email: AiEmailContext;
+  mode: AiMode;
+  onNotice: (msg: string) => void;
+}) {
+  const [lead, setLead] = useState<AiLead | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [err, setErr] = useState("");
+
+  async function qualify() {
+    setBusy(true);
+    setErr("");
+    try {
+      const r = await aiQualifyLead({ mode, email });
+      if (!r.ok) throw new Error(r.error);
+      setLead(r.lead);
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function openLeadForm() {
+    if (!lead || !ctx.conversationId) return;
+    saveLeadPrefill(ctx.conversationId, lead);
+    try {
+      await openCockpitDialog({
+        mode: "new",
+        entity: "crm.lead",
+        prefill: "lead",
+        conversationId: ctx.conversationId || "",
+        internetMessageId: ctx.internetMessageId || "",
+        subject: ctx.subject || "",
+        fromEmail: ctx.fromEmail || "",
+        fromName: ctx.fromName || "",
+        receivedAtIso: ctx.receivedDateTimeIso || "",
+      });
+    } catch (e: any) {
+      onNotice(e?.message ?? String(e));
+    }
+  }
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8 }}>
+        <button style={busy ? S.btnDisabled : S.btn} disabled={busy} onClick={qualify}>
+          {busy ? "A analisar…" : lead ? "Qualificar de novo" : "Qualificar email"}
+        </button>
+        {lead ? (
+          <button
+            style={ctx.conversationId ? S.btn : S.btnDisabled}
+            disabled={!ctx.conversationId}
+            onClick={openLeadForm}
+            title="Abre o formulário de lead preenchido; nada é gravado sem confirmares"
+          >
+            Criar lead
+          </button>
+        ) : null}
+      </div>
+
+      {err ? <div style={S.err}>{err}</div> : null}
+
+      {lead ? (
+        <div style={S.table}>
+          {FIELD_LABEL.map(([k, label]) => (
+            <div key={k} style={S.row}>
+              <div style={S.label}>{label}</div>
+              <div style={S.value}>{lead[k].value || <span style={{ color: "#94a3b8" }}>—</span>}</div>
+              {lead[k].value ? (
+                <div style={{ ...S.conf, color: confidenceColor(lead[k].confidence) }} title="Confiança da IA">
+                  {Math.round(lead[k].confidence * 100)}%
+                </div>
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  btn: {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: "1px solid #0b3d91",
+    background: "#0b3d91",
+    color: "#fff",
+    fontWeight: 700,
+    cursor: "pointer",
+    fontSize: 12,
+  },
+  btnDisabled: {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: "1px solid #c8d1e6",
+    background: "#e8edf7",
+    color: "#7a86a6",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  table: { marginTop: 10, border: "1px solid #d6def2", borderRadius: 12, overflow: "hidden" },
+  row: { display: "flex", gap: 8, alignItems: "baseline", padding: "6px 10px", borderBottom: "1px solid #eef1f8", fontSize: 12 },
+  label: { width: 90, flexShrink: 0, color: "#0b3d91", fontWeight: 600 },
+  value: { flex: 1, minWidth: 0, color: "#122", wordBreak: "break-word" },
+  conf: { fontSize: 11, fontWeight: 700 },
+  err: { marginTop: 8, fontSize: 12, color: "#8a1f1f" },
+};
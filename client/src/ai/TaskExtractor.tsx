@@ -0,0 +1,273 @@
+import React, { useState } from "react";
+import type { OutlookMessageContext } from "../office";
+import { createOdoo, linkEmailToRecord, searchOdoo } from "../api";
+import TypeaheadPicker from "../ui/TypeaheadPicker";
+import { aiExtractTasks, type AiEmailContext, type AiMode } from "./aiClient";
+
+// One editable row per extracted task; hints are what the AI read in the email
+type TaskRow = {
+  key: string;
+  selected: boolean;
+  title: string;
+  description: string;
+  deadline: string;
+  projectHint: string;
+  projectId: number | null;
+  projectName: string;
+  assigneeHint: string;
+  assigneeId: number | null;
+  assigneeName: string;
+  createdId?: number;
+  error?: string;
+};
+
+// First Odoo match for a hint (best effort: the user confirms or changes it in the picker)
+async function firstMatch(model: string, hint: string): Promise<{ id: number; name: string } | null> {
+  if (!hint.trim()) return null;
+  try {
+    const rows = await searchOdoo(model, hint.trim(), 1);
+    const r = rows?.[0];
+    return r?.id ? { id: r.id, name: r.display_name || r.name || `#${r.id}` } : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Structured task extraction (/api/ai/tasks) → editable rows → bulk create project.task,
+ * each one linked to the current conversation.
+ */
+export default function TaskExtractor({
+  ctx,
+  email,
+  mode,
+  onNotice,
+}: {
+  ctx: OutlookMessageContext;
+  email: AiEmailContext;
+  mode: AiMode;
+  onNotice: (msg: string) => void;
+}) {
+  const [rows, setRows] = useState<TaskRow[]>([]);
+  const [busy, setBusy] = useState<"" | "extract" | "create">("");
+  const [err, setErr] = useState("");
+
+  const patchRow = (key: string, patch: Partial<TaskRow>) =>
+    setRows((prev) => prev.map((r) => (r.key === key ? { ...r, ...patch } : r)));
+
+  async function extract() {
+    setBusy("extract");
+    setErr("");
+    try {
+      const r = await aiExtractTasks({ mode, email });
+      if (!r.ok) throw new Error(r.error);
+
+      // the same hint usually repeats across tasks: resolve each one once
+      const cache = new Map<string, Promise<{ id: number; name: string } | null>>();
+      const resolve = (model: string, hint: string) => {
+        const k = `${model}:${hint.trim().toLowerCase()}`;
+        if (!cache.has(k)) cache.set(k, firstMatch(model, hint));
+        return cache.get(k)!;
+      };
+
+      const next: TaskRow[] = [];
+      for (const [i, t] of r.tasks.entries()) {
+        const project = await resolve("project.project", t.projectHint);
+        const assignee = await resolve("res.users", t.assigneeHint);
+        next.push({
+          key: `${Date.now()}-${i}`,
+          selected: true,
+          title: t.title,
+          description: t.description,
+          deadline: t.deadline,
+          projectHint: t.projectHint,
+          projectId: project?.id ?? null,
+          projectName: project?.name ?? "",
+          assigneeHint: t.assigneeHint,
+          assigneeId: assignee?.id ?? null,
+          assigneeName: assignee?.name ?? "",
+        });
+      }
+      setRows(next);
+      if (!next.length) setErr("A IA não encontrou tarefas neste email.");
+    } catch (e: any) {
+      setErr(e?.message ?? String(e));
+    } finally {
+      setBusy("");
+    }
+  }
+
+  async function createSelected() {
+    setBusy("create");
+    setErr("");
+    let created = 0;
+    let linkErrors = 0;
+    try {
+      for (const row of rows) {
+        if (!row.selected || row.createdId) continue;
+        try {
+          const values: any = { name: row.title.trim() || "Nova tarefa", description: row.description || "" };
+          if (row.projectId) values.project_id = row.projectId;
+          if (row.assigneeId) values.user_ids = [row.assigneeId];
+          if (row.deadline) values.date_deadline = row.deadline;
+
+          const id = await createOdoo("project.task", values);
+          created++;
+          patchRow(row.key, { createdId: id, selected: false, error: undefined });
+
+          if (ctx.conversationId) {
+            try {
+              await linkEmailToRecord({
+                conversationId: ctx.conversationId,
+                model: "project.task",
+                recordId: id,
+                recordName: values.name,
+                internetMessageId: ctx.internetMessageId,
+                subject: ctx.subject,
+                fromEmail: ctx.fromEmail,
+                fromName: ctx.fromName,
+                receivedAtIso: ctx.receivedDateTimeIso,
+              });
+            } catch {
+              linkErrors++;
+            }
+          }
+        } catch (e: any) {
+          patchRow(row.key, { error: e?.message ?? String(e) });
+        }
+      }
+      onNotice(
+        `${created} tarefa(s) criada(s) no Odoo` +
+          (ctx.conversationId ? (linkErrors ? ` (${linkErrors} sem ligação ao email).` : " e ligadas ao email.") : ".")
+      );
+    } finally {
+      setBusy("");
+    }
+  }
+
+  const selectedCount = rows.filter((r) => r.selected && !r.createdId).length;
+
+  return (
+    <div>
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <button style={busy ? S.btnDisabled : S.btn} disabled={Boolean(busy)} onClick={extract}>
+          {busy === "extract" ? "A extrair…" : rows.length ? "Extrair de novo" : "Extrair tarefas"}
+        </button>
+        {rows.length ? (
+          <button
+            style={busy || !selectedCount ? S.btnDisabled : S.btn}
+            disabled={Boolean(busy) || !selectedCount}
+            onClick={createSelected}
+            title="Cria as tarefas selecionadas no Odoo e liga-as a este email"
+          >
+            {busy === "create" ? "A criar…" : `Criar selecionadas (${selectedCount})`}
+          </button>
+        ) : null}
+      </div>
+
+      {err ? <div style={S.err}>{err}</div> : null}
+
+      {rows.map((row) => (
+        <div key={row.key} style={row.createdId ? S.rowDone : S.row}>
+          <div style={{ display: "flex", gap: 6, alignItems: "center" }}>
+            <input
+              type="checkbox"
+              checked={row.selected}
+              disabled={Boolean(row.createdId)}
+              onChange={(e) => patchRow(row.key, { selected: e.target.checked })}
+            />
+            <input
+              style={{ ...S.input, fontWeight: 600 }}
+              value={row.title}
+              onChange={(e) => patchRow(row.key, { title: e.target.value })}
+              placeholder="Título da tarefa"
+            />
+          </div>
+
+          <textarea
+            style={S.textarea}
+            rows={2}
+            value={row.description}
+            onChange={(e) => patchRow(row.key, { description: e.target.value })}
+            placeholder="Descrição"
+          />
+
+          <TypeaheadPicker
+            label="Projeto"
+            placeholder={row.projectHint ? `Sugestão: ${row.projectHint}` : "Pesquisar projeto…"}
+            model="project.project"
+            pickedId={row.projectId}
+            pickedName={row.projectName}
+            onPick={(it: any) => {
+              const id = it?.id ?? null;
+              patchRow(row.key, { projectId: id, projectName: id ? it.display_name || it.name || `#${id}` : "" });
+            }}
+          />
+
+          <TypeaheadPicker
+            label="Responsável"
+            placeholder={row.assigneeHint ? `Sugestão: ${row.assigneeHint}` : "Pesquisar utilizador…"}
+            model="res.users"
+            fields={["id", "name", "display_name", "email"]}
+            pickedId={row.assigneeId}
+            pickedName={row.assigneeName}
+            onPick={(it: any) => {
+              const id = it?.id ?? null;
+              patchRow(row.key, { assigneeId: id, assigneeName: id ? it.display_name || it.name || `#${id}` : "" });
+            }}
+          />
+
+          <div style={{ display: "flex", gap: 6, alignItems: "center", marginTop: 8, fontSize: 12 }}>
+            Prazo
+            <input
+              style={{ ...S.input, width: "auto" }}
+              type="date"
+              value={row.deadline}
+              onChange={(e) => patchRow(row.key, { deadline: e.target.value })}
+            />
+          </div>
+
+          {row.createdId ? <div style={S.ok}>Criada no Odoo (#{row.createdId})</div> : null}
+          {row.error ? <div style={S.err}>{row.error}</div> : null}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  btn: {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: "1px solid #0b3d91",
+    background: "#0b3d91",
+    color: "#fff",
+    fontWeight: 700,
+    cursor: "pointer",
+    fontSize: 12,
+  },
+  btnDisabled: {
+    padding: "8px 12px",
+    borderRadius: 10,
+    border: "1px solid #c8d1e6",
+    background: "#e8edf7",
+    color: "#7a86a6",
+    fontWeight: 700,
+    fontSize: 12,
+  },
+  row: { marginTop: 10, padding: 10, border: "1px solid #d6def2", borderRadius: 12, background: "#fff" },
+  rowDone: { marginTop: 10, padding: 10, border: "1px solid #b7e4c7", borderRadius: 12, background: "#f3fbf6" },
+  input: { width: "100%", padding: "6px 8px", border: "1px solid #d6def2", borderRadius: 8, color: "#122", background: "#fff" },
+  textarea: {
+    width: "100%",
+    marginTop: 6,
+    padding: "6px 8px",
+    border: "1px solid #d6def2",
+    borderRadius: 8,
+    resize: "vertical",
+    fontSize: 12,
+    color: "#122",
+  },
+  ok: { marginTop: 6, fontSize: 12, color: "#1b7a3a" },
+  err: { marginTop: 8, fontSize: 12, color: "#8a1f1f" },
+};
@@ -1,8 +1,30 @@
 // client/src/ai/aiClient.ts
-export type AiAction = "reply" | "summarize" | "rewrite" | "tasks";
+import { getUserToken } from "../api";
+import type { ConversationThreadRef } from "../office";
+
+// "qualify" has its own endpoint (aiQualifyLead), like the structured "tasks" (aiExtractTasks)
+export type AiAction = "reply" | "summarize" | "rewrite" | "tasks" | "qualify";
 export type AiMode = "fast" | "quality";
 export type AiTone = "neutro" | "formal" | "curto" | "direto" | "simpático";
 export type AiLocale = "pt-PT" | "es-ES" | "en-GB" | "it-IT" | "de-DE" | "auto";
+export type AiProvider = "openai" | "gemini" | "openai-compatible";
+// Reply/rewrite size (same values as CockpitSettingsV1.length)
+export type AiLength = "xs" | "s" | "m" | "l";
+
+export type AiUsage = { inputTokens: number; outputTokens: number; totalTokens: number };
+
+// Knowledge base note sent with the prompt (pinned or retrieved); cited = the model says it used it
+export type AiKnowledgeRef = { ref: string; id: string; title: string; pinned: boolean; score: number | null; cited: boolean };
+
+// Server prompt pack used for the draft (id = "name@version"); assignment = how it was chosen
+export type AiPromptInfo = { id: string; name: string; version: string; assignment: "explicit" | "ab" | "default" };
+
+// Server checks of a draft: "html" = markup removed by the allow-list (value "<h3>", "style", …);
+// the others = facts in the draft that are not in the email/notes (value as written in the draft)
+export type AiWarning = { type: "html" | "number" | "date" | "price" | "email"; value: string };
+
+// Server post-check of the draft size: fix = "regenerated" (asked again) | "trimmed" (cut to the limit)
+export type AiLengthCheck = { length: AiLength; limit: number; words: number; fix: "" | "regenerated" | "trimmed" };
 
 export type AiEmailContext = {
   subject: string;
@@ -22,21 +44,73 @@ export type AiGenerateRequest = {
   mode: AiMode;
   locale: AiLocale;
   tone: AiTone;
+  length?: AiLength;
   email?: AiEmailContext;
   inputText?: string;
+  // optional override of the server's AI_PROVIDER (must be in AI_ALLOWED_PROVIDERS)
+  provider?: AiProvider;
+  // 2–3 → labelled drafts in `variants` (only /api/ai/generate, not the stream)
+  variants?: number;
+  // prompt pack ("default@2", or "default" = latest); omitted = server A/B split or default pack
+  promptVersion?: string;
+  // summarize: + key quotes in the email's original language
+  bilingual?: boolean;
+};
+
+// One labelled draft (label: "accept" | "decline" | "ask_info" | "formal" | …, title: shown in the UI)
+export type AiVariant = {
+  label: string;
+  title: string;
+  html: string;
+  text: string;
+  usage?: AiUsage;
+  knowledge?: AiKnowledgeRef[];
+  warnings?: AiWarning[];
+  lengthCheck?: AiLengthCheck;
 };
 
 export type AiGenerateResponse =
-  | { ok: true; html: string; text: string }
+  | {
+      ok: true;
+      html: string;
+      text: string;
+      provider?: AiProvider;
+      model?: string;
+      usage?: AiUsage;
+      knowledge?: AiKnowledgeRef[];
+      warnings?: AiWarning[];
+      lengthCheck?: AiLengthCheck;
+      variants?: AiVariant[];
+      // answered from the server cache (same email and options), no new AI call
+      cached?: boolean;
+      prompt?: AiPromptInfo;
+    }
   | { ok: false; error: string };
 
+// x-icc-token identifies the user for the server's AI usage ledger and daily budget
+function aiHeaders(extra?: HeadersInit): HeadersInit {
+  const token = getUserToken();
+  return { "Content-Type": "application/json", ...(token ? { "x-icc-token": token } : {}), ...(extra || {}) };
+}
+
+// AI routes answer errors as { ok:false, error } (e.g. 429 when the daily budget is spent)
+function httpError(status: number, text: string): Error {
+  try {
+    const j = JSON.parse(text);
+    if (j?.error) return new Error(String(j.error));
+  } catch {
+    // not JSON
+  }
+  return new Error(`HTTP ${status}: ${text.slice(0, 400)}`);
+}
+
 async function requestJSON<T>(url: string, init?: RequestInit): Promise<T> {
   const res = await fetch(url, {
     ...init,
-    headers: { "Content-Type": "application/json", ...(init?.headers || {}) },
+    headers: aiHeaders(init?.headers),
   });
   const text = await res.text();
-  if (!res.ok) throw new Error(`HTTP ${res.status}: ${text.slice(0, 400)}`);
+  if (!res.ok) throw httpError(res.status, text);
   try {
     return JSON.parse(text) as T;
   } catch {
@@ -50,3 +124,159 @@ export async function aiGenerate(payload: AiGenerateRequest): Promise<AiGenerate
     body: JSON.stringify(payload),
   });
 }
+
+// Structured "tasks" (/api/ai/tasks): hints are free text from the email ("" when absent)
+export type AiTask = { title: string; description: string; assigneeHint: string; deadline: string; projectHint: string };
+
+export type AiTasksResponse =
+  | { ok: true; tasks: AiTask[]; provider?: AiProvider; model?: string; usage?: AiUsage; cached?: boolean }
+  | { ok: false; error: string };
+
+export async function aiExtractTasks(payload: { mode: AiMode; email: AiEmailContext; provider?: AiProvider }): Promise<AiTasksResponse> {
+  return requestJSON<AiTasksResponse>("/api/ai/tasks", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+// "qualify": every field comes with the model's confidence (0..1; 0 = not in the email)
+export type AiLeadField = { value: string; confidence: number };
+
+export type AiLead = {
+  company: AiLeadField;
+  contactName: AiLeadField;
+  email: AiLeadField;
+  phone: AiLeadField;
+  productInterest: AiLeadField;
+  quantities: AiLeadField;
+  budget: AiLeadField;
+  urgency: AiLeadField; // value: "" | "baixa" | "média" | "alta"
+};
+
+export type AiQualifyResponse =
+  | { ok: true; lead: AiLead; provider?: AiProvider; model?: string; usage?: AiUsage; cached?: boolean }
+  | { ok: false; error: string };
+
+export async function aiQualifyLead(payload: { mode: AiMode; email: AiEmailContext; provider?: AiProvider }): Promise<AiQualifyResponse> {
+  return requestJSON<AiQualifyResponse>("/api/ai/qualify", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+// Whole-conversation summary: messages read via EWS (thread) or from the quoted chain in email.bodyText
+export type AiThreadInfo = { source: "ews" | "quoted"; messageCount: number; omitted: number };
+
+export type AiSummarizeThreadResponse =
+  | {
+      ok: true;
+      html: string;
+      text: string;
+      provider?: AiProvider;
+      model?: string;
+      usage?: AiUsage;
+      knowledge?: AiKnowledgeRef[];
+      warnings?: AiWarning[];
+      thread: AiThreadInfo;
+      cached?: boolean;
+      prompt?: AiPromptInfo;
+    }
+  | { ok: false; error: string };
+
+export async function aiSummarizeThread(payload: {
+  mode: AiMode;
+  conversationId: string;
+  email: AiEmailContext & { receivedAtIso?: string };
+  thread?: ConversationThreadRef | null;
+  provider?: AiProvider;
+  promptVersion?: string;
+  // summary language (the user's reading language) and key quotes in the original language
+  locale?: AiLocale;
+  bilingual?: boolean;
+}): Promise<AiSummarizeThreadResponse> {
+  return requestJSON<AiSummarizeThreadResponse>("/api/ai/summarize-thread", {
+    method: "POST",
+    body: JSON.stringify(payload),
+  });
+}
+
+type AiStreamEvent =
+  | { type: "delta"; text: string }
+  | {
+      type: "done";
+      html: string;
+      text: string;
+      provider?: AiProvider;
+      model?: string;
+      usage?: AiUsage;
+      knowledge?: AiKnowledgeRef[];
+      warnings?: AiWarning[];
+      lengthCheck?: AiLengthCheck;
+      prompt?: AiPromptInfo;
+    }
+  | { type: "error"; error: string; status?: number };
+
+/**
+ * Streaming variant of aiGenerate (NDJSON from /api/ai/generate/stream).
+ * onDelta receives the raw output accumulated so far (partial HTML).
+ * Aborting `signal` closes the connection, which cancels the upstream AI request;
+ * the promise then rejects with an AbortError.
+ */
+export async function aiGenerateStream(
+  payload: AiGenerateRequest,
+  { onDelta, signal }: { onDelta: (partial: string) => void; signal?: AbortSignal }
+): Promise<AiGenerateResponse> {
+  const res = await fetch("/api/ai/generate/stream", {
+    method: "POST",
+    headers: aiHeaders(),
+    body: JSON.stringify(payload),
+    signal,
+  });
+  if (!res.ok || !res.body) {
+    throw httpError(res.status, await res.text());
+  }
+
+  const reader = res.body.getReader();
+  const decoder = new TextDecoder();
+  let buf = "";
+  let partial = "";
+  let final: AiGenerateResponse | null = null;
+
+  const handle = (line: string) => {
+    if (!line.trim()) return;
+    const ev = JSON.parse(line) as AiStreamEvent;
+    if (ev.type === "delta") {
+      partial += ev.text;
+      onDelta(partial);
+    } else if (ev.type === "done") {
+      final = {
+        ok: true,
+        html: ev.html,
+        text: ev.text,
+        provider: ev.provider,
+        model: ev.model,
+        usage: ev.usage,
+        knowledge: ev.knowledge,
+        warnings: ev.warnings,
+        lengthCheck: ev.lengthCheck,
+        prompt: ev.prompt,
+      };
+    } else if (ev.type === "error") {
+      final = { ok: false, error: ev.error };
+    }
+  };
+
+  while (true) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    buf += decoder.decode(value, { stream: true });
+    let i;
+    while ((i = buf.indexOf("\n")) >= 0) {
+      handle(buf.slice(0, i));
+      buf = buf.slice(i + 1);
+    }
+  }
+  handle(buf);
+
+  return final || { ok: false, error: "Stream terminou sem resposta" };
+}
@@ -0,0 +1,73 @@
+// client/src/ai/draftWarnings.ts
+// Server draft checks (AiWarning) in the preview: invented facts get a <mark>, removed markup is listed.
+import type { AiWarning } from "./aiClient";
+
+const FACT_LABEL: Record<Exclude<AiWarning["type"], "html">, string> = {
+  number: "número",
+  date: "data",
+  price: "preço",
+  email: "email",
+};
+
+export function factWarnings(warnings: AiWarning[] | undefined): AiWarning[] {
+  return (warnings || []).filter((w) => w.type !== "html" && w.value);
+}
+
+export function removedMarkup(warnings: AiWarning[] | undefined): string[] {
+  return (warnings || []).filter((w) => w.type === "html").map((w) => w.value);
+}
+
+export function warningLabel(w: AiWarning): string {
+  return w.type === "html" ? "formatação" : FACT_LABEL[w.type];
+}
+
+function escapeRx(s: string) {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Preview only (never the inserted HTML): wraps each invented fact in <mark title="…">.
+ * Works on text nodes, so tags/attributes (e.g. an href with the same email) are never touched.
+ */
+export function highlightWarnings(html: string, warnings: AiWarning[] | undefined): string {
+  const facts = factWarnings(warnings);
+  if (!html || !facts.length) return html;
+
+  const byValue = new Map(facts.map((w) => [w.value.toLowerCase(), w]));
+  const rx = new RegExp(
+    facts
+      .map((w) => escapeRx(w.value))
+      .sort((a, b) => b.length - a.length)
+      .join("|"),
+    "gi"
+  );
+
+  const div = document.createElement("div");
+  div.innerHTML = html;
+  const walker = document.createTreeWalker(div, NodeFilter.SHOW_TEXT);
+  const nodes: Text[] = [];
+  while (walker.nextNode()) nodes.push(walker.currentNode as Text);
+
+  for (const node of nodes) {
+    const text = node.data;
+    rx.lastIndex = 0;
+    if (!rx.test(text)) continue;
+    rx.lastIndex = 0;
+
+    const frag = document.createDocumentFragment();
+    let last = 0;
+    for (const m of text.matchAll(rx)) {
+      const i = m.index ?? 0;
+      if (i > last) frag.appendChild(document.createTextNode(text.slice(last, i)));
+      const w = byValue.get(m[0].toLowerCase());
+      const mark = document.createElement("mark");
+      mark.textContent = m[0];
+      mark.title = `Verifica: ${w ? warningLabel(w) : "dado"} que não está no email`;
+      frag.appendChild(mark);
+      last = i + m[0].length;
+    }
+    if (last < text.length) frag.appendChild(document.createTextNode(text.slice(last)));
+    node.replaceWith(frag);
+  }
+  return div.innerHTML;
+}
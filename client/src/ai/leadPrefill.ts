@@ -0,0 +1,37 @@
+// client/src/ai/leadPrefill.ts
+// Hand-off of a qualified lead from the taskpane (AiPanel) to the Dialog's LeadForm.
+// localStorage is shared between the taskpane and the Dialog window (same origin).
+import type { AiLead } from "./aiClient";
+
+const KEY = "icc.leadPrefill.v1";
+const MAX_AGE_MS = 30 * 60 * 1000;
+
+type Stored = { conversationId: string; ts: number; lead: AiLead };
+
+export function saveLeadPrefill(conversationId: string, lead: AiLead): void {
+  try {
+    const v: Stored = { conversationId, ts: Date.now(), lead };
+    localStorage.setItem(KEY, JSON.stringify(v));
+  } catch {
+    // ignore
+  }
+}
+
+// Lead qualified for this conversation (recent only), or null
+export function loadLeadPrefill(conversationId: string): AiLead | null {
+  try {
+    const s = JSON.parse(localStorage.getItem(KEY) || "null") as Stored | null;
+    if (!s?.lead || s.conversationId !== conversationId || Date.now() - s.ts > MAX_AGE_MS) return null;
+    return s.lead;
+  } catch {
+    return null;
+  }
+}
+
+export function clearLeadPrefill(): void {
+  try {
+    localStorage.removeItem(KEY);
+  } catch {
+    // ignore
+  }
+}
@@ -0,0 +1,77 @@
+// client/src/ai/threadSummary.ts
+// Conversation summary cache: one entry per conversationId (replaces the per-item "icc.summary.v2").
+// Read by the taskpane summary card (ui/App.tsx) and written by AiPanel; "icc-summary-updated" tells the card.
+import type { AiLocale, AiThreadInfo } from "./aiClient";
+
+const KEY = "icc.threadSummary.v1";
+const LEGACY_KEY = "icc.summary.v2";
+const KEEP_MS = 5 * 24 * 60 * 60 * 1000;
+
+export type ThreadSummary = {
+  ts: number;
+  text: string;
+  // sorted EWS item ids of the conversation (empty when they couldn't be read)
+  fingerprint: string;
+  // newest message seen when the summary was made (fallback freshness check)
+  latestIso: string;
+  messageCount: number;
+  source: AiThreadInfo["source"];
+  // language options it was made with (absent in older entries = pt-PT, not bilingual)
+  locale?: AiLocale;
+  bilingual?: boolean;
+};
+
+function loadAll(): Record<string, ThreadSummary> {
+  try {
+    const raw = localStorage.getItem(KEY);
+    const map = raw ? (JSON.parse(raw) as Record<string, ThreadSummary>) : {};
+    return map && typeof map === "object" ? map : {};
+  } catch {
+    return {};
+  }
+}
+
+export function threadFingerprint(itemIds: string[] | null | undefined): string {
+  return (itemIds || []).slice().sort().join("|");
+}
+
+export function loadThreadSummary(conversationId: string): ThreadSummary | null {
+  if (!conversationId) return null;
+  const row = loadAll()[conversationId];
+  if (!row?.text || typeof row.ts !== "number" || Date.now() - row.ts > KEEP_MS) return null;
+  return row;
+}
+
+export function saveThreadSummary(conversationId: string, entry: Omit<ThreadSummary, "ts">) {
+  if (!conversationId) return;
+  try {
+    const map = loadAll();
+    map[conversationId] = { ...entry, ts: Date.now() };
+    // prune
+    const now = Date.now();
+    for (const k of Object.keys(map)) {
+      if (!map[k]?.ts || now - map[k].ts > KEEP_MS) delete map[k];
+    }
+    localStorage.setItem(KEY, JSON.stringify(map));
+    localStorage.removeItem(LEGACY_KEY);
+    window.dispatchEvent(new CustomEvent("icc-summary-updated", { detail: { conversationId } }));
+  } catch {
+    // ignore
+  }
+}
+
+/**
+ * The summary has to be made again when the user changed its language options, or a new message
+ * arrived since it was made:
+ * - with EWS ids: the set of items changed;
+ * - without them: the selected message is newer than the newest one summarized.
+ */
+export function isThreadSummaryStale(
+  s: ThreadSummary,
+  now: { fingerprint: string; latestIso: string; locale: AiLocale; bilingual: boolean }
+): boolean {
+  if ((s.locale || "pt-PT") !== now.locale || Boolean(s.bilingual) !== now.bilingual) return true;
+  if (now.fingerprint && s.fingerprint) return now.fingerprint !== s.fingerprint;
+  if (!now.latestIso) return false;
+  return !s.latestIso || now.latestIso > s.latestIso;
+}
@@ -2,6 +2,8 @@
 // Inbox CRM Cockpit - client-side API helper (superset + backwards compatible)
 // Goal: keep UI stable even if server endpoints evolve.
 
+import { getOutlookIdentityToken } from "./office";
+
 export type OdooMeta = {
   ok: boolean;
   baseUrl?: string;     // preferred
@@ -15,7 +17,7 @@ export type OdooMeta = {
 export type OdooMetaResponse = { ok: boolean; meta: OdooMeta };
 
 export type LinkEntry = {
-  id?: string;
+  id?: number;
   conversationId: string;
   model: string;
 
@@ -33,8 +35,28 @@ export type LinkEntry = {
 
   createdAt?: string;
   updatedAt?: string;
+
+  // email data stored at link time
+  subject?: string;
+  fromEmail?: string;
+  fromName?: string;
+  internetMessageId?: string;
+  receivedAtIso?: string;
+  linkedAt?: string;
+
+  // what was archived into the Odoo chatter
+  archive?: LinkArchive;
+
+  // InvoiceStudio documents extracted from this email (Buckets tab)
+  invoices?: LinkInvoice[];
 };
 
+export type LinkInvoice = { bucket: string; bucketName: string; documentId: string; fileName?: string };
+
+export type ArchiveMode = "summary" | "full" | "ai";
+
+export type LinkArchive = { mode: ArchiveMode; eml?: boolean; chars?: number; error?: string };
+
 export type LinkPayload = {
   conversationId: string;
   model: string;
@@ -56,19 +78,125 @@ export type LinkPayload = {
   fromEmail?: string;
   fromName?: string;
   url?: string;
+
+  // Outlook attachments to send to the record (ir.attachment + chatter)
+  attachments?: LinkAttachment[];
+
+  // email body archive (default "summary" = header only)
+  archiveMode?: ArchiveMode;
+  bodyHtml?: string;
+  includeEml?: boolean;
+  // original .eml from Outlook (optional; server rebuilds one from bodyHtml otherwise)
+  emlBase64?: string;
+  to?: string[];
+  cc?: string[];
+
+  invoices?: LinkInvoice[];
+};
+
+export type LinkAttachment = {
+  name: string;
+  contentType?: string;
+  contentBase64?: string;
+  // client-side read error (server reports it back as a failed attachment)
+  error?: string;
+};
+
+export type LinkAttachmentResult = { name: string; ok: boolean; id?: number; size?: number; error?: string };
+
+export type LinkResponse = { ok: boolean; links?: LinkEntry[]; attachments?: LinkAttachmentResult[]; archive?: LinkArchive };
+
+export type AttachmentPolicy = {
+  ok: boolean;
+  maxBytes: number;
+  maxTotalBytes: number;
+  maxFiles: number;
+  blockedExtensions: string[];
+};
+
+export type KnownPartner = { id: number; name: string; email: string; isCompany: boolean; company: string };
+
+export type VendorPartner = KnownPartner & { vat: string };
+
+export type VendorMatch = { matchedBy: "vat" | "name" | ""; partners: VendorPartner[] };
+
+export type PartnerMatch = { exact: KnownPartner[]; fuzzy: KnownPartner[]; duplicate: boolean };
+
+export type KnownParticipant = { email: string; role: "from" | "to" | "cc"; partners: KnownPartner[] };
+
+export type OpenLead = {
+  id: number;
+  name: string;
+  emailFrom: string;
+  partner: string;
+  stage: string;
+  type: string;
+  probability: number;
+  expectedRevenue: number;
+  user: string;
+};
+
+export type KnownCompany = { id: number; name: string; email: string; website: string };
+
+export type RecognizeResponse = {
+  ok: boolean;
+  participants: KnownParticipant[];
+  leads: OpenLead[];
+  companies: KnownCompany[];
+  senderDomain: string;
 };
 
 export type AiGenerateResponse =
   | { ok: true; html?: string; text?: string; data?: any }
   | { ok: false; error: string };
 
+export type OdooAuthStatus = {
+  ok: boolean;
+  outlookUser: string;
+  linked: boolean;
+  login: string;
+  userName?: string;
+  requireUserAuth: boolean;
+};
+
 type Json = any;
 
+// -------- User identity (per-user Odoo credentials live server-side) --------
+// localStorage is shared between the taskpane and the Dialog window (same origin).
+const KEY_USER_TOKEN = "icc.userToken.v1";
+
+export function getUserToken(): string {
+  try {
+    return globalThis.localStorage?.getItem(KEY_USER_TOKEN) || "";
+  } catch {
+    return "";
+  }
+}
+
+export function setUserToken(token: string): void {
+  try {
+    if (token) globalThis.localStorage?.setItem(KEY_USER_TOKEN, token);
+    else globalThis.localStorage?.removeItem(KEY_USER_TOKEN);
+  } catch {
+    // ignore
+  }
+}
+
+export function getOutlookUserEmail(): string {
+  try {
+    return String((globalThis as any).Office?.context?.mailbox?.userProfile?.emailAddress || "").trim();
+  } catch {
+    return "";
+  }
+}
+
 async function requestJSON<T = Json>(path: string, init?: RequestInit): Promise<T> {
+  const token = getUserToken();
   const res = await fetch(path, {
     ...init,
     headers: {
       "Content-Type": "application/json",
+      ...(token ? { "x-icc-token": token } : {}),
       ...(init?.headers || {}),
     },
   });
@@ -96,11 +224,26 @@ export async function odooPing(): Promise<{ ok: boolean }> {
   return await requestJSON(`/api/odoo/ping`);
 }
 
+// -------- Odoo account (per user) --------
+export async function odooAuthStatus(): Promise<OdooAuthStatus> {
+  return await requestJSON(`/api/odoo/auth/status`);
+}
+
+export async function odooLogin(login: string, apiKey: string): Promise<{ ok: boolean; login: string; userName?: string }> {
+  const r: any = await requestJSON(`/api/odoo/auth/login`, {
+    method: "POST",
+    body: JSON.stringify({ identityToken: await getOutlookIdentityToken(), outlookUser: getOutlookUserEmail(), login, apiKey }),
+  });
+  if (r?.token) setUserToken(r.token);
+  return r;
+}
+
+export async function odooLogout(): Promise<{ ok: boolean }> {
+  return await requestJSON(`/api/odoo/auth/logout`, { method: "POST", body: "{}" });
+}
+
 // -------- Links --------
-export async function getLinks(conversationId: string): Promise<LinkEntry[]> {
-  const q = encodeURIComponent(conversationId);
-  const r: any = await requestJSON(`/api/links?conversationId=${q}`);
-  const links: LinkEntry[] = r?.links ?? r ?? [];
+function normalizeLinks(links: any): LinkEntry[] {
   return (Array.isArray(links) ? links : []).map((l: any) => ({
     ...l,
     resId: l.resId ?? l.recordId,
@@ -111,15 +254,171 @@ export async function getLinks(conversationId: string): Promise<LinkEntry[]> {
   }));
 }
 
-export async function linkEmailToRecord(payload: LinkPayload): Promise<{ ok: boolean; link?: LinkEntry }> {
+export async function getLinks(conversationId: string): Promise<LinkEntry[]> {
+  const q = encodeURIComponent(conversationId);
+  const r: any = await requestJSON(`/api/links?conversationId=${q}`);
+  return normalizeLinks(r?.links ?? r ?? []);
+}
+
+// Known contacts / open opportunities for the participants of an email (one batched call)
+export async function recognizeContacts(payload: {
+  fromEmail?: string;
+  to?: string[];
+  cc?: string[];
+  exclude?: string[];
+}): Promise<RecognizeResponse> {
+  return await requestJSON(`/api/odoo/recognize`, { method: "POST", body: JSON.stringify(payload) });
+}
+
+// Exact + fuzzy partner matches for many emails (single Odoo search), keyed by lowercase email
+export async function matchPartners(emails: string[]): Promise<Record<string, PartnerMatch>> {
+  const r: any = await requestJSON(`/api/odoo/partners/match`, { method: "POST", body: JSON.stringify({ emails }) });
+  return r?.matches ?? {};
+}
+
+// Vendor of an extracted invoice (VAT first, then name)
+export async function matchVendor(vat: string, name: string): Promise<VendorMatch> {
+  const r: any = await requestJSON(`/api/odoo/partners/vendor`, { method: "POST", body: JSON.stringify({ vat, name }) });
+  return { matchedBy: r?.matchedBy || "", partners: r?.partners || [] };
+}
+
+// Reverse lookup: every conversation linked to an Odoo record
+export async function getLinksByRecord(model: string, recordId: number): Promise<LinkEntry[]> {
+  const q = `model=${encodeURIComponent(model)}&recordId=${encodeURIComponent(String(recordId))}`;
+  const r: any = await requestJSON(`/api/links/by-record?${q}`);
+  return normalizeLinks(r?.links ?? []);
+}
+
+// Removes a link; postNote leaves a "link removed" note on the Odoo record (best-effort → noteError)
+export async function deleteLink(
+  id: number,
+  opts: { postNote?: boolean } = {}
+): Promise<{ links: LinkEntry[]; noteError?: string | null }> {
+  const r: any = await requestJSON(`/api/links/${encodeURIComponent(String(id))}`, {
+    method: "DELETE",
+    body: JSON.stringify({ postNote: Boolean(opts.postNote) }),
+  });
+  return { links: normalizeLinks(r?.links), noteError: r?.noteError ?? null };
+}
+
+export async function updateLink(
+  id: number,
+  patch: { model?: string; recordId?: number; recordName?: string }
+): Promise<{ link: LinkEntry; links: LinkEntry[] }> {
+  const r: any = await requestJSON(`/api/links/${encodeURIComponent(String(id))}`, {
+    method: "PATCH",
+    body: JSON.stringify(patch),
+  });
+  return { link: normalizeLinks([r?.link])[0], links: normalizeLinks(r?.links) };
+}
+
+export async function linkEmailToRecord(payload: LinkPayload): Promise<LinkResponse> {
   try {
     return await requestJSON(`/api/links/link`, { method: "POST", body: JSON.stringify(payload) });
   } catch (e1: any) {
-    // fallback for older servers
+    // fallback for older servers (only when the alias is missing; avoids posting/uploading twice)
+    if (!String(e1?.message || "").startsWith("HTTP 404")) throw e1;
     return await requestJSON(`/api/odoo/link-email`, { method: "POST", body: JSON.stringify(payload) });
   }
 }
 
+export async function getAttachmentPolicy(): Promise<AttachmentPolicy> {
+  return await requestJSON(`/api/odoo/attachments/policy`);
+}
+
+// -------- InvoiceStudio (Buckets) --------
+export type InvoiceStudioAccount = { login: string; userName: string; org: string; remember: boolean; expired: boolean };
+
+export type InvoiceStudioStatus = {
+  ok: boolean;
+  configured: boolean;
+  url: string;
+  hasToken: boolean; // shared server token (INVOICESTUDIO_TOKEN)
+  authOptional: boolean; // INVOICESTUDIO_AUTH_MODE=optional → default-org without login
+  outlookUser: string;
+  account: InvoiceStudioAccount | null;
+};
+
+export type ExtractResult = {
+  fileName: string;
+  status: string; // "success" | "error" | ... (as returned by InvoiceStudio)
+  documentId?: string;
+  normalized?: any;
+  error?: string;
+};
+
+export type ExtractResponse = { ok: boolean; project: string; batchIds: string[]; results: ExtractResult[] };
+
+export async function invoiceStudioStatus(): Promise<InvoiceStudioStatus> {
+  return await requestJSON(`/api/invoicestudio/status`);
+}
+
+export async function invoiceStudioLogin(
+  email: string,
+  password: string,
+  remember: boolean
+): Promise<{ ok: boolean; account: InvoiceStudioAccount | null }> {
+  const r: any = await requestJSON(`/api/invoicestudio/auth/login`, {
+    method: "POST",
+    body: JSON.stringify({ identityToken: await getOutlookIdentityToken(), outlookUser: getOutlookUserEmail(), email, password, remember }),
+  });
+  if (r?.token) setUserToken(r.token);
+  return r;
+}
+
+export async function invoiceStudioLogout(): Promise<{ ok: boolean }> {
+  return await requestJSON(`/api/invoicestudio/auth/logout`, { method: "POST", body: "{}" });
+}
+
+// Server answered 401 (no session, or it expired and could not be renewed)
+export function isAuthError(e: any): boolean {
+  return String(e?.message || "").startsWith("HTTP 401");
+}
+
+export async function extractToBucket(project: string, attachments: LinkAttachment[]): Promise<ExtractResponse> {
+  return await requestJSON(`/api/invoicestudio/extract`, {
+    method: "POST",
+    body: JSON.stringify({ project, attachments }),
+  });
+}
+
+// -------- AI knowledge base (shared by the team, server-side) --------
+export type KnowledgeEntry = {
+  id: string;
+  title: string;
+  body: string;
+  tags: string[];
+  pinned: boolean; // always sent to the AI (otherwise only when relevant to the email)
+  createdBy?: string;
+  createdAt?: string;
+  updatedBy?: string;
+  updatedAt?: string;
+};
+
+export type KnowledgeInput = { title?: string; body?: string; tags?: string[]; pinned?: boolean };
+
+export async function listKnowledge(): Promise<KnowledgeEntry[]> {
+  const r: any = await requestJSON(`/api/knowledge`);
+  return Array.isArray(r?.entries) ? r.entries : [];
+}
+
+export async function createKnowledge(input: KnowledgeInput): Promise<KnowledgeEntry> {
+  const r: any = await requestJSON(`/api/knowledge`, { method: "POST", body: JSON.stringify(input) });
+  return r.entry;
+}
+
+export async function updateKnowledge(id: string, input: KnowledgeInput): Promise<KnowledgeEntry> {
+  const r: any = await requestJSON(`/api/knowledge/${encodeURIComponent(id)}`, {
+    method: "PATCH",
+    body: JSON.stringify(input),
+  });
+  return r.entry;
+}
+
+export async function deleteKnowledge(id: string): Promise<void> {
+  await requestJSON(`/api/knowledge/${encodeURIComponent(id)}`, { method: "DELETE" });
+}
+
 // -------- Odoo generic helpers --------
 export async function readOdoo(model: string, ids: number[] | number, fields: string[]): Promise<any[]> {
   const idList = Array.isArray(ids) ? ids : [ids];
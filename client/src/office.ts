@@ -161,6 +161,326 @@ export async function getEmailBodyText(): Promise<string> {
 }
 
 
+// Corpo HTML (arquivo no Odoo)
+export async function getEmailBodyHtml(): Promise<string> {
+  const OfficeAny = await ensureOfficeReady();
+  const item = OfficeAny?.context?.mailbox?.item;
+  if (!item?.body?.getAsync) throw new Error("Não foi possível ler o corpo do email.");
+  return await new Promise<string>((resolve, reject) => {
+    try {
+      item.body.getAsync(OfficeAny.CoercionType?.Html || "html", (r: any) => {
+        if (r?.status === OfficeAny.AsyncResultStatus.Succeeded) resolve(String(r.value ?? ""));
+        else reject(new Error(r?.error?.message || "Falha ao ler o corpo do email"));
+      });
+    } catch (e: any) {
+      reject(e);
+    }
+  });
+}
+
+// Mensagem original em .eml (base64). Só em Mailbox 1.14+; sem suporte o servidor gera uma versão simples.
+export async function getItemEmlBase64(): Promise<string> {
+  const OfficeAny = await ensureOfficeReady();
+  const item = OfficeAny?.context?.mailbox?.item;
+  if (!item?.getAsFileAsync) throw new Error("Este Outlook não exporta o email como .eml.");
+  return await new Promise<string>((resolve, reject) => {
+    try {
+      item.getAsFileAsync((r: any) => {
+        if (r?.status === OfficeAny.AsyncResultStatus.Succeeded) resolve(String(r.value ?? ""));
+        else reject(new Error(r?.error?.message || "Falha ao exportar .eml"));
+      });
+    } catch (e: any) {
+      reject(e);
+    }
+  });
+}
+
+/**
+ * Token Office SSO (Entra ID) que prova ao servidor quem é o utilizador do Outlook (login Odoo/InvoiceStudio).
+ * "" quando o SSO não está disponível (manifest sem WebApplicationInfo, host antigo, consentimento recusado).
+ */
+export async function getOutlookIdentityToken(): Promise<string> {
+  try {
+    const OfficeAny = await ensureOfficeReady();
+    if (!OfficeAny?.auth?.getAccessToken) return "";
+    return String((await OfficeAny.auth.getAccessToken({ allowSignInPrompt: true, allowConsentPrompt: true })) || "");
+  } catch (e: any) {
+    clientLog.warn(`[office] SSO token unavailable: ${e?.message || e?.code || e}`);
+    return "";
+  }
+}
+
+function xmlEscape(s: string): string {
+  return s.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+/**
+ * Abre no Outlook um email guardado numa ligação, a partir do internetMessageId.
+ * Procura o item via EWS (PR_INTERNET_MESSAGE_ID em Inbox/Enviados) e abre com displayMessageForm.
+ * makeEwsRequestAsync exige a permissão ReadWriteMailbox (pedida nos manifests).
+ */
+export async function openMessageByInternetMessageId(internetMessageId: string): Promise<void> {
+  const OfficeAny = await ensureOfficeReady();
+  const mailbox = OfficeAny?.context?.mailbox;
+  if (!internetMessageId) throw new Error("Ligação sem internetMessageId.");
+  if (!mailbox?.makeEwsRequestAsync || !mailbox?.displayMessageForm) {
+    throw new Error("Este Outlook não permite abrir emails a partir do add-in.");
+  }
+
+  const request = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
+  xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages"
+  xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+  <soap:Header><t:RequestServerVersion Version="Exchange2013" /></soap:Header>
+  <soap:Body>
+    <m:FindItem Traversal="Shallow">
+      <m:ItemShape><t:BaseShape>IdOnly</t:BaseShape></m:ItemShape>
+      <m:IndexedPageItemView MaxEntriesReturned="1" Offset="0" BasePoint="Beginning" />
+      <m:Restriction>
+        <t:IsEqualTo>
+          <t:ExtendedFieldURI PropertyTag="0x1035" PropertyType="String" />
+          <t:FieldURIOrConstant><t:Constant Value="${xmlEscape(internetMessageId)}" /></t:FieldURIOrConstant>
+        </t:IsEqualTo>
+      </m:Restriction>
+      <m:ParentFolderIds>
+        <t:DistinguishedFolderId Id="inbox" />
+        <t:DistinguishedFolderId Id="sentitems" />
+      </m:ParentFolderIds>
+    </m:FindItem>
+  </soap:Body>
+</soap:Envelope>`;
+
+  const xml = await new Promise<string>((resolve, reject) => {
+    try {
+      mailbox.makeEwsRequestAsync(request, (r: any) => {
+        if (r?.status === OfficeAny.AsyncResultStatus.Succeeded) resolve(String(r.value ?? ""));
+        else reject(new Error(r?.error?.message || "Pesquisa no Outlook falhou"));
+      });
+    } catch (e: any) {
+      reject(e);
+    }
+  });
+
+  const itemId = /<t:ItemId\b[^>]*\bId="([^"]+)"/.exec(xml)?.[1];
+  if (!itemId) throw new Error("Email não encontrado na Caixa de Entrada/Enviados.");
+  mailbox.displayMessageForm(itemId);
+}
+
+const THREAD_MAX_ITEMS = 25;
+
+export type ConversationThreadRef = { ewsUrl: string; token: string; itemIds: string[] };
+
+/**
+ * Ids (EWS) das últimas THREAD_MAX_ITEMS mensagens da conversa em Inbox/Enviados, da mais antiga para a
+ * mais recente, + callback token para o servidor as ler (resumo da conversa). Best effort: null sem permissão/EWS
+ * (o servidor usa então o histórico citado no corpo).
+ */
+export async function getConversationThreadRef(conversationId: string): Promise<ConversationThreadRef | null> {
+  try {
+    const OfficeAny = await ensureOfficeReady();
+    const mailbox = OfficeAny?.context?.mailbox;
+    if (!conversationId || !mailbox?.makeEwsRequestAsync || !mailbox?.getCallbackTokenAsync || !mailbox?.ewsUrl) return null;
+
+    const request = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
+  xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages"
+  xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+  <soap:Header><t:RequestServerVersion Version="Exchange2013" /></soap:Header>
+  <soap:Body>
+    <m:FindItem Traversal="Shallow">
+      <m:ItemShape><t:BaseShape>IdOnly</t:BaseShape></m:ItemShape>
+      <m:IndexedPageItemView MaxEntriesReturned="${THREAD_MAX_ITEMS}" Offset="0" BasePoint="Beginning" />
+      <m:Restriction>
+        <t:IsEqualTo>
+          <t:FieldURI FieldURI="item:ConversationId" />
+          <t:FieldURIOrConstant><t:Constant Value="${xmlEscape(conversationId)}" /></t:FieldURIOrConstant>
+        </t:IsEqualTo>
+      </m:Restriction>
+      <m:SortOrder>
+        <t:FieldOrder Order="Descending"><t:FieldURI FieldURI="item:DateTimeReceived" /></t:FieldOrder>
+      </m:SortOrder>
+      <m:ParentFolderIds>
+        <t:DistinguishedFolderId Id="inbox" />
+        <t:DistinguishedFolderId Id="sentitems" />
+      </m:ParentFolderIds>
+    </m:FindItem>
+  </soap:Body>
+</soap:Envelope>`;
+
+    const xml = await new Promise<string>((resolve, reject) => {
+      mailbox.makeEwsRequestAsync(request, (r: any) => {
+        if (r?.status === OfficeAny.AsyncResultStatus.Succeeded) resolve(String(r.value ?? ""));
+        else reject(new Error(r?.error?.message || "Pesquisa no Outlook falhou"));
+      });
+    });
+    // newest first from EWS (so long threads keep their latest messages) → oldest first for the transcript
+    const itemIds = Array.from(xml.matchAll(/<t:ItemId\b[^>]*\bId="([^"]+)"/g), (m) => m[1]).reverse();
+    if (!itemIds.length) return null;
+
+    const token = await new Promise<string>((resolve, reject) => {
+      mailbox.getCallbackTokenAsync({ isRest: false }, (r: any) => {
+        if (r?.status === OfficeAny.AsyncResultStatus.Succeeded) resolve(String(r.value ?? ""));
+        else reject(new Error(r?.error?.message || "Sem token do Outlook"));
+      });
+    });
+    return token ? { ewsUrl: String(mailbox.ewsUrl), token, itemIds } : null;
+  } catch (e: any) {
+    clientLog.warn(`[office] conversation items unavailable: ${e?.message || e}`);
+    return null;
+  }
+}
+
+// -------- Anexos do item atual --------
+export type AttachmentMeta = {
+  id: string;
+  name: string;
+  contentType: string;
+  size: number;
+  isInline: boolean;
+  attachmentType: string; // "file" | "item" | "cloud"
+};
+
+function normalizeAttachments(arr: any): AttachmentMeta[] {
+  if (!Array.isArray(arr)) return [];
+  return arr
+    .map((a) => ({
+      id: String(a?.id || ""),
+      name: String(a?.name || "").trim(),
+      contentType: String(a?.contentType || ""),
+      size: Number(a?.size || 0),
+      isInline: Boolean(a?.isInline),
+      attachmentType: String(a?.attachmentType || "file").toLowerCase(),
+    }))
+    .filter((a) => a.id);
+}
+
+export async function getAttachmentsMeta(): Promise<AttachmentMeta[]> {
+  const OfficeAny = await ensureOfficeReady();
+  const item = OfficeAny?.context?.mailbox?.item;
+  if (!item) return [];
+
+  // Read: array; Compose: getAttachmentsAsync
+  if (Array.isArray(item.attachments)) return normalizeAttachments(item.attachments);
+  if (!item.getAttachmentsAsync) return [];
+  return await new Promise<AttachmentMeta[]>((resolve) => {
+    try {
+      item.getAttachmentsAsync((r: any) => {
+        resolve(r?.status === OfficeAny.AsyncResultStatus.Succeeded ? normalizeAttachments(r.value) : []);
+      });
+    } catch {
+      resolve([]);
+    }
+  });
+}
+
+function utf8ToBase64(s: string): string {
+  const bytes = new TextEncoder().encode(s);
+  let bin = "";
+  for (let i = 0; i < bytes.length; i++) bin += String.fromCharCode(bytes[i]);
+  return btoa(bin);
+}
+
+// Conteúdo em base64 (anexos "item" vêm como .eml/.ics em texto; anexos cloud não são suportados)
+export async function getAttachmentContentBase64(id: string): Promise<string> {
+  const OfficeAny = await ensureOfficeReady();
+  const item = OfficeAny?.context?.mailbox?.item;
+  if (!item?.getAttachmentContentAsync) throw new Error("Este Outlook não permite ler anexos (Mailbox 1.8).");
+
+  return await new Promise<string>((resolve, reject) => {
+    try {
+      item.getAttachmentContentAsync(id, (r: any) => {
+        if (r?.status !== OfficeAny.AsyncResultStatus.Succeeded) {
+          reject(new Error(r?.error?.message || "Falha ao ler anexo"));
+          return;
+        }
+        const format = String(r.value?.format || "").toLowerCase();
+        const content = String(r.value?.content || "");
+        if (format === "base64") resolve(content);
+        else if (format === "eml" || format === "icalendar") resolve(utf8ToBase64(content));
+        else reject(new Error("Anexo na cloud (link) — não é possível enviar o ficheiro."));
+      });
+    } catch (e: any) {
+      reject(e);
+    }
+  });
+}
+
+// -------- Ponte Dialog ↔ Taskpane --------
+// A janela do Dialog não tem acesso a mailbox.item; pede os dados ao taskpane
+// (messageParent) e recebe a resposta via messageChild (DialogApi 1.2).
+type BridgeRequest = { type: "icc:request"; id: string; kind: string; params?: any };
+type BridgeResponse = { type: "icc:response"; id: string; ok: boolean; data?: any; error?: string };
+
+async function handleBridgeRequest(kind: string, params: any): Promise<any> {
+  if (kind === "attachments.list") return await getAttachmentsMeta();
+  if (kind === "attachments.content") return await getAttachmentContentBase64(String(params?.id || ""));
+  if (kind === "body.html") return await getEmailBodyHtml();
+  if (kind === "item.eml") return await getItemEmlBase64();
+  if (kind === "message.open") return await openMessageByInternetMessageId(String(params?.internetMessageId || ""));
+  throw new Error(`Pedido desconhecido: ${kind}`);
+}
+
+function parseBridgeMessage<T>(raw: any, type: string): T | null {
+  if (typeof raw !== "string" || !raw.startsWith("{")) return null;
+  try {
+    const msg = JSON.parse(raw);
+    return msg?.type === type ? (msg as T) : null;
+  } catch {
+    return null;
+  }
+}
+
+async function answerDialog(dialog: any, req: BridgeRequest) {
+  let resp: BridgeResponse;
+  try {
+    resp = { type: "icc:response", id: req.id, ok: true, data: await handleBridgeRequest(req.kind, req.params) };
+  } catch (e: any) {
+    resp = { type: "icc:response", id: req.id, ok: false, error: e?.message ?? String(e) };
+  }
+  try {
+    dialog.messageChild(JSON.stringify(resp));
+  } catch (e) {
+    clientLog.error("[office] messageChild failed", e);
+  }
+}
+
+const bridgePending = new Map<string, { resolve: (v: any) => void; reject: (e: Error) => void; timer: number }>();
+let bridgeListening = false;
+
+/**
+ * Used inside the Dialog: asks the taskpane for item data (attachments, ...).
+ * If the current window can see the item (some hosts), answers locally.
+ */
+export async function askTaskpane<T = any>(kind: string, params?: any, timeoutMs = 30000): Promise<T> {
+  const OfficeAny = await ensureOfficeReady();
+  if (OfficeAny?.context?.mailbox?.item) return (await handleBridgeRequest(kind, params)) as T;
+  if (!OfficeAny?.context?.ui?.messageParent) throw new Error("Sem ligação ao painel do Outlook.");
+
+  if (!bridgeListening) {
+    bridgeListening = true;
+    OfficeAny.context.ui.addHandlerAsync(OfficeAny.EventType.DialogParentMessageReceived, (arg: any) => {
+      const resp = parseBridgeMessage<BridgeResponse>(arg?.message, "icc:response");
+      const p = resp ? bridgePending.get(resp.id) : undefined;
+      if (!resp || !p) return;
+      bridgePending.delete(resp.id);
+      window.clearTimeout(p.timer);
+      if (resp.ok) p.resolve(resp.data);
+      else p.reject(new Error(resp.error || "Pedido falhou"));
+    });
+  }
+
+  const id = `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+  return await new Promise<T>((resolve, reject) => {
+    const timer = window.setTimeout(() => {
+      bridgePending.delete(id);
+      reject(new Error("O painel do Outlook não respondeu (timeout)."));
+    }, timeoutMs);
+    bridgePending.set(id, { resolve, reject, timer });
+    const req: BridgeRequest = { type: "icc:request", id, kind, params };
+    OfficeAny.context.ui.messageParent(JSON.stringify(req));
+  });
+}
+
 // Token barato para detetar mudanca de email (para polling fallback ao ItemChanged)
 export async function getCurrentItemToken(): Promise<string> {
   try {
@@ -219,7 +539,10 @@ export async function openCockpitDialog(params: Record<string, string>) {
             } catch {}
             activeDialog = null;
             resolve();
+            return;
           }
+          const req = parseBridgeMessage<BridgeRequest>(arg?.message, "icc:request");
+          if (req) answerDialog(dialog, req);
         });
 
         dialog.addEventHandler(OfficeAny.EventType.DialogEventReceived, () => {
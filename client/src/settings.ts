@@ -8,6 +8,9 @@ export type LangOption = AppLocale | "auto";
 export type ReplyLength = "xs" | "s" | "m" | "l";
 export type SkinId = "classic" | "mailmaestro";
 
+// InvoiceStudio bucket: label shown in the Buckets tab → x-project slug
+export type InvoiceBucket = { name: string; project: string };
+
 export type CockpitSettingsV1 = {
   version: 1;
 
@@ -20,6 +23,9 @@ export type CockpitSettingsV1 = {
   // Used for summaries/quick replies detection; "auto" tries to infer from email
   readingLanguage: LangOption;
 
+  // Summary in the reading language + key quotes in the email's original language
+  summaryBilingual?: boolean;
+
   // Output language (reply/summary). "auto" defaults to readingLanguage
   replyLanguage: LangOption;
 
@@ -46,6 +52,9 @@ export type CockpitSettingsV1 = {
 
   // Freeform notes/instructions that the AI should always consider
   aiKnowledge: string[];
+
+  // InvoiceStudio buckets (Buckets tab)
+  buckets?: InvoiceBucket[];
 };
 
 const KEY_API_BASE = "apiBaseUrl";
@@ -60,6 +69,7 @@ const DEFAULT_SETTINGS: CockpitSettingsV1 = {
   skinId: "classic",
   appLanguage: "pt-PT",
   readingLanguage: "auto",
+  summaryBilingual: false,
   replyLanguage: "auto",
   tone: "neutro",
   length: "m",
@@ -93,8 +103,19 @@ const DEFAULT_SETTINGS: CockpitSettingsV1 = {
     "de-DE": 260,
   },
   aiKnowledge: [],
+  buckets: [{ name: "Geral", project: "default" }],
 };
 
+// "Nicolazzi" → "nicolazzi" (same rule as the server)
+export function bucketSlug(name: string): string {
+  return String(name || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
 function hasOffice(): boolean {
   return typeof (globalThis as any).Office !== "undefined";
 }
@@ -145,6 +166,7 @@ function mergeSettings(base: CockpitSettingsV1, incoming: Partial<CockpitSetting
     signatureImageUrl: { ...(base.signatureImageUrl || {}), ...((incoming as any).signatureImageUrl || {}) },
     signatureImageMaxWidth: { ...(base.signatureImageMaxWidth || {}), ...((incoming as any).signatureImageMaxWidth || {}) },
     aiKnowledge: Array.isArray(incoming.aiKnowledge) ? incoming.aiKnowledge : base.aiKnowledge,
+    buckets: Array.isArray(incoming.buckets) ? incoming.buckets : base.buckets,
   };
 
   // guard against wrong versions
@@ -1,4 +1,4 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useRef, useState } from "react";
 import {
   getSelectedMessageContext,
   getCurrentItemToken,
@@ -6,15 +6,28 @@ import {
   subscribeToItemChanges,
   type OutlookMessageContext,
 } from "../office";
-import { getLinks, getOdooMeta, type LinkEntry, type OdooMeta } from "../api";
+import {
+  deleteLink,
+  getLinks,
+  getOdooMeta,
+  getOutlookUserEmail,
+  recognizeContacts,
+  type LinkArchive,
+  type LinkEntry,
+  type OdooMeta,
+  type RecognizeResponse,
+} from "../api";
 import DebugPanel from "./DebugPanel";
+import { loadThreadSummary } from "../ai/threadSummary";
+import KnownContactsCard from "./KnownContactsCard";
+import BucketsPanel from "./BucketsPanel";
 import AiPanel from "../ai/AiPanel";
-import { SettingsPanel } from "./SettingsPanel";
+import { SettingsPanel, type Section as SettingsSection } from "./SettingsPanel";
 import { clientLog } from "../logger";
 import { getSettings } from "../settings";
 import { applySkin } from "./skins";
 
-type Tab = "odoo" | "ai" | "settings";
+type Tab = "odoo" | "ai" | "buckets" | "settings";
 
 
 function encodeRecipients(list: any[] | undefined) {
@@ -25,6 +38,12 @@ function encodeRecipients(list: any[] | undefined) {
     .join(";");
 }
 
+// O que ficou arquivado no chatter do Odoo para esta ligação
+function archiveLabel(a: LinkArchive) {
+  const base = a.mode === "full" ? "corpo completo" : a.mode === "ai" ? "resumo IA" : "só resumo";
+  return `${base}${a.eml ? " + .eml" : ""}${a.error ? " ⚠️" : ""}`;
+}
+
 export default function App() {
   useEffect(() => {
     (async () => {
@@ -38,9 +57,14 @@ export default function App() {
   }, []);
 
   const [tab, setTab] = useState<Tab>("odoo");
+  const [settingsSection, setSettingsSection] = useState<SettingsSection>("general");
   const [ctx, setCtx] = useState<OutlookMessageContext>({});
   const [meta, setMeta] = useState<OdooMeta | null>(null);
   const [links, setLinks] = useState<LinkEntry[]>([]);
+  const [unlinkId, setUnlinkId] = useState<number | null>(null);
+  const [known, setKnown] = useState<RecognizeResponse | null>(null);
+  const [knownLoading, setKnownLoading] = useState(false);
+  const [knownError, setKnownError] = useState<string | null>(null);
   const [msg, setMsg] = useState<string | null>(null);
   const [showThread, setShowThread] = useState(false);
 
@@ -51,85 +75,23 @@ export default function App() {
   const [summaryOpen, setSummaryOpen] = useState(false);
   const [summaryTxt, setSummaryTxt] = useState<string>("");
 
-  const SUMMARY_KEY = "icc.summary.v2";
-  const SUMMARY_KEEP_MS = 5 * 24 * 60 * 60 * 1000;
-
-  function normStr(s: any): string {
-    return String(s ?? "").trim();
-  }
-
-  function normEmail(s: any): string {
-    return normStr(s).toLowerCase();
-  }
-
-  function fnv1a(str: string): string {
-    let h = 2166136261;
-    for (let i = 0; i < str.length; i++) {
-      h ^= str.charCodeAt(i);
-      // 32-bit FNV-1a
-      h += (h << 1) + (h << 4) + (h << 7) + (h << 8) + (h << 24);
-    }
-    return (h >>> 0).toString(16);
-  }
-
-  // IMPORTANT: must match AiPanel's makeEmailKey() to keep per-email summary/workspace consistent
-  function makeEmailKey(c: any): string {
-    const cid = normStr(c?.conversationId);
-    const imid = normStr(c?.internetMessageId);
-    const itemId = normStr(c?.itemId || c?.id);
-
-    if (cid && imid) return `${cid}::${imid}`;
-    if (cid && itemId) return `${cid}::${itemId}`;
-
-    // Fallback: stable-ish hash from visible metadata
-    const subject = normStr(c?.subject).replace(/\s+/g, " ").toLowerCase();
-    const from = normEmail(c?.fromEmail || c?.from);
-    const to = normEmail(c?.toEmail || "");
-    return `nocid::h${fnv1a([subject, from, to].join("|"))}`;
-  }
-  function loadSummary(emailKey: string) {
-    try {
-      const raw = localStorage.getItem(SUMMARY_KEY);
-      const obj = raw ? (JSON.parse(raw) as Record<string, { ts: number; text: string }>) : {};
-      const now = Date.now();
-      // prune
-      const pruned: typeof obj = {};
-      for (const [k, v] of Object.entries(obj || {})) {
-        if (v && typeof v.ts === "number" && typeof v.text === "string" && now - v.ts <= SUMMARY_KEEP_MS) pruned[k] = v;
-      }
-      if (JSON.stringify(pruned) !== JSON.stringify(obj)) localStorage.setItem(SUMMARY_KEY, JSON.stringify(pruned));
-      setSummaryTxt(pruned[emailKey]?.text || "");
-    } catch {
-      setSummaryTxt("");
-    }
-  }
-
-  const emailKey = useMemo(() => makeEmailKey(ctx as any), [ctx.conversationId, (ctx as any).internetMessageId, (ctx as any).itemId, (ctx as any).id, (ctx as any).subject, (ctx as any).fromEmail, (ctx as any).from, (ctx as any).toEmail]);
-
+  // Conversation summary (AiPanel writes it per conversationId; see ai/threadSummary.ts)
   useEffect(() => {
     setSubjectOpen(false);
     setSummaryOpen(false);
-    if (emailKey) loadSummary(emailKey);
-    else setSummaryTxt("");
-  }, [emailKey]);
+    setSummaryTxt(loadThreadSummary(ctx.conversationId || "")?.text || "");
+  }, [ctx.conversationId, (ctx as any).internetMessageId]);
 
   useEffect(() => {
     function onSummaryUpdated(ev: any) {
-      const k = ev?.detail?.emailKey;
-      if (!k || k !== emailKey) return;
-
-      try {
-        const raw = localStorage.getItem(SUMMARY_KEY);
-        const obj = raw ? (JSON.parse(raw) as Record<string, { ts: number; text: string }>) : {};
-        setSummaryTxt(obj[k]?.text || "");
-      } catch {
-        // ignore
-      }
+      const cid = ev?.detail?.conversationId;
+      if (!cid || cid !== ctx.conversationId) return;
+      setSummaryTxt(loadThreadSummary(cid)?.text || "");
     }
 
     window.addEventListener("icc-summary-updated", onSummaryUpdated);
     return () => window.removeEventListener("icc-summary-updated", onSummaryUpdated);
-  }, [emailKey]);
+  }, [ctx.conversationId]);
 
   async function loadContextAndLinks(reason?: string) {
     const reqId = ++ctxLoadSeqRef.current;
@@ -147,6 +109,7 @@ export default function App() {
       }
 
       setMsg(null);
+      loadKnownContacts(c, reqId);
       try {
         const l = await getLinks(c.conversationId);
         if (reqId != ctxLoadSeqRef.current) return;
@@ -161,6 +124,28 @@ export default function App() {
     }
   }
 
+  // Contactos/leads do Odoo para os participantes (corre em paralelo com os links)
+  async function loadKnownContacts(c: OutlookMessageContext, reqId: number) {
+    setKnown(null);
+    setKnownError(null);
+    setKnownLoading(true);
+    try {
+      const r = await recognizeContacts({
+        fromEmail: c.fromEmail,
+        to: (c.toRecipients || []).map((x) => x.email),
+        cc: (c.ccRecipients || []).map((x) => x.email),
+        exclude: [getOutlookUserEmail()].filter(Boolean),
+      });
+      if (reqId != ctxLoadSeqRef.current) return;
+      setKnown(r);
+    } catch (e: any) {
+      if (reqId != ctxLoadSeqRef.current) return;
+      setKnownError(e?.message ?? String(e));
+    } finally {
+      if (reqId == ctxLoadSeqRef.current) setKnownLoading(false);
+    }
+  }
+
   useEffect(() => {
     loadContextAndLinks('init');
     // eslint-disable-next-line react-hooks/exhaustive-deps
@@ -245,6 +230,19 @@ export default function App() {
     }
   }
 
+  async function unlink(l: LinkEntry, postNote: boolean) {
+    if (l.id == null) return;
+    try {
+      const r = await deleteLink(l.id, { postNote });
+      setLinks(r.links);
+      setMsg(r.noteError ? `Ligação removida, mas a nota no Odoo falhou: ${r.noteError}` : null);
+    } catch (e: any) {
+      setMsg(e?.message ?? String(e));
+    } finally {
+      setUnlinkId(null);
+    }
+  }
+
   async function openDialog(targetMode: "new" | "add" | "edit", extra?: Record<string, string>) {
     if (!ctx.conversationId && targetMode !== "edit") {
       setMsg("Seleciona um email primeiro.");
@@ -287,16 +285,26 @@ export default function App() {
           <button style={tab === "ai" ? S.pillA : S.pill} onClick={() => setTab("ai")} title="Assistente IA">
             IA
           </button>
-          <button style={tab === "settings" ? S.pillA : S.pill} onClick={() => setTab("settings")} title="Definições">
+          <button style={tab === "buckets" ? S.pillA : S.pill} onClick={() => setTab("buckets")} title="Enviar anexos para o InvoiceStudio">
+            Buckets
+          </button>
+          <button
+            style={tab === "settings" ? S.pillA : S.pill}
+            onClick={() => {
+              setSettingsSection("general");
+              setTab("settings");
+            }}
+            title="Definições"
+          >
             Def.
           </button>
         </div>
       </header>
 
-      {/* Resumo (cache local 3 dias) */}
+      {/* Resumo da conversa (cache local por conversationId) */}
       <div style={S.slimCard}>
         <div style={S.slimTopRow}>
-          <span style={S.slimLabel}>Resumo</span>
+          <span style={S.slimLabel}>Resumo da conversa</span>
           <span style={S.flex1} />
           <button
             type="button"
@@ -409,6 +417,15 @@ export default function App() {
 
             {msg && <div style={S.msg}>{msg}</div>}
 
+            {ctx.conversationId ? (
+              <KnownContactsCard
+                data={known}
+                loading={knownLoading}
+                error={knownError}
+                odooBaseUrl={meta?.webBaseUrl || meta?.baseUrl}
+              />
+            ) : null}
+
             <div style={{ marginTop: 12 }}>
               <div style={S.sectionTitle}>Relacionado nesta conversa</div>
               {!links.length ? (
@@ -421,14 +438,53 @@ export default function App() {
                         <div style={S.linkTitle}>{l.title || l.model}</div>
                         <div style={S.linkMeta}>
                           {l.model} · {String(l.resId)}
+                          {l.archive ? (
+                            <span title={l.archive.error || ""}>
+                              {" "}· {archiveLabel(l.archive)}
+                            </span>
+                          ) : null}
                         </div>
+                        {(l.invoices || []).map((inv) => (
+                          <div key={inv.documentId} style={S.linkMeta} title={inv.fileName || ""}>
+                            🧾 Fatura enviada para o bucket {inv.bucketName || inv.bucket} → documento {inv.documentId}
+                          </div>
+                        ))}
                       </div>
-                      {l.url ? (
-                        <a style={S.linkA} href={l.url} target="_blank" rel="noreferrer" title="Abrir no Odoo">
-                          Abrir
-                        </a>
+                      {unlinkId != null && unlinkId === l.id ? (
+                        <div style={{ display: "flex", gap: 6, alignItems: "center", flexShrink: 0 }}>
+                          <span style={S.linkMeta}>Remover?</span>
+                          <button style={S.linkBtn} onClick={() => unlink(l, false)} title="Remove só a ligação">
+                            Sim
+                          </button>
+                          <button style={S.linkBtn} onClick={() => unlink(l, true)} title="Remove e deixa nota no chatter do Odoo">
+                            Sim + nota
+                          </button>
+                          <button style={S.linkBtn} onClick={() => setUnlinkId(null)}>
+                            Não
+                          </button>
+                        </div>
                       ) : (
-                        <span style={S.linkMeta}>—</span>
+                        <div style={{ display: "flex", gap: 8, alignItems: "center", flexShrink: 0 }}>
+                          {l.url ? (
+                            <a style={S.linkA} href={l.url} target="_blank" rel="noreferrer" title="Abrir no Odoo">
+                              Abrir
+                            </a>
+                          ) : (
+                            <span style={S.linkMeta}>—</span>
+                          )}
+                          <button
+                            style={S.linkBtn}
+                            onClick={() => openDialog("edit", { model: l.model, recordId: String(l.recordId ?? l.resId ?? "") })}
+                            title="Editar o registo e ver os emails ligados"
+                          >
+                            ✎
+                          </button>
+                          {l.id != null ? (
+                            <button style={S.linkBtn} onClick={() => setUnlinkId(l.id ?? null)} title="Desligar este email do registo">
+                              ✕
+                            </button>
+                          ) : null}
+                        </div>
                       )}
                     </div>
                   ))}
@@ -453,8 +509,19 @@ export default function App() {
 
       {tab === "ai" && <AiPanel ctx={ctx} />}
 
+      {tab === "buckets" && (
+        <BucketsPanel
+          ctx={ctx}
+          onLinked={() => refreshLinks()}
+          onLogin={() => {
+            setSettingsSection("invoicestudio");
+            setTab("settings");
+          }}
+        />
+      )}
+
       {tab === "settings" && (
-        <SettingsPanel />
+        <SettingsPanel initialSection={settingsSection} />
       )}
     </div>
   );
@@ -654,4 +721,14 @@ const S: Record<string, React.CSSProperties> = {
   linkTitle: { fontWeight: "600", fontSize: 12, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis" },
   linkMeta: { fontSize: 11, color: "rgba(11,45,107,0.65)" },
   linkA: { fontSize: 11, fontWeight: "600", color: "#0b2d6b", textDecoration: "none" },
+  linkBtn: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#0b2d6b",
+    background: "transparent",
+    border: "1px solid rgba(11,45,107,0.18)",
+    borderRadius: "8px",
+    padding: "2px 6px",
+    cursor: "pointer",
+  },
 };
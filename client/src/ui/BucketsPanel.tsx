@@ -0,0 +1,525 @@
+import React, { useEffect, useState } from "react";
+import {
+  extractToBucket,
+  invoiceStudioStatus,
+  isAuthError,
+  linkEmailToRecord,
+  matchVendor,
+  searchOdoo,
+  type ExtractResult,
+  type InvoiceStudioStatus,
+  type LinkAttachment,
+  type VendorMatch,
+} from "../api";
+import { getAttachmentContentBase64, getAttachmentsMeta, type AttachmentMeta, type OutlookMessageContext } from "../office";
+import { bucketSlug, getSettings, saveSettings, type InvoiceBucket } from "../settings";
+
+function formatBytes(n: number): string {
+  if (!n) return "—";
+  if (n < 1024 * 1024) return `${Math.max(1, Math.round(n / 1024))} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
+
+// InvoiceStudio extracts PDFs and images; other files stay unselected by default
+function isDocument(a: AttachmentMeta) {
+  return /^(application\/pdf|image\/)/i.test(a.contentType) || /\.(pdf|png|jpe?g|tiff?|webp)$/i.test(a.name);
+}
+
+function normalizedRows(n: any): Array<[string, string]> {
+  if (!n || typeof n !== "object") return [];
+  return Object.entries(n)
+    .filter(([, v]) => v != null && v !== "" && typeof v !== "object")
+    .map(([k, v]) => [k, String(v)]);
+}
+
+// Vendor VAT/name from InvoiceStudio's normalized data (flat or { supplier: { name, vat } })
+function pick(obj: any, keys: string[]): string {
+  for (const k of keys) {
+    const v = obj?.[k];
+    if (v != null && typeof v !== "object" && String(v).trim()) return String(v).trim();
+  }
+  return "";
+}
+
+function invoiceVendor(n: any): { vat: string; name: string } {
+  const nested = n?.supplier || n?.vendor || n?.issuer || n?.seller;
+  return {
+    vat:
+      pick(n, ["supplierVat", "supplier_vat", "vendorVat", "vendor_vat", "supplierNif", "issuerVat", "vatNumber", "nif", "vat"]) ||
+      pick(nested, ["vat", "vatNumber", "nif", "taxId"]),
+    name:
+      pick(n, ["supplierName", "supplier_name", "vendorName", "vendor_name", "issuerName", "supplier", "vendor"]) ||
+      pick(nested, ["name", "legalName"]),
+  };
+}
+
+/**
+ * Buckets — sends attachments of the open email to InvoiceStudio (x-project = bucket slug).
+ */
+export default function BucketsPanel({
+  ctx,
+  onLogin,
+  onLinked,
+}: {
+  ctx: OutlookMessageContext;
+  onLogin: () => void; // opens Definições → InvoiceStudio
+  onLinked?: () => void; // refreshes the conversation's links
+}) {
+  const [status, setStatus] = useState<InvoiceStudioStatus | null>(null);
+  const [buckets, setBuckets] = useState<InvoiceBucket[]>([]);
+  const [bucket, setBucket] = useState("");
+  const [editing, setEditing] = useState(false);
+  const [newName, setNewName] = useState("");
+  const [newProject, setNewProject] = useState("");
+
+  const [attachments, setAttachments] = useState<AttachmentMeta[]>([]);
+  const [picked, setPicked] = useState<Record<string, boolean>>({});
+  const [busy, setBusy] = useState(false);
+  const [results, setResults] = useState<ExtractResult[] | null>(null);
+  const [sentTo, setSentTo] = useState<InvoiceBucket | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [needsLogin, setNeedsLogin] = useState(false);
+
+  useEffect(() => {
+    invoiceStudioStatus().then(setStatus).catch(() => setStatus(null));
+    getSettings().then((s) => {
+      const list = s.buckets || [];
+      setBuckets(list);
+      setBucket((cur) => cur || list[0]?.project || "");
+    });
+  }, []);
+
+  useEffect(() => {
+    let alive = true;
+    setResults(null);
+    setError(null);
+    getAttachmentsMeta()
+      .then((list) => {
+        if (!alive) return;
+        const files = list.filter((a) => a.attachmentType === "file");
+        setAttachments(files);
+        setPicked(Object.fromEntries(files.filter((a) => !a.isInline && isDocument(a)).map((a) => [a.id, true])));
+      })
+      .catch(() => alive && setAttachments([]));
+    return () => {
+      alive = false;
+    };
+  }, [ctx.itemId, ctx.internetMessageId]);
+
+  async function persist(next: InvoiceBucket[]) {
+    setBuckets(next);
+    if (!next.some((b) => b.project === bucket)) setBucket(next[0]?.project || "");
+    await saveSettings({ buckets: next });
+  }
+
+  async function addBucket() {
+    const name = newName.trim();
+    const project = bucketSlug(newProject || newName);
+    if (!name || !project) return;
+    if (buckets.some((b) => b.project === project)) {
+      setError(`Já existe um bucket com o projeto "${project}".`);
+      return;
+    }
+    setError(null);
+    await persist([...buckets, { name, project }]);
+    setNewName("");
+    setNewProject("");
+  }
+
+  async function send() {
+    const selected = attachments.filter((a) => picked[a.id]);
+    if (!bucket || !selected.length) return;
+
+    setBusy(true);
+    setError(null);
+    setResults(null);
+    try {
+      const files: LinkAttachment[] = [];
+      for (const a of selected) {
+        try {
+          files.push({ name: a.name, contentType: a.contentType, contentBase64: await getAttachmentContentBase64(a.id) });
+        } catch (e: any) {
+          files.push({ name: a.name, contentType: a.contentType, error: String(e?.message || e) });
+        }
+      }
+      const r = await extractToBucket(bucket, files);
+      setSentTo(current || { name: bucket, project: r.project });
+      setResults(r.results || []);
+      setNeedsLogin(false);
+    } catch (e: any) {
+      if (isAuthError(e)) setNeedsLogin(true);
+      setError(String(e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const current = buckets.find((b) => b.project === bucket);
+  const count = attachments.filter((a) => picked[a.id]).length;
+  const loginRequired =
+    needsLogin ||
+    Boolean(status?.configured && (status.account?.expired || (!status.account && !status.hasToken && !status.authOptional)));
+
+  return (
+    <div style={S.card}>
+      <div style={S.headRow}>
+        <span style={S.sectionTitle}>Buckets InvoiceStudio</span>
+        <span style={{ flex: 1 }} />
+        <button type="button" style={S.linkBtn} onClick={() => setEditing((v) => !v)}>
+          {editing ? "Concluído" : "Editar"}
+        </button>
+      </div>
+
+      {status && !status.configured ? (
+        <div style={S.msg}>InvoiceStudio não configurado no servidor (INVOICESTUDIO_URL).</div>
+      ) : status?.account && !status.account.expired ? (
+        <div style={S.muted}>Sessão: {status.account.userName || status.account.login}</div>
+      ) : null}
+
+      {loginRequired ? (
+        <div style={S.msg}>
+          {status?.account?.expired ? "Sessão InvoiceStudio expirada." : "Sem sessão InvoiceStudio."}{" "}
+          <button type="button" style={S.linkBtn} onClick={onLogin}>
+            Iniciar sessão
+          </button>
+        </div>
+      ) : null}
+
+      <div style={S.chips}>
+        {buckets.map((b) => (
+          <span key={b.project} style={{ display: "inline-flex", alignItems: "center", gap: 2 }}>
+            <button
+              type="button"
+              style={b.project === bucket ? S.chipA : S.chip}
+              onClick={() => setBucket(b.project)}
+              title={`x-project: ${b.project}`}
+            >
+              {b.name}
+            </button>
+            {editing ? (
+              <button type="button" style={S.linkBtn} title="Remover bucket" onClick={() => persist(buckets.filter((x) => x !== b))}>
+                ✕
+              </button>
+            ) : null}
+          </span>
+        ))}
+        {!buckets.length ? <span style={S.muted}>Sem buckets. Usa "Editar" para criar.</span> : null}
+      </div>
+
+      {editing ? (
+        <div style={S.addRow}>
+          <input style={S.input} placeholder="Nome (ex.: Nicolazzi)" value={newName} onChange={(e) => setNewName(e.target.value)} />
+          <input
+            style={S.input}
+            placeholder={bucketSlug(newName) || "projeto"}
+            value={newProject}
+            onChange={(e) => setNewProject(e.target.value)}
+            title="x-project (vazio = derivado do nome)"
+          />
+          <button type="button" style={S.btn2} onClick={addBucket} disabled={!newName.trim()}>
+            +
+          </button>
+        </div>
+      ) : null}
+
+      <div style={{ ...S.sectionTitle, marginTop: 12 }}>Anexos</div>
+      {!attachments.length ? (
+        <div style={S.muted}>Este email não tem anexos.</div>
+      ) : (
+        attachments.map((a) => {
+          const res = results?.find((r) => r.fileName === a.name);
+          return (
+            <label key={a.id} style={S.row}>
+              <input
+                type="checkbox"
+                checked={Boolean(picked[a.id])}
+                onChange={(e) => setPicked((p) => ({ ...p, [a.id]: e.target.checked }))}
+              />
+              <span style={S.main} title={a.name}>
+                {a.name}
+                <span style={S.sub}>
+                  {" "}
+                  · {formatBytes(a.size)}
+                  {a.isInline ? " · inline" : ""}
+                </span>
+              </span>
+              {res ? <StatusBadge status={res.status} title={res.error} /> : null}
+            </label>
+          );
+        })
+      )}
+
+      <button
+        type="button"
+        style={{ ...S.btn, marginTop: 10, width: "100%", opacity: busy || !count || !bucket ? 0.6 : 1 }}
+        disabled={busy || !count || !bucket}
+        onClick={send}
+      >
+        {busy ? "A enviar…" : `Enviar ${count || ""} para ${current?.name || "bucket"}`}
+      </button>
+
+      {error && !needsLogin ? <div style={S.msg}>{error}</div> : null}
+
+      {results?.length ? (
+        <div style={{ marginTop: 12 }}>
+          <div style={S.sectionTitle}>Resultados</div>
+          {results.map((r, i) => (
+            <div key={`${r.fileName}-${i}`} style={S.result}>
+              <div style={S.headRow}>
+                <span style={S.main} title={r.documentId || ""}>
+                  {r.fileName}
+                </span>
+                <StatusBadge status={r.status} />
+              </div>
+              {r.error ? <div style={S.err}>{r.error}</div> : null}
+              {normalizedRows(r.normalized).map(([k, v]) => (
+                <div key={k} style={S.kv}>
+                  <span style={S.k}>{k}</span>
+                  <span style={S.v}>{v}</span>
+                </div>
+              ))}
+              {r.normalized && typeof r.normalized === "object" ? (
+                <details style={{ marginTop: 4 }}>
+                  <summary style={S.sub}>JSON</summary>
+                  <pre style={S.pre}>{JSON.stringify(r.normalized, null, 2)}</pre>
+                </details>
+              ) : null}
+              {r.status === "success" && r.documentId && sentTo && ctx.conversationId ? (
+                <InvoiceLink ctx={ctx} result={r} bucket={sentTo} onLinked={onLinked} />
+              ) : null}
+            </div>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+/**
+ * Links the email to the invoice's vendor (res.partner by VAT/name) or to a project,
+ * recording "bucket → document" on the link and in the chatter.
+ */
+function InvoiceLink({
+  ctx,
+  result,
+  bucket,
+  onLinked,
+}: {
+  ctx: OutlookMessageContext;
+  result: ExtractResult;
+  bucket: InvoiceBucket;
+  onLinked?: () => void;
+}) {
+  const [vendor, setVendor] = useState<VendorMatch | null>(null);
+  const [q, setQ] = useState("");
+  const [projects, setProjects] = useState<Array<{ id: number; name: string }>>([]);
+  const [busy, setBusy] = useState(false);
+  const [linked, setLinked] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const { vat, name } = invoiceVendor(result.normalized);
+    if (!vat && !name) return;
+    matchVendor(vat, name)
+      .then(setVendor)
+      .catch(() => setVendor(null));
+  }, [result.documentId]);
+
+  useEffect(() => {
+    const term = q.trim();
+    if (term.length < 2) {
+      setProjects([]);
+      return;
+    }
+    const t = setTimeout(() => {
+      searchOdoo("project.project", term, 8)
+        .then((rows) => setProjects(rows.map((r: any) => ({ id: r.id, name: r.display_name || r.name || `#${r.id}` }))))
+        .catch(() => setProjects([]));
+    }, 250);
+    return () => clearTimeout(t);
+  }, [q]);
+
+  async function link(model: string, recordId: number, recordName: string) {
+    setBusy(true);
+    setError(null);
+    try {
+      await linkEmailToRecord({
+        conversationId: ctx.conversationId || "",
+        model,
+        recordId,
+        recordName,
+        subject: ctx.subject || "",
+        fromEmail: ctx.fromEmail || "",
+        fromName: ctx.fromName || "",
+        internetMessageId: ctx.internetMessageId || "",
+        receivedAtIso: ctx.receivedDateTimeIso || "",
+        invoices: [
+          { bucket: bucket.project, bucketName: bucket.name, documentId: result.documentId || "", fileName: result.fileName },
+        ],
+      });
+      setLinked(recordName);
+      onLinked?.();
+    } catch (e: any) {
+      setError(String(e?.message || e));
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  if (linked) return <div style={S.ok}>🔗 Ligado a {linked}</div>;
+
+  return (
+    <div style={S.linkBox}>
+      <div style={S.sub}>Ligar ao Odoo</div>
+      {(vendor?.partners || []).map((p) => (
+        <button
+          key={p.id}
+          type="button"
+          style={S.target}
+          disabled={busy}
+          onClick={() => link("res.partner", p.id, p.name)}
+          title={vendor?.matchedBy === "vat" ? `NIF ${p.vat}` : "Encontrado pelo nome"}
+        >
+          🏢 {p.name}
+          <span style={S.sub}> · {vendor?.matchedBy === "vat" ? `NIF ${p.vat}` : "nome"}</span>
+        </button>
+      ))}
+      {vendor && !vendor.partners.length ? <div style={S.sub}>Fornecedor não encontrado no Odoo.</div> : null}
+      <input style={{ ...S.input, width: "100%", marginTop: 4 }} placeholder="Projeto…" value={q} onChange={(e) => setQ(e.target.value)} />
+      {projects.map((p) => (
+        <button key={p.id} type="button" style={S.target} disabled={busy} onClick={() => link("project.project", p.id, p.name)}>
+          📁 {p.name}
+        </button>
+      ))}
+      {error ? <div style={S.err}>{error}</div> : null}
+    </div>
+  );
+}
+
+function StatusBadge({ status, title }: { status: string; title?: string }) {
+  const ok = status === "success";
+  return (
+    <span style={{ ...S.badge, color: ok ? "#255d2b" : "#8a1f1f" }} title={title || status}>
+      {ok ? "✅" : "❌"} {status}
+    </span>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  card: {
+    width: "100%",
+    maxWidth: 330,
+    margin: "0 auto 10px auto",
+    borderRadius: "16px",
+    padding: 12,
+    border: "1px solid rgba(11,45,107,0.12)",
+    background: "rgba(255,255,255,0.85)",
+    boxShadow: "0 1px 10px rgba(11,45,107,0.06)",
+    boxSizing: "border-box",
+  },
+  headRow: { display: "flex", alignItems: "center", gap: 6 },
+  sectionTitle: { fontWeight: "600", fontSize: 12 },
+  muted: { fontSize: 12, color: "rgba(11,45,107,0.65)", marginTop: 4 },
+  chips: { display: "flex", flexWrap: "wrap", gap: 6, marginTop: 8 },
+  chip: {
+    borderRadius: "999px",
+    padding: "4px 10px",
+    border: "1px solid rgba(11,45,107,0.18)",
+    background: "rgba(255,255,255,0.70)",
+    color: "#0b2d6b",
+    fontSize: 12,
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+  chipA: {
+    borderRadius: "999px",
+    padding: "4px 10px",
+    border: "1px solid #0b2d6b",
+    background: "#0b2d6b",
+    color: "#fff",
+    fontSize: 12,
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+  addRow: { display: "flex", gap: 6, marginTop: 8 },
+  input: {
+    flex: 1,
+    minWidth: 0,
+    borderRadius: "10px",
+    padding: "6px 8px",
+    border: "1px solid rgba(11,45,107,0.18)",
+    fontSize: 12,
+  },
+  row: { display: "flex", alignItems: "center", gap: 6, padding: "4px 0", fontSize: 12, cursor: "pointer" },
+  main: { flex: 1, minWidth: 0, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", fontWeight: "600" },
+  sub: { fontWeight: "400", fontSize: 11, color: "rgba(11,45,107,0.65)" },
+  badge: { flexShrink: 0, fontSize: 11, fontWeight: "600" },
+  result: {
+    marginTop: 6,
+    padding: 8,
+    borderRadius: "12px",
+    border: "1px solid rgba(11,45,107,0.12)",
+    background: "rgba(255,255,255,0.70)",
+    fontSize: 12,
+  },
+  kv: { display: "grid", gridTemplateColumns: "90px 1fr", gap: 6, fontSize: 11, marginTop: 2 },
+  k: { color: "rgba(11,45,107,0.75)", overflow: "hidden", textOverflow: "ellipsis" },
+  v: { color: "#0b2d6b", fontWeight: "600", overflowWrap: "anywhere" },
+  pre: { fontSize: 10, whiteSpace: "pre-wrap", overflowWrap: "anywhere", margin: "4px 0 0 0", maxHeight: 200, overflow: "auto" },
+  err: { fontSize: 11, color: "#8a1f1f", marginTop: 2 },
+  ok: { fontSize: 11, color: "#255d2b", fontWeight: "600", marginTop: 6 },
+  linkBox: { marginTop: 6, paddingTop: 6, borderTop: "1px dashed rgba(11,45,107,0.18)" },
+  target: {
+    display: "block",
+    width: "100%",
+    textAlign: "left",
+    marginTop: 4,
+    padding: "4px 8px",
+    borderRadius: "10px",
+    border: "1px solid rgba(11,45,107,0.14)",
+    background: "rgba(255,255,255,0.85)",
+    color: "#0b2d6b",
+    fontSize: 12,
+    fontWeight: "600",
+    cursor: "pointer",
+    whiteSpace: "nowrap",
+    overflow: "hidden",
+    textOverflow: "ellipsis",
+  },
+  btn: {
+    borderRadius: "12px",
+    padding: "8px 10px",
+    border: "1px solid rgba(11,45,107,0.20)",
+    background: "#0b2d6b",
+    color: "#fff",
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+  btn2: {
+    borderRadius: "12px",
+    padding: "6px 10px",
+    border: "1px solid rgba(11,45,107,0.20)",
+    background: "rgba(11,45,107,0.10)",
+    color: "#0b2d6b",
+    fontWeight: "600",
+    cursor: "pointer",
+  },
+  linkBtn: {
+    fontSize: 11,
+    fontWeight: "600",
+    color: "#0b2d6b",
+    background: "transparent",
+    border: "none",
+    padding: 0,
+    cursor: "pointer",
+  },
+  msg: {
+    marginTop: 10,
+    borderRadius: "12px",
+    padding: 10,
+    border: "1px solid rgba(245, 158, 11, 0.45)",
+    background: "rgba(245, 158, 11, 0.10)",
+    color: "#7a4a00",
+    fontSize: 12,
+  },
+};
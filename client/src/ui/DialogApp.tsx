@@ -1,15 +1,30 @@
-import React, { useEffect, useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useState } from "react";
 import {
   createOdoo,
+  getAttachmentPolicy,
+  getLinksByRecord,
   linkEmailToRecord,
+  matchPartners,
   odooPing,
   readOdoo,
   searchOdoo,
   searchOdooDomain,
   writeOdoo,
+  type ArchiveMode,
+  type AttachmentPolicy,
+  type LinkAttachment,
+  type LinkAttachmentResult,
+  type LinkEntry,
+  type LinkResponse,
+  type PartnerMatch,
 } from "../api";
+import { askTaskpane, type AttachmentMeta } from "../office";
+import type { AiLead } from "../ai/aiClient";
+import { confidenceColor } from "../ai/LeadQualifier";
+import { clearLeadPrefill, loadLeadPrefill } from "../ai/leadPrefill";
 
 import DebugPanel from "./DebugPanel";
+import TypeaheadPicker from "./TypeaheadPicker";
 import { getSettings } from "../settings";
 import { applySkin } from "./skins";
 
@@ -33,6 +48,14 @@ function qp() {
   return new URLSearchParams(window.location.search);
 }
 
+const ENTITIES: Entity[] = ["project.task", "project.project", "crm.lead", "res.partner"];
+
+// ?entity=… preselects the form (e.g. "Criar lead" from the AI panel)
+function getEntity(): Entity {
+  const e = qp().get("entity") || "";
+  return (ENTITIES as string[]).includes(e) ? (e as Entity) : "project.task";
+}
+
 function getMode(): Mode {
   const m = (qp().get("mode") || "new").toLowerCase();
   return m === "add" || m === "edit" ? (m as Mode) : "new";
@@ -96,147 +119,37 @@ async function copyToClipboard(text: string) {
   }
 }
 
-type TypeaheadPickerProps = {
-  label: string;
-  placeholder: string;
-  model: string;
-  fields?: string[];
-  limit?: number;
-  pickedId: number | null;
-  pickedName: string;
-  onPick: (it: any) => void;
-  extraDomain?: (q: string) => any[];
-};
-
-function TypeaheadPicker({
-  label,
-  placeholder,
-  model,
-  fields = ["id", "name", "display_name"],
-  limit = 15,
-  pickedId,
-  pickedName,
-  onPick,
-  extraDomain,
-}: TypeaheadPickerProps) {
-  const [q, setQ] = useState("");
-  const [items, setItems] = useState<any[]>([]);
-  const [open, setOpen] = useState(false);
-  const [busy, setBusy] = useState(false);
-  const debounceRef = useRef<number | null>(null);
-
-  const effectiveText = pickedId ? pickedName : q;
-
-  async function load(query: string) {
-    setBusy(true);
-    try {
-      if (extraDomain) {
-        const domain = extraDomain(query);
-        const rows = await searchOdooDomain(model, domain, fields, limit);
-        setItems(Array.isArray(rows) ? rows : []);
-      } else {
-        const rows = await searchOdoo(model, query, limit);
-        setItems(Array.isArray(rows) ? rows : []);
-      }
-    } finally {
-      setBusy(false);
-    }
-  }
-
-  function scheduleLoad(query: string) {
-    if (debounceRef.current) window.clearTimeout(debounceRef.current);
-    debounceRef.current = window.setTimeout(() => load(query), 250);
-  }
-
-  useEffect(() => {
-    if (!open) return;
-    // quando abre, carrega logo (mesmo vazio) para mostrar 10–15
-    scheduleLoad(pickedId ? "" : q);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [open]);
-
-  useEffect(() => {
-    if (!open) return;
-    if (pickedId) return; // quando já está selecionado, não pesquisa
-    scheduleLoad(q);
-    // eslint-disable-next-line react-hooks/exhaustive-deps
-  }, [q]);
-
-  return (
-    <div style={{ marginTop: 10, position: "relative" }}>
-      <label style={S.labBlock}>{label}</label>
-
-      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
-        <input
-          style={{ ...S.input, flex: 1, minWidth: 0 }}
-          value={effectiveText}
-          onFocus={() => setOpen(true)}
-          onBlur={() => setTimeout(() => setOpen(false), 150)}
-          onChange={(e) => {
-            const v = e.target.value;
-            if (pickedId) {
-              // se começar a escrever, limpa seleção
-              setQ(v);
-              onPick({ id: null, name: "" });
-            } else {
-              setQ(v);
-            }
-            setOpen(true);
-          }}
-          placeholder={placeholder}
-        />
+type LinkEmailFn = (model: string, recordId: number, recordName: string) => Promise<LinkResponse>;
 
-        {pickedId ? (
-          <button
-            style={S.btn2}
-            onClick={() => {
-              onPick({ id: null, name: "" });
-              setQ("");
-              setOpen(true);
-              load("");
-            }}
-            title="Limpar seleção"
-          >
-            Limpar
-          </button>
-        ) : (
-          <button style={S.btn2} onClick={() => load(q)} disabled={busy} title="Forçar pesquisa">
-            {busy ? "…" : "Pesquisar"}
-          </button>
-        )}
-      </div>
+function linkFailures(r: LinkResponse | null | undefined): LinkAttachmentResult[] {
+  return (r?.attachments || []).filter((a) => !a.ok);
+}
 
-      {pickedId ? (
-        <div style={{ marginTop: 6, fontSize: 12, color: "#666" }}>
-          Selecionado: {pickedName} (#{pickedId})
-        </div>
-      ) : null}
+function linkStatus(base: string, r: LinkResponse | null | undefined): string {
+  const all = r?.attachments || [];
+  const failed = linkFailures(r).length;
+  const sent = all.length - failed;
+  const parts = [base];
+  if (sent) parts.push(`${sent} anexo(s) enviado(s)`);
+  if (failed) parts.push(`${failed} anexo(s) falharam (ver lista)`);
+  if (r?.archive?.error) parts.push(r.archive.error);
+  return parts.join(" · ");
+}
 
-      {open && (items?.length || busy) ? (
-        <div style={S.pickList}>
-          {busy && !items.length ? (
-            <div style={{ padding: 10, color: "#777", fontSize: 12 }}>A procurar…</div>
-          ) : null}
+function formatBytes(n: number): string {
+  if (!n) return "—";
+  if (n < 1024 * 1024) return `${Math.max(1, Math.round(n / 1024))} KB`;
+  return `${(n / 1024 / 1024).toFixed(1)} MB`;
+}
 
-          {items.map((it: any) => (
-            <button
-              key={it.id}
-              style={S.pickItem}
-              onMouseDown={(e) => e.preventDefault()}
-              onClick={() => {
-                onPick(it);
-                setOpen(false);
-                setQ("");
-              }}
-            >
-              <b>{it.display_name || it.name || `#${it.id}`}</b>
-              <span style={{ color: "#777" }}>#{it.id}</span>
-            </button>
-          ))}
-        </div>
-      ) : null}
-    </div>
-  );
+// Motivo para o servidor recusar o anexo (desativa a checkbox antes de enviar)
+function attachmentBlockedReason(a: AttachmentMeta, policy: AttachmentPolicy | null): string {
+  if (a.attachmentType === "cloud") return "anexo na cloud";
+  if (!policy) return "";
+  const ext = (/\.([^.]+)$/.exec(a.name)?.[1] || "").toLowerCase();
+  if (ext && policy.blockedExtensions.includes(ext)) return `tipo .${ext} bloqueado`;
+  if (a.size > policy.maxBytes) return `> ${formatBytes(policy.maxBytes)}`;
+  return "";
 }
 
 export default function DialogApp() {
@@ -246,9 +159,20 @@ export default function DialogApp() {
 
   const [ctx, setCtx] = useState<Ctx>(() => getCtxFromQuery());
   const [showThread, setShowThread] = useState(false);
-  const [entity, setEntity] = useState<Entity>("project.task");
+  const [entity, setEntity] = useState<Entity>(getEntity);
   const [status, setStatus] = useState<string | null>(null);
 
+  // Anexos do email (lidos pelo taskpane via ponte) → escolhidos aqui, enviados no link
+  const [attachments, setAttachments] = useState<AttachmentMeta[]>([]);
+  const [attPolicy, setAttPolicy] = useState<AttachmentPolicy | null>(null);
+  const [attPicked, setAttPicked] = useState<Record<string, boolean>>({});
+  const [attResults, setAttResults] = useState<LinkAttachmentResult[] | null>(null);
+  const [attError, setAttError] = useState<string | null>(null);
+
+  // O que arquivar do corpo do email no chatter (escolha por ligação)
+  const [archiveMode, setArchiveMode] = useState<ArchiveMode>("summary");
+  const [includeEml, setIncludeEml] = useState(false);
+
   useEffect(() => {
     (async () => {
       try {
@@ -303,6 +227,68 @@ export default function DialogApp() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []);
 
+  useEffect(() => {
+    if (mode === "edit") return;
+    (async () => {
+      try {
+        setAttPolicy(await getAttachmentPolicy());
+      } catch {
+        // servidor antigo: sem pré-validação
+      }
+      try {
+        const list = await askTaskpane<AttachmentMeta[]>("attachments.list");
+        setAttachments(Array.isArray(list) ? list : []);
+      } catch (e: any) {
+        setAttError(e?.message ?? String(e));
+      }
+    })();
+  }, [mode]);
+
+  async function linkEmail(model: string, recordId: number, recordName: string): Promise<LinkResponse> {
+    const files: LinkAttachment[] = [];
+    for (const a of attachments.filter((x) => attPicked[x.id])) {
+      try {
+        const contentBase64 = await askTaskpane<string>("attachments.content", { id: a.id }, 60000);
+        files.push({ name: a.name, contentType: a.contentType, contentBase64 });
+      } catch (e: any) {
+        files.push({ name: a.name, contentType: a.contentType, error: e?.message ?? String(e) });
+      }
+    }
+
+    // Corpo HTML só é lido quando vai ser usado (corpo completo, resumo IA ou .eml reconstruído)
+    const bodyHtml = archiveMode !== "summary" || includeEml ? await askTaskpane<string>("body.html") : undefined;
+    let emlBase64: string | undefined;
+    if (includeEml) {
+      try {
+        emlBase64 = await askTaskpane<string>("item.eml", undefined, 60000);
+      } catch {
+        // Outlook sem getAsFileAsync: o servidor gera o .eml a partir do HTML
+      }
+    }
+
+    const r = await linkEmailToRecord({
+      conversationId: ctx.conversationId,
+      model,
+      recordId,
+      recordName,
+      internetMessageId: ctx.internetMessageId,
+      subject: ctx.subject,
+      fromEmail: ctx.fromEmail,
+      fromName: ctx.fromName,
+      receivedAtIso: ctx.receivedAtIso,
+      emailWebLink: ctx.emailWebLink,
+      attachments: files.length ? files : undefined,
+      archiveMode,
+      bodyHtml,
+      includeEml,
+      emlBase64,
+      to: (ctx.toR || []).map((x) => x.email),
+      cc: (ctx.ccR || []).map((x) => x.email),
+    });
+    setAttResults(r?.attachments?.length ? r.attachments : null);
+    return r;
+  }
+
   useEffect(() => {
     if (mode === "edit" && editModel) {
       if (editModel === "project.task") setEntity("project.task");
@@ -372,19 +358,38 @@ export default function DialogApp() {
         </div>
 
         {mode === "add" ? (
-          <AddExistingPanel entity={entity} ctx={ctx} onStatus={setStatus} />
+          <AddExistingPanel entity={entity} linkEmail={linkEmail} onStatus={setStatus} />
         ) : entity === "project.task" ? (
-          <TaskForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} onStatus={setStatus} />
+          <TaskForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} linkEmail={linkEmail} onStatus={setStatus} />
         ) : entity === "project.project" ? (
-          <ProjectForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} onStatus={setStatus} />
+          <ProjectForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} linkEmail={linkEmail} onStatus={setStatus} />
         ) : entity === "crm.lead" ? (
-          <LeadForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} onStatus={setStatus} />
+          <LeadForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} linkEmail={linkEmail} onStatus={setStatus} />
         ) : entity === "res.partner" ? (
-          <ContactHubForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} onStatus={setStatus} />
+          <ContactHubForm mode={mode} ctx={ctx} editId={mode === "edit" ? editRecordId : 0} linkEmail={linkEmail} onStatus={setStatus} />
         ) : (
-          <GenericMiniForm mode={mode} ctx={ctx} model={entity} editId={mode === "edit" ? editRecordId : 0} onStatus={setStatus} />
+          <GenericMiniForm mode={mode} ctx={ctx} model={entity} editId={mode === "edit" ? editRecordId : 0} linkEmail={linkEmail} onStatus={setStatus} />
         )}
 
+        {mode !== "edit" ? (
+          <ArchivePicker mode={archiveMode} onMode={setArchiveMode} includeEml={includeEml} onIncludeEml={setIncludeEml} />
+        ) : null}
+
+        {mode !== "edit" ? (
+          <AttachmentPicker
+            items={attachments}
+            policy={attPolicy}
+            picked={attPicked}
+            onToggle={(id, on) => setAttPicked((prev) => ({ ...prev, [id]: on }))}
+            results={attResults}
+            error={attError}
+          />
+        ) : null}
+
+        {mode === "edit" && editModel && editRecordId ? (
+          <LinkedEmailsPanel model={editModel} recordId={editRecordId} onStatus={setStatus} />
+        ) : null}
+
         {status && <div style={S.alert}>{status}</div>}
       </div>
 
@@ -397,28 +402,194 @@ export default function DialogApp() {
   );
 }
 
-function AddExistingPanel({ entity, ctx, onStatus }: any) {
+function formatDateTime(iso?: string): string {
+  if (!iso) return "";
+  const d = new Date(iso);
+  return Number.isNaN(d.getTime()) ? iso : d.toLocaleString();
+}
+
+// Modo editar: todas as conversas do Outlook ligadas a este registo
+function LinkedEmailsPanel({ model, recordId, onStatus }: { model: string; recordId: number; onStatus: (s: string) => void }) {
+  const [links, setLinks] = useState<LinkEntry[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    (async () => {
+      try {
+        setLinks(await getLinksByRecord(model, recordId));
+      } catch (e: any) {
+        setError(e?.message ?? String(e));
+      }
+    })();
+  }, [model, recordId]);
+
+  async function open(l: LinkEntry) {
+    try {
+      await askTaskpane("message.open", { internetMessageId: l.internetMessageId });
+    } catch (e: any) {
+      // Sem acesso via EWS: deixa o id pronto a colar na pesquisa do Outlook
+      if (l.internetMessageId) await copyToClipboard(l.internetMessageId);
+      onStatus(`${e?.message ?? String(e)}${l.internetMessageId ? " · InternetMessageId copiado" : ""}`);
+    }
+  }
+
+  return (
+    <div style={{ marginTop: 16, borderTop: "1px solid #e9eefc", paddingTop: 12 }}>
+      <div style={{ fontWeight: 900, marginBottom: 6 }}>Emails ligados a este registo</div>
+      {error ? (
+        <div style={{ color: "#557", fontSize: 12 }}>{error}</div>
+      ) : links == null ? (
+        <div style={{ color: "#557", fontSize: 12 }}>A carregar…</div>
+      ) : !links.length ? (
+        <div style={{ color: "#557", fontSize: 12 }}>Nenhum email ligado.</div>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          {links.map((l) => (
+            <div key={l.id} style={S.partRow}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={l.subject || ""}>
+                  {l.subject || "(sem assunto)"}
+                </div>
+                <div style={{ fontSize: 12, color: "#557" }}>
+                  {l.fromName || l.fromEmail || "—"} · {formatDateTime(l.receivedAtIso || l.linkedAt)}
+                </div>
+              </div>
+              <button
+                style={S.btn3}
+                disabled={!l.internetMessageId}
+                title={l.internetMessageId ? "Abrir este email no Outlook" : "Ligação sem internetMessageId"}
+                onClick={() => open(l)}
+              >
+                Abrir no Outlook
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+const ARCHIVE_OPTIONS: { value: ArchiveMode; label: string; hint: string }[] = [
+  { value: "summary", label: "Só resumo", hint: "Assunto, remetente, data e ids" },
+  { value: "full", label: "Corpo completo", hint: "HTML do email (limpo) no chatter" },
+  { value: "ai", label: "Resumo IA", hint: "Resumo gerado pela IA no chatter" },
+];
+
+function ArchivePicker({
+  mode,
+  onMode,
+  includeEml,
+  onIncludeEml,
+}: {
+  mode: ArchiveMode;
+  onMode: (m: ArchiveMode) => void;
+  includeEml: boolean;
+  onIncludeEml: (on: boolean) => void;
+}) {
+  return (
+    <div style={{ marginTop: 16, borderTop: "1px solid #e9eefc", paddingTop: 12 }}>
+      <div style={{ fontWeight: 900, marginBottom: 6 }} title="O que fica guardado no chatter do registo no Odoo">
+        Arquivar no Odoo
+      </div>
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap" }}>
+        {ARCHIVE_OPTIONS.map((o) => (
+          <button
+            key={o.value}
+            style={mode === o.value ? S.btn : S.btn2}
+            title={o.hint}
+            onClick={() => onMode(o.value)}
+          >
+            {o.label}
+          </button>
+        ))}
+      </div>
+      <label style={{ display: "flex", gap: 8, alignItems: "center", marginTop: 8, fontSize: 13 }}>
+        <input type="checkbox" checked={includeEml} onChange={(e) => onIncludeEml(e.target.checked)} />
+        Anexar também o email original (.eml)
+      </label>
+    </div>
+  );
+}
+
+function AttachmentPicker({
+  items,
+  policy,
+  picked,
+  onToggle,
+  results,
+  error,
+}: {
+  items: AttachmentMeta[];
+  policy: AttachmentPolicy | null;
+  picked: Record<string, boolean>;
+  onToggle: (id: string, on: boolean) => void;
+  results: LinkAttachmentResult[] | null;
+  error: string | null;
+}) {
+  return (
+    <div style={{ marginTop: 16, borderTop: "1px solid #e9eefc", paddingTop: 12 }}>
+      <div style={{ fontWeight: 900, marginBottom: 6 }} title="Os anexos escolhidos são enviados para o registo no Odoo (chatter)">
+        Anexos a enviar para o Odoo
+      </div>
+
+      {error ? (
+        <div style={{ color: "#557", fontSize: 12 }}>Anexos indisponíveis: {error}</div>
+      ) : !items.length ? (
+        <div style={{ color: "#557", fontSize: 12 }}>Este email não tem anexos.</div>
+      ) : (
+        <div style={{ display: "flex", flexDirection: "column", gap: 6 }}>
+          {items.map((a) => {
+            const blocked = attachmentBlockedReason(a, policy);
+            const res = results?.find((r) => r.name === a.name);
+            return (
+              <label key={a.id} style={{ ...S.partRow, opacity: blocked ? 0.6 : 1, cursor: blocked ? "not-allowed" : "pointer" }}>
+                <input
+                  type="checkbox"
+                  checked={Boolean(picked[a.id]) && !blocked}
+                  disabled={Boolean(blocked)}
+                  onChange={(e) => onToggle(a.id, e.target.checked)}
+                />
+                <div style={{ flex: 1, minWidth: 0 }}>
+                  <div style={{ fontWeight: 800, overflow: "hidden", textOverflow: "ellipsis", whiteSpace: "nowrap" }} title={a.name}>
+                    {a.name}
+                  </div>
+                  <div style={{ fontSize: 12, color: "#557" }}>
+                    {formatBytes(a.size)}
+                    {a.isInline ? " · inline" : ""}
+                    {blocked ? ` · ${blocked}` : ""}
+                  </div>
+                </div>
+                {res ? (
+                  <span style={{ fontSize: 12, color: res.ok ? "#255d2b" : "#8a1f1f" }} title={res.error || ""}>
+                    {res.ok ? "✅ enviado" : `❌ ${res.error || "falhou"}`}
+                  </span>
+                ) : null}
+              </label>
+            );
+          })}
+        </div>
+      )}
+
+      {policy ? (
+        <div style={{ marginTop: 6, fontSize: 11, color: "#777" }}>
+          Máx. {formatBytes(policy.maxBytes)} por ficheiro · {formatBytes(policy.maxTotalBytes)} no total · {policy.maxFiles} ficheiros
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+function AddExistingPanel({ entity, linkEmail, onStatus }: { entity: string; linkEmail: LinkEmailFn; onStatus: (s: string) => void }) {
   const [pickedId, setPickedId] = useState<number | null>(null);
   const [pickedName, setPickedName] = useState("");
 
   async function link() {
     if (!pickedId) return onStatus("Escolhe um registo para ligar.");
     try {
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: entity,
-        recordId: pickedId,
-        recordName: pickedName,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      const r = await linkEmail(entity, pickedId, pickedName);
+      onStatus(linkStatus("Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -447,7 +618,7 @@ function AddExistingPanel({ entity, ctx, onStatus }: any) {
   );
 }
 
-function TaskForm({ mode, ctx, editId, onStatus }: any) {
+function TaskForm({ mode, ctx, editId, linkEmail, onStatus }: any) {
   const [name, setName] = useState(ctx.subject || "");
   const [description, setDescription] = useState("");
 
@@ -515,7 +686,7 @@ function TaskForm({ mode, ctx, editId, onStatus }: any) {
         description: description || "",
       };
       if (projectId) values.project_id = projectId;
-      if (assigneeId) values.user_ids = [[6, 0, [assigneeId]]];
+      if (assigneeId) values.user_ids = [assigneeId];
       if (deadline) values.date_deadline = deadline;
       if (stageId) values.stage_id = stageId;
       if (isSub && parentId) values.parent_id = parentId;
@@ -531,21 +702,9 @@ function TaskForm({ mode, ctx, editId, onStatus }: any) {
 
       id = await createOdoo("project.task", values);
 
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: "project.task",
-        recordId: id,
-        recordName: name || "",
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Criado + Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      const r = await linkEmail("project.task", id, name || "");
+      onStatus(linkStatus("Criado + Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -650,7 +809,7 @@ function TaskForm({ mode, ctx, editId, onStatus }: any) {
 }
 
 
-function ProjectForm({ mode, ctx, editId, onStatus }: any) {
+function ProjectForm({ mode, ctx, editId, linkEmail, onStatus }: any) {
   const [name, setName] = useState(ctx.subject || "");
   const [partnerId, setPartnerId] = useState<number | null>(null);
   const [partnerName, setPartnerName] = useState("");
@@ -718,21 +877,9 @@ function ProjectForm({ mode, ctx, editId, onStatus }: any) {
         id = await createOdoo("project.project", v2);
       }
 
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: "project.project",
-        recordId: id,
-        recordName: values.name,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Criado + Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      const r = await linkEmail("project.project", id, values.name);
+      onStatus(linkStatus("Criado + Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -789,7 +936,17 @@ function ProjectForm({ mode, ctx, editId, onStatus }: any) {
   );
 }
 
-function LeadForm({ mode, ctx, editId, onStatus }: any) {
+// Confidence of an AI-prefilled field (LeadForm); nothing when the field wasn't prefilled
+function ConfidenceBadge({ c }: { c?: number }) {
+  if (c == null) return null;
+  return (
+    <span style={{ ...S.confBadge, color: confidenceColor(c) }} title="Confiança da IA neste valor">
+      IA {Math.round(c * 100)}%
+    </span>
+  );
+}
+
+function LeadForm({ mode, ctx, editId, linkEmail, onStatus }: any) {
   const [name, setName] = useState(ctx.subject || "");
   const [contactName, setContactName] = useState(ctx.fromName || "");
   const [email, setEmail] = useState(ctx.fromEmail || "");
@@ -800,6 +957,52 @@ function LeadForm({ mode, ctx, editId, onStatus }: any) {
   const [stageName, setStageName] = useState("");
   const [description, setDescription] = useState("");
 
+  // AI qualification handed over by the taskpane (?prefill=lead): must be reviewed before saving
+  const [prefill] = useState<AiLead | null>(() =>
+    mode === "new" && qp().get("prefill") === "lead" ? loadLeadPrefill(ctx.conversationId) : null
+  );
+  const [conf, setConf] = useState<Record<string, number>>({});
+  const [reviewed, setReviewed] = useState(false);
+
+  useEffect(() => {
+    if (!prefill) return;
+    const c: Record<string, number> = {};
+    const company = prefill.company.value;
+    const title = [company || prefill.contactName.value, prefill.productInterest.value].filter(Boolean).join(" — ");
+    if (title) {
+      setName(title);
+      c.name = Math.min(...[company ? prefill.company : prefill.contactName, prefill.productInterest].filter((f) => f.value).map((f) => f.confidence));
+    }
+    if (prefill.contactName.value) { setContactName(prefill.contactName.value); c.contactName = prefill.contactName.confidence; }
+    if (prefill.email.value) { setEmail(prefill.email.value); c.email = prefill.email.confidence; }
+    if (prefill.phone.value) { setPhone(prefill.phone.value); c.phone = prefill.phone.confidence; }
+
+    const lines = ([
+      ["Interesse", prefill.productInterest],
+      ["Quantidades", prefill.quantities],
+      ["Orçamento", prefill.budget],
+      ["Urgência", prefill.urgency],
+    ] as const).filter(([, f]) => f.value);
+    if (lines.length) {
+      setDescription(lines.map(([l, f]) => `${l}: ${f.value}`).join("\n"));
+      c.description = Math.min(...lines.map(([, f]) => f.confidence));
+    }
+    setConf(c);
+
+    if (!company) return;
+    (async () => {
+      try {
+        const r = (await searchOdoo("res.partner", company, 1))?.[0];
+        if (!r?.id) return;
+        setPartnerId(r.id);
+        setPartnerName(r.display_name || r.name || `#${r.id}`);
+        setConf((prev) => ({ ...prev, partner: prefill.company.confidence }));
+      } catch {
+        // the user picks the partner by hand
+      }
+    })();
+  }, [prefill]);
+
   useEffect(() => {
     if (mode !== "edit" || !editId) return;
     (async () => {
@@ -860,21 +1063,10 @@ function LeadForm({ mode, ctx, editId, onStatus }: any) {
         id = await createOdoo("crm.lead", v2);
       }
 
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: "crm.lead",
-        recordId: id,
-        recordName: values.name,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Criado + Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      if (prefill) clearLeadPrefill();
+      const r = await linkEmail("crm.lead", id, values.name);
+      onStatus(linkStatus("Criado + Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -883,25 +1075,31 @@ function LeadForm({ mode, ctx, editId, onStatus }: any) {
   return (
     <div>
       <div style={S.row}>
-        <label style={S.lab2} title="Título do lead no Odoo">Nome do lead</label>
+        <label style={S.lab2} title="Título do lead no Odoo">Nome do lead <ConfidenceBadge c={conf.name} /></label>
         <input style={S.input} value={name} onChange={(e) => setName(e.target.value)} placeholder="Nome do lead" />
       </div>
 
       <div style={S.row}>
-        <label style={S.lab2} title="Nome da pessoa de contacto">Contacto</label>
+        <label style={S.lab2} title="Nome da pessoa de contacto">Contacto <ConfidenceBadge c={conf.contactName} /></label>
         <input style={S.input} value={contactName} onChange={(e) => setContactName(e.target.value)} placeholder="Nome do contacto" />
       </div>
 
       <div style={S.row}>
-        <label style={S.lab2} title="Email do lead">Email</label>
+        <label style={S.lab2} title="Email do lead">Email <ConfidenceBadge c={conf.email} /></label>
         <input style={S.input} value={email} onChange={(e) => setEmail(e.target.value)} placeholder="email@..." />
       </div>
 
       <div style={S.row}>
-        <label style={S.lab2} title="Telefone (opcional)">Telefone</label>
+        <label style={S.lab2} title="Telefone (opcional)">Telefone <ConfidenceBadge c={conf.phone} /></label>
         <input style={S.input} value={phone} onChange={(e) => setPhone(e.target.value)} placeholder="Telefone" />
       </div>
 
+      {conf.partner != null ? (
+        <div style={{ marginTop: 10 }}>
+          <ConfidenceBadge c={conf.partner} />
+          <span style={{ fontSize: 12, color: "#557" }}>Empresa sugerida: {prefill?.company.value}</span>
+        </div>
+      ) : null}
       <TypeaheadPicker
         label="Empresa/Contacto (Odoo)"
         placeholder="Pesquisar res.partner…"
@@ -930,12 +1128,24 @@ function LeadForm({ mode, ctx, editId, onStatus }: any) {
       />
 
       <div style={{ marginTop: 10 }}>
-        <label style={S.labBlock} title="Notas do lead (se o teu Odoo suportar este campo)">Descrição</label>
+        <label style={S.labBlock} title="Notas do lead (se o teu Odoo suportar este campo)">Descrição <ConfidenceBadge c={conf.description} /></label>
         <textarea style={S.ta} value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Notas do lead…" />
       </div>
 
+      {prefill ? (
+        <label style={S.reviewBox}>
+          <input type="checkbox" checked={reviewed} onChange={(e) => setReviewed(e.target.checked)} />
+          Revi os dados sugeridos pela IA
+        </label>
+      ) : null}
+
       <div style={{ display: "flex", gap: 10, marginTop: 12 }}>
-        <button style={S.btn} onClick={save} title={mode === "edit" ? "Guardar alterações no Odoo" : "Criar no Odoo e ligar ao email"}>
+        <button
+          style={prefill && !reviewed ? { ...S.btn, opacity: 0.5, cursor: "not-allowed" } : S.btn}
+          disabled={Boolean(prefill) && !reviewed}
+          onClick={save}
+          title={mode === "edit" ? "Guardar alterações no Odoo" : "Criar no Odoo e ligar ao email"}
+        >
           {mode === "edit" ? "Guardar alterações" : "Criar + Ligar ao email"}
         </button>
         <button style={S.btn2} onClick={() => closeDialog()} title="Fechar sem guardar">
@@ -946,7 +1156,7 @@ function LeadForm({ mode, ctx, editId, onStatus }: any) {
   );
 }
 
-function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
+function ContactHubForm({ mode, ctx, editId, linkEmail, onStatus }: any) {
   const [name, setName] = useState(ctx.fromName || ctx.subject || "");
   const [email, setEmail] = useState(ctx.fromEmail || "");
   const [phone, setPhone] = useState("");
@@ -966,7 +1176,8 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
     });
   }, [ctx]);
 
-  const [match, setMatch] = useState<Record<string, { id: number; name: string; email?: string } | null>>({});
+  // email (lowercase) → resultado do Odoo; undefined = a procurar
+  const [match, setMatch] = useState<Record<string, PartnerMatch | undefined>>({});
 
   useEffect(() => {
     if (mode !== "edit" || !editId) return;
@@ -988,21 +1199,15 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
   useEffect(() => {
     (async () => {
       const emails = participants.map((p) => p.email).filter(Boolean);
-      const next: Record<string, any> = {};
-      for (const em of emails) next[em] = null;
-      setMatch(next);
-
-      // lookup em série (simplicidade > performance nesta fase)
-      for (const em of emails) {
-        try {
-          const rows = await searchOdooDomain("res.partner", [["email", "ilike", em]], ["id", "name", "display_name", "email"], 5);
-          const found = rows?.find((r: any) => String(r.email || "").toLowerCase() === em.toLowerCase()) || rows?.[0];
-          setMatch((prev) => ({ ...prev, [em]: found ? { id: found.id, name: found.display_name || found.name || `#${found.id}`, email: found.email } : null }));
-        } catch {
-          // ignore lookup errors
-        }
+      setMatch({});
+      if (!emails.length) return;
+      try {
+        setMatch(await matchPartners(emails));
+      } catch (e: any) {
+        onStatus(e?.message ?? String(e));
       }
     })();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [participants]);
 
   async function saveMain() {
@@ -1015,21 +1220,9 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
       }
 
       const id = await createOdoo("res.partner", { name: name || email || "Contacto", email, phone });
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: "res.partner",
-        recordId: id,
-        recordName: name || email,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Criado + Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      const r = await linkEmail("res.partner", id, name || email);
+      onStatus(linkStatus("Criado + Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -1037,19 +1230,8 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
 
   async function linkToPartner(id: number, display: string) {
     try {
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model: "res.partner",
-        recordId: id,
-        recordName: display,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-      onStatus(`Ligado a ${display} ✅`);
+      const r = await linkEmail("res.partner", id, display);
+      onStatus(linkStatus(`Ligado a ${display} ✅`, r));
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -1059,7 +1241,8 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
     try {
       const id = await createOdoo("res.partner", { name: p.name || p.email, email: p.email });
       await linkToPartner(id, p.name || p.email);
-      setMatch((prev) => ({ ...prev, [p.email]: { id, name: p.name || p.email, email: p.email } }));
+      const partner = { id, name: p.name || p.email, email: p.email, isCompany: false, company: "" };
+      setMatch((prev) => ({ ...prev, [p.email.toLowerCase()]: { exact: [partner], fuzzy: [], duplicate: false } }));
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -1101,7 +1284,9 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
         ) : (
           <div style={{ display: "flex", flexDirection: "column", gap: 8 }}>
             {participants.map((p) => {
-              const m = match[p.email];
+              const res = match[p.email.toLowerCase()];
+              const m = res?.exact[0] || res?.fuzzy[0] || null;
+              const fuzzyOnly = Boolean(m && !res?.exact.length);
               return (
                 <div key={p.email} style={S.partRow}>
                   <div style={{ flex: 1 }}>
@@ -1109,8 +1294,20 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
                       <span style={S.badge} title="Origem do endereço">{p.role}</span> {p.name ? `${p.name} <${p.email}>` : p.email}
                     </div>
                     <div style={{ fontSize: 12, color: "#557" }}>
-                      {m ? `Odoo: ${m.name} (#${m.id})` : "Odoo: não encontrado"}
+                      {!res
+                        ? "Odoo: a procurar…"
+                        : m
+                        ? `Odoo: ${m.name} (#${m.id})${fuzzyOnly ? ` · semelhante (${m.email})` : ""}`
+                        : "Odoo: não encontrado"}
                     </div>
+                    {res?.duplicate ? (
+                      <div
+                        style={{ fontSize: 12, color: "#8a4b00" }}
+                        title={res.exact.map((x) => `${x.name} (#${x.id})`).join("\n")}
+                      >
+                        ⚠️ {res.exact.length} contactos com este email no Odoo (duplicados)
+                      </div>
+                    ) : null}
                   </div>
 
                   {m ? (
@@ -1132,7 +1329,7 @@ function ContactHubForm({ mode, ctx, editId, onStatus }: any) {
   );
 }
 
-function GenericMiniForm({ mode, ctx, model, editId, onStatus }: any) {
+function GenericMiniForm({ mode, ctx, model, editId, linkEmail, onStatus }: any) {
   const [name, setName] = useState(ctx.subject || "");
   const [email, setEmail] = useState(ctx.fromEmail || "");
 
@@ -1176,21 +1373,9 @@ function GenericMiniForm({ mode, ctx, model, editId, onStatus }: any) {
 
       const id = await createOdoo(model, values);
 
-      await linkEmailToRecord({
-        conversationId: ctx.conversationId,
-        model,
-        recordId: id,
-        recordName: values.name,
-        internetMessageId: ctx.internetMessageId,
-        subject: ctx.subject,
-        fromEmail: ctx.fromEmail,
-        fromName: ctx.fromName,
-        receivedAtIso: ctx.receivedAtIso,
-        emailWebLink: ctx.emailWebLink,
-      });
-
-      onStatus("Criado + Ligado ✅");
-      setTimeout(() => closeDialog(), 500);
+      const r = await linkEmail(model, id, values.name);
+      onStatus(linkStatus("Criado + Ligado ✅", r));
+      if (!linkFailures(r).length) setTimeout(() => closeDialog(), 500);
     } catch (e: any) {
       onStatus(e?.message ?? String(e));
     }
@@ -1301,6 +1486,8 @@ const S: Record<string, React.CSSProperties> = {
     border: "1px solid #e9eefc",
     background: "#f7f9ff",
   },
+  confBadge: { marginLeft: 6, marginRight: 6, fontSize: 11, fontWeight: 800 },
+  reviewBox: { display: "flex", gap: 8, alignItems: "center", marginTop: 12, fontSize: 13, fontWeight: 700, color: "#623" },
   badge: {
     display: "inline-block",
     padding: "2px 8px",
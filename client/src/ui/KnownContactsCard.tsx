@@ -0,0 +1,130 @@
+import React from "react";
+import type { RecognizeResponse } from "../api";
+
+function odooRecordUrl(baseUrl: string | undefined, model: string, id: number) {
+  if (!baseUrl) return "";
+  return `${String(baseUrl).replace(/\/+$/, "")}/web#id=${id}&model=${encodeURIComponent(model)}&view_type=form`;
+}
+
+const ROLE_LABEL: Record<string, string> = { from: "De", to: "Para", cc: "Cc" };
+
+/**
+ * "Contactos conhecidos / oportunidades abertas" — filled automatically when an email is opened.
+ */
+export default function KnownContactsCard({
+  data,
+  loading,
+  error,
+  odooBaseUrl,
+}: {
+  data: RecognizeResponse | null;
+  loading: boolean;
+  error: string | null;
+  odooBaseUrl?: string;
+}) {
+  const known = (data?.participants || []).filter((p) => p.partners.length);
+  const unknown = (data?.participants || []).filter((p) => !p.partners.length);
+  const leads = data?.leads || [];
+  const companies = data?.companies || [];
+
+  return (
+    <div style={S.wrap}>
+      <div style={S.title}>Contactos conhecidos / oportunidades abertas</div>
+
+      {loading ? (
+        <div style={S.muted}>A procurar no Odoo…</div>
+      ) : error ? (
+        <div style={S.muted} title={error}>
+          Não foi possível consultar o Odoo.
+        </div>
+      ) : !data ? (
+        <div style={S.muted}>—</div>
+      ) : (
+        <>
+          {known.length ? (
+            known.map((p) =>
+              p.partners.map((partner) => (
+                <div key={`${p.email}-${partner.id}`} style={S.row}>
+                  <span style={S.tag}>{ROLE_LABEL[p.role] || p.role}</span>
+                  <span style={S.main} title={p.email}>
+                    {partner.name}
+                    {partner.company ? <span style={S.sub}> · {partner.company}</span> : null}
+                  </span>
+                  <Open url={odooRecordUrl(odooBaseUrl, "res.partner", partner.id)} />
+                </div>
+              ))
+            )
+          ) : (
+            <div style={S.muted}>Nenhum participante é contacto no Odoo.</div>
+          )}
+
+          {companies.length ? (
+            <div style={{ marginTop: 6 }}>
+              {companies.map((c) => (
+                <div key={c.id} style={S.row}>
+                  <span style={S.tag}>🏢</span>
+                  <span style={S.main} title={`Domínio do remetente: ${data.senderDomain}`}>
+                    {c.name}
+                  </span>
+                  <Open url={odooRecordUrl(odooBaseUrl, "res.partner", c.id)} />
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {leads.length ? (
+            <div style={{ marginTop: 6 }}>
+              {leads.map((l) => (
+                <div key={l.id} style={S.row}>
+                  <span style={S.tag}>{l.type === "opportunity" ? "Oport." : "Lead"}</span>
+                  <span style={S.main} title={`${l.emailFrom}${l.user ? ` · ${l.user}` : ""}`}>
+                    {l.name}
+                    <span style={S.sub}>
+                      {l.stage ? ` · ${l.stage}` : ""}
+                      {l.expectedRevenue ? ` · ${l.expectedRevenue.toLocaleString()}` : ""}
+                    </span>
+                  </span>
+                  <Open url={odooRecordUrl(odooBaseUrl, "crm.lead", l.id)} />
+                </div>
+              ))}
+            </div>
+          ) : null}
+
+          {unknown.length ? (
+            <div style={S.muted} title={unknown.map((p) => p.email).join("\n")}>
+              {unknown.length} participante(s) sem contacto no Odoo
+            </div>
+          ) : null}
+        </>
+      )}
+    </div>
+  );
+}
+
+function Open({ url }: { url: string }) {
+  if (!url) return null;
+  return (
+    <a style={S.link} href={url} target="_blank" rel="noreferrer" title="Abrir no Odoo">
+      Abrir
+    </a>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  wrap: { marginTop: 12 },
+  title: { fontWeight: "600", fontSize: 12, marginBottom: 6 },
+  muted: { fontSize: 12, color: "rgba(11,45,107,0.65)", marginTop: 4 },
+  row: { display: "flex", alignItems: "center", gap: 6, padding: "4px 0", fontSize: 12 },
+  tag: {
+    flexShrink: 0,
+    fontSize: 10,
+    fontWeight: "600",
+    padding: "1px 6px",
+    borderRadius: "8px",
+    border: "1px solid rgba(11,45,107,0.18)",
+    color: "#0b2d6b",
+  },
+  main: { flex: 1, minWidth: 0, whiteSpace: "nowrap", overflow: "hidden", textOverflow: "ellipsis", fontWeight: "600" },
+  sub: { fontWeight: "400", color: "rgba(11,45,107,0.65)" },
+  link: { fontSize: 11, fontWeight: "600", color: "#0b2d6b", textDecoration: "none", flexShrink: 0 },
+};
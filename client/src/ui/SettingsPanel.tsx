@@ -12,9 +12,25 @@ import {
   type ReplyLength,
   type SkinId,
 } from "../settings";
+import {
+  createKnowledge,
+  deleteKnowledge,
+  getOutlookUserEmail,
+  invoiceStudioLogin,
+  invoiceStudioLogout,
+  invoiceStudioStatus,
+  odooAuthStatus,
+  odooLogin,
+  odooLogout,
+  listKnowledge,
+  updateKnowledge,
+  type InvoiceStudioStatus,
+  type KnowledgeEntry,
+  type OdooAuthStatus,
+} from "../api";
 import { applySkin } from "./skins";
 
-type Section = "general" | "ai" | "signature";
+export type Section = "general" | "ai" | "signature" | "odoo" | "invoicestudio";
 
 const LOCALE_LABEL: Record<AppLocale, string> = {
   "pt-PT": "Português (Portugal)",
@@ -63,11 +79,11 @@ function localeShort(loc: AppLocale): string {
   return loc;
 }
 
-export function SettingsPanel(): JSX.Element {
+export function SettingsPanel({ initialSection = "general" }: { initialSection?: Section } = {}): JSX.Element {
   const [loading, setLoading] = useState(true);
   const [saving, setSaving] = useState(false);
   const [status, setStatus] = useState<string | null>(null);
-  const [section, setSection] = useState<Section>("general");
+  const [section, setSection] = useState<Section>(initialSection);
   const [model, setModel] = useState<CockpitSettingsV1 | null>(null);
 
   // local-only uploaded signature images (dataURL), per locale
@@ -108,6 +124,7 @@ export function SettingsPanel(): JSX.Element {
   const title = useMemo(() => {
     if (section === "general") return "Geral";
     if (section === "ai") return "IA knowledge";
+    if (section === "odoo") return "Conta Odoo";
     return "Assinatura";
   }, [section]);
 
@@ -213,6 +230,15 @@ export function SettingsPanel(): JSX.Element {
           <button style={section === "signature" ? S.sideItemOn : S.sideItem} onClick={() => setSection("signature")}>
             Assinatura
           </button>
+          <button style={section === "odoo" ? S.sideItemOn : S.sideItem} onClick={() => setSection("odoo")}>
+            Odoo
+          </button>
+          <button
+            style={section === "invoicestudio" ? S.sideItemOn : S.sideItem}
+            onClick={() => setSection("invoicestudio")}
+          >
+            InvoiceStudio
+          </button>
         </div>
 
         <div style={S.content}>
@@ -267,6 +293,15 @@ export function SettingsPanel(): JSX.Element {
                     </option>
                   ))}
                 </select>
+                <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12, marginTop: 6 }}>
+                  <input
+                    type="checkbox"
+                    checked={Boolean(model.summaryBilingual)}
+                    onChange={(e) => setModel({ ...model, summaryBilingual: e.target.checked })}
+                  />
+                  Resumo bilingue (inclui citações-chave no idioma original)
+                </label>
+                <div style={S.hint}>Os resumos são escritos neste idioma; em Auto, no idioma detetado no email.</div>
               </Field>
 
               <Field label="Idioma de resposta">
@@ -350,17 +385,13 @@ export function SettingsPanel(): JSX.Element {
           )}
 
           {section === "ai" && (
-            <div style={{ display: "grid", gap: 10 }}>
-              <div style={S.hint}>Notas permanentes para a IA (ex.: regras da empresa, frases padrão, etc.).</div>
-              <textarea
-                style={S.textarea}
-                value={(model.aiKnowledge || []).join("\n")}
-                onChange={(e) =>
-                  setModel({ ...model, aiKnowledge: e.target.value.split(/\r?\n/).map((s) => s.trim()).filter(Boolean) })
-                }
-                placeholder="Uma nota por linha…"
-              />
-            </div>
+            <KnowledgeSection
+              localNotes={model.aiKnowledge || []}
+              onImported={() => {
+                setModel({ ...model, aiKnowledge: [] });
+                void saveSettings({ aiKnowledge: [] });
+              }}
+            />
           )}
 
           {section === "signature" && (
@@ -488,6 +519,9 @@ export function SettingsPanel(): JSX.Element {
             </div>
           )}
 
+          {section === "odoo" && <OdooAccountSection />}
+          {section === "invoicestudio" && <InvoiceStudioAccountSection />}
+
           {status && <div style={status.startsWith("Falha") ? S.errorBox : S.okBox}>{status}</div>}
         </div>
       </div>
@@ -495,6 +529,386 @@ export function SettingsPanel(): JSX.Element {
   );
 }
 
+// Odoo account is stored server-side (per Outlook user), so it has its own actions
+// instead of going through the roaming settings "Guardar".
+function OdooAccountSection() {
+  const [st, setSt] = useState<OdooAuthStatus | null>(null);
+  const [login, setLogin] = useState("");
+  const [apiKey, setApiKey] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const outlookUser = useMemo(() => getOutlookUserEmail(), []);
+
+  async function refresh() {
+    try {
+      const s = await odooAuthStatus();
+      setSt(s);
+      if (s.login) setLogin(s.login);
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao ler estado da conta Odoo" });
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function onLogin() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await odooLogin(login.trim(), apiKey);
+      setApiKey("");
+      setMsg({ ok: true, text: `Ligado como ${r.userName || r.login}.` });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha no login" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onLogout() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      await odooLogout();
+      setMsg({ ok: true, text: "Conta Odoo desligada." });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao desligar" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={S.hint}>
+        Cada utilizador do Outlook liga a sua própria conta Odoo. Tarefas, leads e notas no chatter ficam em teu nome e
+        respeitam as tuas permissões no Odoo. A API key fica guardada (cifrada) no servidor.
+      </div>
+
+      <Field label="Estado">
+        {st?.linked ? (
+          <div style={S.okBox}>
+            Ligado como <strong>{st.userName || st.login}</strong> ({st.login})
+          </div>
+        ) : (
+          <div style={S.hint}>
+            {st?.requireUserAuth
+              ? "Sem conta ligada. O servidor exige login pessoal para usar o Odoo."
+              : "Sem conta ligada. Está a ser usada a conta partilhada do servidor."}
+          </div>
+        )}
+      </Field>
+
+      <Field label="Utilizador Outlook">
+        <div style={S.hint}>{outlookUser || "— (abre o add-in dentro do Outlook)"}</div>
+      </Field>
+
+      <Field label="Login Odoo">
+        <input style={S.input} value={login} onChange={(e) => setLogin(e.target.value)} placeholder="nome@empresa.pt" />
+      </Field>
+
+      <Field label="API key (ou password)">
+        <input
+          style={S.input}
+          type="password"
+          value={apiKey}
+          onChange={(e) => setApiKey(e.target.value)}
+          placeholder="Odoo → Preferências → Segurança da conta → Nova API key"
+        />
+      </Field>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button style={S.btn} onClick={onLogin} disabled={busy || !login.trim() || !apiKey || !outlookUser}>
+          {busy ? "A validar…" : st?.linked ? "Atualizar conta" : "Ligar conta"}
+        </button>
+        {st?.linked ? (
+          <button style={S.btnGhost} onClick={onLogout} disabled={busy}>
+            Desligar
+          </button>
+        ) : null}
+      </div>
+
+      {msg && <div style={msg.ok ? S.okBox : S.errorBox}>{msg.text}</div>}
+    </div>
+  );
+}
+
+// Shared knowledge base (server-side, whole team). Pinned notes always go to the AI;
+// the others only when retrieved as relevant for the email.
+function KnowledgeSection({ localNotes, onImported }: { localNotes: string[]; onImported: () => void }) {
+  const [entries, setEntries] = useState<KnowledgeEntry[]>([]);
+  const [editing, setEditing] = useState<{ id: string; title: string; tags: string; body: string; pinned: boolean } | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+
+  async function refresh() {
+    try {
+      setEntries(await listKnowledge());
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao ler a base de conhecimento" });
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function onSaveEntry() {
+    if (!editing) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      const input = {
+        title: editing.title.trim(),
+        body: editing.body.trim(),
+        tags: editing.tags.split(",").map((t) => t.trim()).filter(Boolean),
+        pinned: editing.pinned,
+      };
+      if (editing.id) await updateKnowledge(editing.id, input);
+      else await createKnowledge(input);
+      setEditing(null);
+      setMsg({ ok: true, text: "Nota guardada." });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao guardar a nota" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onDelete(entry: KnowledgeEntry) {
+    if (!window.confirm(`Apagar a nota "${entry.title || "(sem título)"}" para toda a equipa?`)) return;
+    setBusy(true);
+    setMsg(null);
+    try {
+      await deleteKnowledge(entry.id);
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao apagar a nota" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  // Old local notes (one per line in the settings) → pinned shared notes
+  async function onImportLocal() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      for (const note of localNotes) {
+        await createKnowledge({ title: note.length > 60 ? `${note.slice(0, 57)}…` : note, body: note, pinned: true });
+      }
+      onImported();
+      setMsg({ ok: true, text: `${localNotes.length} nota(s) importada(s) como fixadas.` });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao importar as notas" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={S.hint}>
+        Base de conhecimento partilhada pela equipa (regras da empresa, prazos, preços, frases padrão…). As notas{" "}
+        <strong>fixadas</strong> vão sempre para a IA; as outras só quando forem relevantes para o email.
+      </div>
+
+      {localNotes.length ? (
+        <div style={S.note}>
+          Tens {localNotes.length} nota(s) antigas guardadas só neste Outlook.{" "}
+          <button style={S.btnGhost} onClick={onImportLocal} disabled={busy}>
+            Importar para a base partilhada
+          </button>
+        </div>
+      ) : null}
+
+      {entries.length === 0 ? <div style={S.note}>Ainda não há notas.</div> : null}
+      {entries.map((e) => (
+        <div key={e.id} style={S.kbRow}>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontWeight: 600, fontSize: 12 }}>
+              {e.pinned ? "📌 " : ""}
+              {e.title || "(sem título)"}
+            </div>
+            {e.tags.length ? <div style={S.note}>{e.tags.map((t) => `#${t}`).join(" ")}</div> : null}
+            <div style={S.kbBody}>{e.body}</div>
+          </div>
+          <button
+            style={S.btnGhost}
+            disabled={busy}
+            onClick={() => setEditing({ id: e.id, title: e.title, tags: e.tags.join(", "), body: e.body, pinned: e.pinned })}
+          >
+            Editar
+          </button>
+          <button style={S.btnGhost} disabled={busy} onClick={() => onDelete(e)}>
+            Apagar
+          </button>
+        </div>
+      ))}
+
+      {editing ? (
+        <div style={{ display: "grid", gap: 8 }}>
+          <Field label="Título">
+            <input style={S.input} value={editing.title} onChange={(e) => setEditing({ ...editing, title: e.target.value })} />
+          </Field>
+          <Field label="Etiquetas (separadas por vírgula)">
+            <input
+              style={S.input}
+              value={editing.tags}
+              onChange={(e) => setEditing({ ...editing, tags: e.target.value })}
+              placeholder="ex.: prazos, logística"
+            />
+          </Field>
+          <Field label="Texto">
+            <textarea style={S.textarea} value={editing.body} onChange={(e) => setEditing({ ...editing, body: e.target.value })} />
+          </Field>
+          <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12 }}>
+            <input type="checkbox" checked={editing.pinned} onChange={(e) => setEditing({ ...editing, pinned: e.target.checked })} />
+            Fixada (enviar sempre à IA)
+          </label>
+          <div style={{ display: "flex", gap: 8 }}>
+            <button style={S.btn} onClick={onSaveEntry} disabled={busy || (!editing.title.trim() && !editing.body.trim())}>
+              {busy ? "A guardar…" : "Guardar nota"}
+            </button>
+            <button style={S.btnGhost} onClick={() => setEditing(null)} disabled={busy}>
+              Cancelar
+            </button>
+          </div>
+        </div>
+      ) : (
+        <div>
+          <button style={S.btn} onClick={() => setEditing({ id: "", title: "", tags: "", body: "", pinned: false })}>
+            Nova nota
+          </button>
+        </div>
+      )}
+
+      {msg && <div style={msg.ok ? S.okBox : S.errorBox}>{msg.text}</div>}
+    </div>
+  );
+}
+
+// InvoiceStudio session (Option B login) — the JWT stays on the server, per Outlook user.
+function InvoiceStudioAccountSection() {
+  const [st, setSt] = useState<InvoiceStudioStatus | null>(null);
+  const [email, setEmail] = useState("");
+  const [password, setPassword] = useState("");
+  const [remember, setRemember] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState<{ ok: boolean; text: string } | null>(null);
+  const outlookUser = useMemo(() => getOutlookUserEmail(), []);
+
+  async function refresh() {
+    try {
+      const s = await invoiceStudioStatus();
+      setSt(s);
+      if (s.account?.login) {
+        setEmail(s.account.login);
+        setRemember(s.account.remember);
+      }
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao ler estado do InvoiceStudio" });
+    }
+  }
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  async function onLogin() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      const r = await invoiceStudioLogin(email.trim(), password, remember);
+      setPassword("");
+      setMsg({ ok: true, text: `Sessão iniciada como ${r.account?.userName || email.trim()}.` });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha no login" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  async function onLogout() {
+    setBusy(true);
+    setMsg(null);
+    try {
+      await invoiceStudioLogout();
+      setMsg({ ok: true, text: "Sessão InvoiceStudio terminada." });
+      await refresh();
+    } catch (e: any) {
+      setMsg({ ok: false, text: e?.message || "Falha ao terminar sessão" });
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const account = st?.account;
+
+  return (
+    <div style={{ display: "grid", gap: 10 }}>
+      <div style={S.hint}>
+        Sessão usada no separador Buckets. O token fica guardado (cifrado) no servidor, associado ao teu utilizador do
+        Outlook.
+      </div>
+
+      <Field label="Estado">
+        {st && !st.configured ? (
+          <div style={S.errorBox}>InvoiceStudio não configurado no servidor (INVOICESTUDIO_URL).</div>
+        ) : account && !account.expired ? (
+          <div style={S.okBox}>
+            Sessão iniciada como <strong>{account.userName || account.login}</strong>
+            {account.org ? ` (${account.org})` : ""}
+          </div>
+        ) : account?.expired ? (
+          <div style={S.errorBox}>Sessão expirada. Inicia sessão de novo.</div>
+        ) : (
+          <div style={S.hint}>
+            {st?.hasToken
+              ? "Sem sessão pessoal. Está a ser usado o token partilhado do servidor."
+              : st?.authOptional
+              ? "Sem sessão. O servidor envia sem autenticação (default-org)."
+              : "Sem sessão. Inicia sessão para enviar anexos para os buckets."}
+          </div>
+        )}
+      </Field>
+
+      <Field label="Email">
+        <input style={S.input} value={email} onChange={(e) => setEmail(e.target.value)} placeholder="nome@empresa.pt" />
+      </Field>
+
+      <Field label="Password">
+        <input style={S.input} type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+      </Field>
+
+      <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 12 }}>
+        <input type="checkbox" checked={remember} onChange={(e) => setRemember(e.target.checked)} />
+        Manter sessão (renova o token automaticamente quando expira)
+      </label>
+
+      <div style={{ display: "flex", gap: 8 }}>
+        <button style={S.btn} onClick={onLogin} disabled={busy || !email.trim() || !password || !outlookUser}>
+          {busy ? "A validar…" : account ? "Iniciar sessão de novo" : "Iniciar sessão"}
+        </button>
+        {account ? (
+          <button style={S.btnGhost} onClick={onLogout} disabled={busy}>
+            Terminar sessão
+          </button>
+        ) : null}
+      </div>
+
+      {msg && <div style={msg.ok ? S.okBox : S.errorBox}>{msg.text}</div>}
+    </div>
+  );
+}
+
 function Field({ label, children }: { label: string; children: React.ReactNode }) {
   return (
     <div>
@@ -633,5 +1047,7 @@ const S: Record<string, React.CSSProperties> = {
     color: "#8a1f1f",
   },
   note: { fontSize: 12, color: "#66719a" },
+  kbRow: { display: "flex", gap: 6, alignItems: "flex-start", padding: "6px 0", borderBottom: "1px solid #eef1f8" },
+  kbBody: { fontSize: 12, color: "#334", whiteSpace: "pre-wrap", maxHeight: 54, overflow: "hidden" },
   error: { fontSize: 12, color: "#8a1f1f" },
 };
@@ -0,0 +1,181 @@
+import React, { useEffect, useRef, useState } from "react";
+import { searchOdoo, searchOdooDomain } from "../api";
+
+/**
+ * Odoo many2one picker: type to search `model` (name_search via searchOdoo, or `extraDomain`),
+ * pick one row. Used by the dialog forms and by the AI task rows.
+ */
+export type TypeaheadPickerProps = {
+  label?: string;
+  placeholder: string;
+  model: string;
+  fields?: string[];
+  limit?: number;
+  pickedId: number | null;
+  pickedName: string;
+  onPick: (it: any) => void;
+  extraDomain?: (q: string) => any[];
+};
+
+export default function TypeaheadPicker({
+  label,
+  placeholder,
+  model,
+  fields = ["id", "name", "display_name"],
+  limit = 15,
+  pickedId,
+  pickedName,
+  onPick,
+  extraDomain,
+}: TypeaheadPickerProps) {
+  const [q, setQ] = useState("");
+  const [items, setItems] = useState<any[]>([]);
+  const [open, setOpen] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const debounceRef = useRef<number | null>(null);
+
+  const effectiveText = pickedId ? pickedName : q;
+
+  async function load(query: string) {
+    setBusy(true);
+    try {
+      if (extraDomain) {
+        const domain = extraDomain(query);
+        const rows = await searchOdooDomain(model, domain, fields, limit);
+        setItems(Array.isArray(rows) ? rows : []);
+      } else {
+        const rows = await searchOdoo(model, query, limit);
+        setItems(Array.isArray(rows) ? rows : []);
+      }
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  function scheduleLoad(query: string) {
+    if (debounceRef.current) window.clearTimeout(debounceRef.current);
+    debounceRef.current = window.setTimeout(() => load(query), 250);
+  }
+
+  useEffect(() => {
+    if (!open) return;
+    // quando abre, carrega logo (mesmo vazio) para mostrar 10–15
+    scheduleLoad(pickedId ? "" : q);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [open]);
+
+  useEffect(() => {
+    if (!open) return;
+    if (pickedId) return; // quando já está selecionado, não pesquisa
+    scheduleLoad(q);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [q]);
+
+  return (
+    <div style={{ marginTop: 10, position: "relative" }}>
+      {label ? <label style={S.labBlock}>{label}</label> : null}
+
+      <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+        <input
+          style={{ ...S.input, flex: 1, minWidth: 0 }}
+          value={effectiveText}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setTimeout(() => setOpen(false), 150)}
+          onChange={(e) => {
+            const v = e.target.value;
+            if (pickedId) {
+              // se começar a escrever, limpa seleção
+              setQ(v);
+              onPick({ id: null, name: "" });
+            } else {
+              setQ(v);
+            }
+            setOpen(true);
+          }}
+          placeholder={placeholder}
+        />
+
+        {pickedId ? (
+          <button
+            style={S.btn2}
+            onClick={() => {
+              onPick({ id: null, name: "" });
+              setQ("");
+              setOpen(true);
+              load("");
+            }}
+            title="Limpar seleção"
+          >
+            Limpar
+          </button>
+        ) : (
+          <button style={S.btn2} onClick={() => load(q)} disabled={busy} title="Forçar pesquisa">
+            {busy ? "…" : "Pesquisar"}
+          </button>
+        )}
+      </div>
+
+      {pickedId ? (
+        <div style={{ marginTop: 6, fontSize: 12, color: "#666" }}>
+          Selecionado: {pickedName} (#{pickedId})
+        </div>
+      ) : null}
+
+      {open && (items?.length || busy) ? (
+        <div style={S.pickList}>
+          {busy && !items.length ? (
+            <div style={{ padding: 10, color: "#777", fontSize: 12 }}>A procurar…</div>
+          ) : null}
+
+          {items.map((it: any) => (
+            <button
+              key={it.id}
+              style={S.pickItem}
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onPick(it);
+                setOpen(false);
+                setQ("");
+              }}
+            >
+              <b>{it.display_name || it.name || `#${it.id}`}</b>
+              <span style={{ color: "#777" }}>#{it.id}</span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
+
+const S: Record<string, React.CSSProperties> = {
+  labBlock: { display: "block", fontWeight: 800, marginBottom: 6, color: "#0b3d91" },
+  input: { width: "100%", padding: "8px 10px", border: "1px solid #d6def2", borderRadius: 10, color: "#122", background: "#fff" },
+  btn2: { padding: "10px 12px", borderRadius: 10, border: "1px solid #d6def2", background: "#fff", cursor: "pointer", color: "#0b3d91", fontWeight: 900 },
+  pickList: {
+    position: "absolute",
+    left: 0,
+    right: 0,
+    top: "100%",
+    marginTop: 6,
+    background: "#fff",
+    border: "1px solid #d6def2",
+    borderRadius: 12,
+    maxHeight: 240,
+    overflow: "auto",
+    zIndex: 999,
+    boxShadow: "0 8px 24px rgba(0,0,0,0.08)",
+  },
+  pickItem: {
+    width: "100%",
+    textAlign: "left",
+    padding: "10px 12px",
+    border: "none",
+    background: "transparent",
+    cursor: "pointer",
+    display: "flex",
+    justifyContent: "space-between",
+    gap: 10,
+    color: "#122",
+  },
+};
@@ -0,0 +1,166 @@
+#!/usr/bin/env node
+// server/eval/evalPrompts.js
+// Offline comparison of two prompt packs (ai/promptPacks.js) over a fixture set of emails.
+//
+//   node eval/evalPrompts.js default@1 default@2 [--fixtures eval/fixtures.json] [--provider mock|env] [--json]
+//
+// Each fixture is run through both packs (mock provider by default: no API key, deterministic;
+// "env" = the provider configured in .env via aiService). Per fixture it prints the rule violations of
+// each output and a line diff between them, then a summary. Exit code 1 when B has more violations than A.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+import { buildPrompt } from "../src/ai/promptTemplates.js";
+import { findPromptPack, loadPromptPacks } from "../src/ai/promptPacks.js";
+import { detectLanguage, localeLanguage } from "../src/ai/language.js";
+import { ALLOWED_TAGS } from "../src/ai/aiHtml.js";
+import { mockCreateText } from "./mockProvider.js";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+
+function parseArgs(argv) {
+  const args = { packs: [], fixtures: path.join(__dirname, "fixtures.json"), provider: "mock", json: false };
+  for (let i = 0; i < argv.length; i++) {
+    const a = argv[i];
+    if (a === "--fixtures") args.fixtures = argv[++i];
+    else if (a === "--provider") args.provider = argv[++i];
+    else if (a === "--json") args.json = true;
+    else if (a.startsWith("--")) throw new Error(`opção desconhecida: ${a}`);
+    else args.packs.push(a);
+  }
+  if (args.packs.length !== 2) throw new Error("uso: evalPrompts.js <packA> <packB> [--fixtures f] [--provider mock|env] [--json]");
+  if (!["mock", "env"].includes(args.provider)) throw new Error(`--provider inválido: ${args.provider}`);
+  return args;
+}
+
+// Language the output must be in: the fixture's locale, "auto" = the email's
+function expectedLanguage(fx) {
+  if (fx.expectLanguage) return fx.expectLanguage;
+  if (fx.locale === "auto") return detectLanguage(fx.email?.bodyText || fx.inputText) || "";
+  return localeLanguage(fx.locale || "pt-PT");
+}
+
+/**
+ * Output → [{ rule, detail }]
+ *   forbidden_tag: tag outside ALLOWED_TAGS (ai/aiHtml.js, checked on the raw output); markdown: "#" headings, ``` or **bold**;
+ *   wrong_language: detected language ≠ expected (skipped when undetectable).
+ */
+function checkOutput(html, expected) {
+  const violations = [];
+  const tags = new Set([...String(html).matchAll(/<\s*\/?\s*([a-z][a-z0-9]*)\b/gi)].map((m) => m[1].toLowerCase()));
+  for (const t of tags) if (!ALLOWED_TAGS.has(t)) violations.push({ rule: "forbidden_tag", detail: `<${t}>` });
+  if (/(^|\n)\s*#{1,6}\s|```|\*\*[^*\n]+\*\*/.test(html)) violations.push({ rule: "markdown", detail: "" });
+  const got = detectLanguage(html);
+  if (expected && got && got !== expected) violations.push({ rule: "wrong_language", detail: `${got} (esperado ${expected})` });
+  return violations;
+}
+
+// Minimal LCS line diff → ["  same", "- only in A", "+ only in B"]
+function lineDiff(a, b) {
+  const x = a.split("\n");
+  const y = b.split("\n");
+  const lcs = Array.from({ length: x.length + 1 }, () => new Array(y.length + 1).fill(0));
+  for (let i = x.length - 1; i >= 0; i--) {
+    for (let j = y.length - 1; j >= 0; j--) {
+      lcs[i][j] = x[i] === y[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+  const out = [];
+  let i = 0;
+  let j = 0;
+  while (i < x.length && j < y.length) {
+    if (x[i] === y[j]) {
+      out.push(`  ${x[i]}`);
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) out.push(`- ${x[i++]}`);
+    else out.push(`+ ${y[j++]}`);
+  }
+  while (i < x.length) out.push(`- ${x[i++]}`);
+  while (j < y.length) out.push(`+ ${y[j++]}`);
+  return out;
+}
+
+async function createText(provider, opts) {
+  if (provider === "mock") return mockCreateText(opts);
+  const { aiCreateText } = await import("../src/ai/aiService.js");
+  return aiCreateText(opts);
+}
+
+async function runFixture(fx, pack, provider) {
+  const instructions = buildPrompt({
+    action: fx.action,
+    locale: fx.locale || "pt-PT",
+    tone: fx.tone || "neutro",
+    length: fx.length || "m",
+    email: fx.email,
+    inputText: String(fx.inputText || ""),
+    bilingual: fx.bilingual === true,
+    pack,
+  });
+  const result = await createText(provider, { mode: "fast", instructions, input: "ok", max_output_tokens: 600, temperature: 0 });
+  const html = String(result.text || "").trim();
+  return { html, violations: checkOutput(html, expectedLanguage(fx)), usage: result.usage };
+}
+
+async function main() {
+  const args = parseArgs(process.argv.slice(2));
+  // server modules log to stdout; keep it clean for --json
+  if (args.json) console.log = (...a) => console.error(...a);
+  const print = args.json ? () => {} : (...a) => process.stdout.write(`${a.join(" ")}\n`);
+
+  loadPromptPacks();
+  const [packA, packB] = args.packs.map((ref) => {
+    const pack = findPromptPack(ref);
+    if (!pack) throw new Error(`pack desconhecido: ${ref}`);
+    return pack;
+  });
+  const raw = JSON.parse(fs.readFileSync(args.fixtures, "utf-8"));
+  const fixtures = Array.isArray(raw) ? raw : raw.fixtures || [];
+
+  const results = [];
+  for (const fx of fixtures) {
+    const a = await runFixture(fx, packA, args.provider);
+    const b = await runFixture(fx, packB, args.provider);
+    const diff = lineDiff(a.html, b.html);
+    results.push({ id: fx.id, action: fx.action, locale: fx.locale, a, b, changed: a.html !== b.html, diff });
+
+    print(`\n== ${fx.id} (${fx.action}, ${fx.locale || "pt-PT"}) ==`);
+    for (const [ref, r] of [[packA.id, a], [packB.id, b]]) {
+      const v = r.violations.map((x) => (x.detail ? `${x.rule} ${x.detail}` : x.rule)).join(", ");
+      print(`  ${ref}: ${v || "sem violações"}`);
+    }
+    if (a.html === b.html) print("  (saída igual)");
+    else for (const line of diff) print(`  ${line}`);
+  }
+
+  const count = (side) => {
+    const byRule = {};
+    for (const r of results) for (const v of r[side].violations) byRule[v.rule] = (byRule[v.rule] || 0) + 1;
+    return { total: Object.values(byRule).reduce((s, n) => s + n, 0), byRule };
+  };
+  const summary = {
+    a: packA.id,
+    b: packB.id,
+    provider: args.provider,
+    fixtures: results.length,
+    changed: results.filter((r) => r.changed).length,
+    violations: { [packA.id]: count("a"), [packB.id]: count("b") },
+  };
+
+  print(`\n== Resumo: ${packA.id} vs ${packB.id} (${summary.fixtures} emails, ${summary.changed} com saída diferente) ==`);
+  for (const id of [packA.id, packB.id]) {
+    const c = summary.violations[id];
+    const rules = Object.entries(c.byRule).map(([k, n]) => `${k}=${n}`).join(", ");
+    print(`  ${id}: ${c.total} violações${rules ? ` (${rules})` : ""}`);
+  }
+  if (args.json) process.stdout.write(`${JSON.stringify({ summary, results }, null, 2)}\n`);
+
+  if (summary.violations[packB.id].total > summary.violations[packA.id].total) process.exitCode = 1;
+}
+
+main().catch((e) => {
+  console.error(String(e?.message || e));
+  process.exitCode = 2;
+});
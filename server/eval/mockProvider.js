@@ -0,0 +1,94 @@
+// server/eval/mockProvider.js
+// Deterministic stand-in for the AI provider (offline prompt evaluation, no API key).
+// It "reads" the prompt like a model would: writes in the language it is told to (or the email's for
+// "auto"), echoes the <p><strong>…</strong></p> headings the prompt asks for (translated only when told
+// to), honours bullet counts, and makes the usual slips (markdown headings, <h3>) unless the prompt
+// explicitly forbids them.
+
+import { detectLanguage } from "../src/ai/language.js";
+
+const LANGUAGE_NAMES = {
+  pt: ["português"],
+  es: ["espanhol", "español"],
+  en: ["inglês", "english"],
+  it: ["italiano"],
+  de: ["alemão", "deutsch"],
+};
+
+const PHRASES = {
+  pt: { hello: "Olá,", thanks: "Obrigado pelo seu email.", item: "Ponto", about: "sobre o assunto", section: "Secção", bye: "Com os melhores cumprimentos," },
+  es: { hello: "Hola,", thanks: "Gracias por su correo.", item: "Punto", about: "sobre el asunto", section: "Sección", bye: "Un saludo cordial," },
+  en: { hello: "Hello,", thanks: "Thank you for your email.", item: "Point", about: "about the subject", section: "Section", bye: "Kind regards," },
+  it: { hello: "Buongiorno,", thanks: "Grazie per la sua email.", item: "Punto", about: "per il tema", section: "Sezione", bye: "Cordiali saluti," },
+  de: { hello: "Hallo,", thanks: "Vielen Dank für Ihre E-Mail.", item: "Punkt", about: "zum Thema", section: "Abschnitt", bye: "Mit freundlichen Grüßen," },
+};
+
+// Language the prompt asks for: "Escreve em <name>." or, for "auto", the language of the email body
+function targetLanguage(prompt) {
+  const m = prompt.match(/Escreve em ([^.\n]+)\./);
+  if (m) {
+    const name = m[1].toLowerCase();
+    for (const [code, names] of Object.entries(LANGUAGE_NAMES)) {
+      if (names.some((n) => name.includes(n))) return code;
+    }
+  }
+  const body = prompt.split(/\nCorpo \(texto limpo\):\n|\nCONVERSA:\n|\nTexto para reescrever:\n/)[1] || "";
+  return detectLanguage(body) || "pt";
+}
+
+function subjectOf(prompt) {
+  return (prompt.match(/\nAssunto: ([^\n]*)/)?.[1] || "").trim();
+}
+
+// "3–6 bullets" → 3 (the model plays it safe with the minimum)
+function bulletCount(prompt) {
+  const m = prompt.match(/(\d+)\s*[–-]\s*\d+\s+bullets/);
+  return m ? Math.max(1, Number(m[1])) : 3;
+}
+
+function forbidsMarkdown(prompt) {
+  return /markdown/i.test(prompt);
+}
+
+function forbidsHeadings(prompt) {
+  return /<h1>|títulos/i.test(prompt);
+}
+
+/**
+ * prompt (instructions) → { text, usage, provider, model }, same shape as aiCreateText.
+ */
+export function mockCreateText({ instructions }) {
+  const prompt = String(instructions || "");
+  const lang = targetLanguage(prompt);
+  const p = PHRASES[lang] || PHRASES.pt;
+  const subject = subjectOf(prompt);
+  const out = [];
+
+  const headings = [...prompt.matchAll(/<p><strong>([^<]+)<\/strong><\/p>/g)].map((m) => m[1]);
+  if (headings.length) {
+    if (!forbidsMarkdown(prompt)) out.push(`## ${subject || p.item}`);
+    const n = bulletCount(prompt);
+    const translate = lang !== "pt" && /títulos das secções/i.test(prompt);
+    for (const [i, h] of headings.entries()) {
+      out.push(`<p><strong>${translate ? `${p.section} ${i + 1}` : h}</strong></p>`);
+      const items = Array.from({ length: n }, (_, j) => `<li>${p.item} ${j + 1} ${p.about} ${subject}</li>`);
+      out.push(`<ul>${items.join("")}</ul>`);
+    }
+  } else {
+    if (!forbidsHeadings(prompt)) out.push(`<h3>${subject || p.item}</h3>`);
+    out.push(`<p>${p.hello}</p>`);
+    out.push(`<p>${p.thanks} ${p.item} 1 ${p.about} ${subject}.</p>`);
+    if (/responde a todas as perguntas/i.test(prompt)) out.push(`<p>${p.item} 2 ${p.about} ${subject}.</p>`);
+    out.push(`<p>${p.bye}</p>`);
+  }
+
+  const text = out.join("\n");
+  const inputTokens = Math.ceil(prompt.length / 4);
+  const outputTokens = Math.ceil(text.length / 4);
+  return {
+    text,
+    usage: { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens },
+    provider: "mock",
+    model: "mock-1",
+  };
+}
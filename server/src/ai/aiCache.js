@@ -0,0 +1,36 @@
+// server/src/ai/aiCache.js
+// In-memory cache of AI results (per server process). Key = sha256 of the request parts that
+// decide the output (action, mode, provider and the final prompt, which carries locale, tone,
+// trimmed body and knowledge notes). AI_CACHE_TTL_SEC (default 6h; 0 = off), AI_CACHE_MAX entries.
+
+import crypto from "node:crypto";
+
+const cache = new Map(); // key → { expires, value }  (insertion order = age, for eviction)
+
+function ttlMs() {
+  const sec = Number(process.env.AI_CACHE_TTL_SEC ?? 6 * 60 * 60);
+  return Number.isFinite(sec) && sec > 0 ? sec * 1000 : 0;
+}
+
+export function aiCacheKey(parts) {
+  return crypto.createHash("sha256").update(JSON.stringify(parts)).digest("hex");
+}
+
+export function aiCacheGet(key) {
+  const hit = cache.get(key);
+  if (!hit) return null;
+  if (hit.expires < Date.now()) {
+    cache.delete(key);
+    return null;
+  }
+  return hit.value;
+}
+
+export function aiCacheSet(key, value) {
+  const ttl = ttlMs();
+  if (!ttl) return;
+  const max = Math.max(1, Number(process.env.AI_CACHE_MAX || 500) || 500);
+  cache.delete(key);
+  cache.set(key, { expires: Date.now() + ttl, value });
+  while (cache.size > max) cache.delete(cache.keys().next().value);
+}
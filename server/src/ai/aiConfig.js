@@ -1,19 +1,61 @@
 // server/src/ai/aiConfig.js
-export function getAiConfig() {
-  const provider = (process.env.AI_PROVIDER || "openai").toLowerCase();
+export const AI_PROVIDERS = ["openai", "gemini", "openai-compatible"];
+
+// "compat", "ollama", "vllm" → the generic Chat Completions provider
+const PROVIDER_ALIASES = { compat: "openai-compatible", ollama: "openai-compatible", vllm: "openai-compatible" };
+
+export function normalizeProvider(name) {
+  const p = String(name || "").trim().toLowerCase();
+  return PROVIDER_ALIASES[p] || p;
+}
+
+function trimUrl(u) {
+  return String(u || "").trim().replace(/\/+$/, "");
+}
+
+/**
+ * Provider: AI_PROVIDER (default "openai"), or per request (`provider` in the body)
+ * when that provider is listed in AI_ALLOWED_PROVIDERS (default: only the env one).
+ * Every provider section has the same shape: { apiKey, baseUrl, modelFast, modelQuality }.
+ */
+export function getAiConfig({ provider: requested } = {}) {
+  const envProvider = normalizeProvider(process.env.AI_PROVIDER || "openai");
+  const allowed = String(process.env.AI_ALLOWED_PROVIDERS || "")
+    .split(",")
+    .map(normalizeProvider)
+    .filter(Boolean);
+
+  let provider = envProvider;
+  if (requested) {
+    const p = normalizeProvider(requested);
+    if (p !== envProvider && !allowed.includes(p)) {
+      throw Object.assign(new Error(`Provider não permitido: ${p}`), { status: 400 });
+    }
+    provider = p;
+  }
 
   return {
     enabled: String(process.env.AI_ENABLED || "").trim() === "1",
     provider,
+    allowedProviders: [...new Set([envProvider, ...allowed])],
     openai: {
       apiKey: process.env.OPENAI_API_KEY || "",
+      baseUrl: trimUrl(process.env.OPENAI_BASE_URL) || "https://api.openai.com/v1",
       modelFast: process.env.OPENAI_MODEL_FAST || "gpt-5",
       modelQuality:
         process.env.OPENAI_MODEL_QUALITY || process.env.OPENAI_MODEL_FAST || "gpt-5",
     },
     gemini: {
       apiKey: process.env.GEMINI_API_KEY || "",
-      model: process.env.GEMINI_MODEL || "gemini-1.5-pro",
+      baseUrl: trimUrl(process.env.GEMINI_BASE_URL) || "https://generativelanguage.googleapis.com/v1beta",
+      modelFast: process.env.GEMINI_MODEL_FAST || process.env.GEMINI_MODEL || "gemini-1.5-pro",
+      modelQuality: process.env.GEMINI_MODEL || "gemini-1.5-pro",
+    },
+    "openai-compatible": {
+      apiKey: process.env.OPENAI_COMPAT_API_KEY || "",
+      baseUrl: trimUrl(process.env.OPENAI_COMPAT_BASE_URL),
+      modelFast: process.env.OPENAI_COMPAT_MODEL_FAST || process.env.OPENAI_COMPAT_MODEL || "",
+      modelQuality: process.env.OPENAI_COMPAT_MODEL || process.env.OPENAI_COMPAT_MODEL_FAST || "",
     },
   };
 }
@@ -0,0 +1,78 @@
+// server/src/ai/aiCost.js
+// Estimated cost of a call (USD per 1M tokens) and per-user daily budgets.
+// Prices are estimates: override/extend with AI_PRICES, e.g. {"gpt-5":{"input":1.25,"output":10}}.
+
+import { normalizeUser } from "../credentialStore.js";
+
+const DEFAULT_PRICES = {
+  "gpt-5": { input: 1.25, output: 10 },
+  "gpt-5-mini": { input: 0.25, output: 2 },
+  "gpt-5-nano": { input: 0.05, output: 0.4 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+};
+
+function parseJsonEnv(name) {
+  const raw = String(process.env[name] || "").trim();
+  if (!raw) return {};
+  try {
+    const obj = JSON.parse(raw);
+    return obj && typeof obj === "object" ? obj : {};
+  } catch {
+    console.warn(`[ai] ${name} não é JSON válido; ignorado`);
+    return {};
+  }
+}
+
+// Exact model name first, then the longest known prefix ("gpt-4o-mini-2024-07-18" → "gpt-4o-mini")
+export function modelPrice(model) {
+  const prices = { ...DEFAULT_PRICES, ...parseJsonEnv("AI_PRICES") };
+  const m = String(model || "").toLowerCase();
+  if (prices[m]) return prices[m];
+  const prefix = Object.keys(prices)
+    .filter((k) => m.startsWith(k))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? prices[prefix] : null;
+}
+
+// Unknown model (e.g. a local openai-compatible one) → 0
+export function estimateCostUsd(model, usage) {
+  const p = modelPrice(model);
+  if (!p) return 0;
+  const cost = (Number(usage?.inputTokens || 0) * Number(p.input || 0) + Number(usage?.outputTokens || 0) * Number(p.output || 0)) / 1e6;
+  return Math.round(cost * 1e6) / 1e6;
+}
+
+// Rough usage (~4 chars per token) when the provider never reported it, e.g. a stream cancelled halfway
+export function estimateUsage(inputText, outputText) {
+  const inputTokens = Math.ceil(String(inputText || "").length / 4);
+  const outputTokens = Math.ceil(String(outputText || "").length / 4);
+  return { inputTokens, outputTokens, totalTokens: inputTokens + outputTokens, estimated: true };
+}
+
+// Budgets are on when AI_DAILY_BUDGET_USD or AI_USER_BUDGETS is set
+export function budgetsConfigured() {
+  return Number(process.env.AI_DAILY_BUDGET_USD || 0) > 0 || Object.keys(parseJsonEnv("AI_USER_BUDGETS")).length > 0;
+}
+
+// Shared daily budget of the callers without x-icc-token (AI_ANONYMOUS_BUDGET_USD); null = not set
+export function anonymousBudgetUsd() {
+  const raw = String(process.env.AI_ANONYMOUS_BUDGET_USD || "").trim();
+  return raw ? Math.max(0, Number(raw) || 0) : null;
+}
+
+/**
+ * Daily budget (USD) of a user: AI_USER_BUDGETS {"ana@empresa.pt": 5} first, then AI_DAILY_BUDGET_USD.
+ * Anonymous callers ("") only get AI_ANONYMOUS_BUDGET_USD. 0 = no limit.
+ */
+export function dailyBudgetUsd(user) {
+  const perUser = parseJsonEnv("AI_USER_BUDGETS");
+  const u = normalizeUser(user);
+  if (!u) return anonymousBudgetUsd() ?? 0;
+  for (const [k, v] of Object.entries(perUser)) {
+    if (normalizeUser(k) === u) return Math.max(0, Number(v) || 0);
+  }
+  return Math.max(0, Number(process.env.AI_DAILY_BUDGET_USD || 0) || 0);
+}
@@ -0,0 +1,150 @@
+// server/src/ai/aiHtml.js
+// Allow-list HTML sanitizer.
+// - AI drafts (sanitizeAiHtml): the tags the prompts ask for, no attributes except a safe <a href>.
+//   The add-in sanitizes again before showing/inserting (defense-in-depth), but this is the one that counts.
+// - Email bodies archived in the Odoo chatter (emailArchive.js): usual formatting, tables and images.
+
+export const ALLOWED_TAGS = new Set(["p", "br", "ul", "ol", "li", "strong", "em", "a"]);
+const AI_ATTRS = { a: ["href"] };
+
+export const EMAIL_ALLOWED_TAGS = new Set([
+  ...ALLOWED_TAGS,
+  "div", "span", "b", "i", "u", "s", "small", "sub", "sup", "blockquote", "pre", "code", "hr", "img",
+  "h1", "h2", "h3", "h4", "h5", "h6",
+  "table", "thead", "tbody", "tfoot", "tr", "td", "th", "caption",
+]);
+const EMAIL_ATTRS = {
+  a: ["href", "title"],
+  img: ["src", "alt", "width", "height"],
+  td: ["colspan", "rowspan"],
+  th: ["colspan", "rowspan"],
+};
+
+const HREF_SCHEMES = ["http:", "https:", "mailto:"];
+const VOID_TAGS = new Set(["br", "hr", "img"]);
+
+// Removed with everything inside (never shown as text)
+const DROP_WITH_CONTENT = [
+  "script", "style", "head", "title", "iframe", "frameset", "object", "embed", "applet", "template", "svg", "math",
+  "noscript", "textarea", "select", "xml",
+];
+// Replaced by <p><strong>…</strong></p> instead of being unwrapped (when not allowed as such)
+const HEADINGS = new Set(["h1", "h2", "h3", "h4", "h5", "h6"]);
+
+function escapeText(s) {
+  return String(s).replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function escapeAttr(s) {
+  return String(s).replace(/&(?!(#\d+|#x[0-9a-f]+|[a-z]+);)/gi, "&amp;").replace(/"/g, "&quot;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+function decodeEntities(s) {
+  return String(s)
+    .replace(/&#x([0-9a-f]+);?/gi, (_, h) => String.fromCodePoint(parseInt(h, 16)))
+    .replace(/&#(\d+);?/g, (_, d) => String.fromCodePoint(Number(d)))
+    .replace(/&colon;/gi, ":")
+    .replace(/&tab;|&newline;/gi, "")
+    .replace(/&amp;/gi, "&");
+}
+
+// Safe href (http/https/mailto, absolute) or null. Entities and control chars are resolved before the
+// scheme check, so "jav&#x61;script:" or "java\tscript:" don't slip through.
+export function safeHref(raw) {
+  const value = decodeEntities(String(raw || "").trim()).replace(/[\u0000- \u007f-\u009f]+/g, "");
+  const m = value.match(/^([a-z][a-z0-9+.-]*):/i);
+  if (!m || !HREF_SCHEMES.includes(`${m[1].toLowerCase()}:`)) return null;
+  if (/^https?:/i.test(value) && !/^https?:\/\/[^/]/i.test(value)) return null;
+  return value;
+}
+
+// Safe image src (http/https, or an inline raster data: image) or null
+function safeSrc(raw) {
+  const value = decodeEntities(String(raw || "").trim()).replace(/[\u0000- \u007f-\u009f]+/g, "");
+  if (/^data:image\/(png|jpe?g|gif|webp);base64,[a-z0-9+/=]+$/i.test(value)) return value;
+  return /^https?:\/\/[^/]/i.test(value) ? value : null;
+}
+
+// "a=1 b='2' c d=\"x\"" (also "/onerror=…" right after the tag name) → [{ name, value }]
+function parseAttrs(attrs) {
+  const out = [];
+  const rx = /([^\s"'<>/=]+)(?:\s*=\s*("([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g;
+  for (const m of String(attrs || "").matchAll(rx)) {
+    out.push({ name: m[1].toLowerCase(), value: m[3] ?? m[4] ?? m[5] ?? "" });
+  }
+  return out;
+}
+
+/**
+ * HTML → { html, removed } keeping only `tags` and, per tag, the attributes in `attrs`
+ * (href must pass safeHref, src safeSrc). Headings not in `tags` become <p><strong>; other tags are
+ * unwrapped (their text stays); stray "<"/">" in text are escaped.
+ * removed: what was dropped, e.g. ["<h3>", "<div>", "style", "href"] (unique; "href"/"src" = unsafe URL)
+ */
+export function sanitizeHtml(input, { tags, attrs = {} }) {
+  const removed = new Set();
+  let s = String(input || "");
+
+  s = s.replace(/<!--[\s\S]*?(-->|$)/g, "");
+  s = s.replace(/<!\[CDATA\[[\s\S]*?(\]\]>|$)/g, "");
+  s = s.replace(/<![^>]*>/g, "");
+  for (const tag of DROP_WITH_CONTENT) {
+    s = s.replace(new RegExp(`<${tag}\\b[\\s\\S]*?(<\\/${tag}\\s*>|$)`, "gi"), () => {
+      removed.add(`<${tag}>`);
+      return "";
+    });
+  }
+
+  // attribute values may hold ">" when quoted
+  const TAG_RX = /<\s*(\/?)\s*([a-z][a-z0-9]*)\b((?:"[^"]*"|'[^']*'|[^<>"'])*)>/gi;
+  let out = "";
+  let last = 0;
+  for (let m; (m = TAG_RX.exec(s)); ) {
+    out += escapeText(s.slice(last, m.index));
+    last = TAG_RX.lastIndex;
+
+    const closing = Boolean(m[1]);
+    const tag = m[2].toLowerCase();
+
+    if (HEADINGS.has(tag) && !tags.has(tag)) {
+      removed.add(`<${tag}>`);
+      out += closing ? "</strong></p>" : "<p><strong>";
+      continue;
+    }
+    if (!tags.has(tag)) {
+      removed.add(`<${tag}>`);
+      continue;
+    }
+    if (closing) {
+      if (!VOID_TAGS.has(tag)) out += `</${tag}>`;
+      continue;
+    }
+
+    let kept = "";
+    for (const { name, value } of parseAttrs(m[3])) {
+      const v = !(attrs[tag] || []).includes(name) ? null : name === "href" ? safeHref(value) : name === "src" ? safeSrc(value) : value;
+      if (v == null) removed.add(name);
+      else kept += ` ${name}="${escapeAttr(v)}"`;
+    }
+    out += `<${tag}${kept}>`;
+  }
+  out += escapeText(s.slice(last));
+
+  return { html: out.trim(), removed: [...removed] };
+}
+
+/**
+ * Model HTML → { html, removed }: only ALLOWED_TAGS, no attributes except <a href> with an allowed
+ * scheme; headings become <p><strong>.
+ */
+export function sanitizeAiHtml(input) {
+  return sanitizeHtml(input, { tags: ALLOWED_TAGS, attrs: AI_ATTRS });
+}
+
+/**
+ * Email body → { html, removed }: EMAIL_ALLOWED_TAGS, links, images (http/https/data:image), table spans.
+ * No style/class/event attributes, no scripts, frames or forms.
+ */
+export function sanitizeEmailBodyHtml(input) {
+  return sanitizeHtml(input, { tags: EMAIL_ALLOWED_TAGS, attrs: EMAIL_ATTRS });
+}
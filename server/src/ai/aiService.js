@@ -1,32 +1,51 @@
 // server/src/ai/aiService.js
 import { getAiConfig } from "./aiConfig.js";
-import { openaiCreateResponse } from "./openaiProvider.js";
+import { estimateUsage } from "./aiCost.js";
+import { chatCompletionsProvider } from "./chatCompletionsProvider.js";
+import { geminiProvider } from "./geminiProvider.js";
+import { openaiProvider } from "./openaiProvider.js";
+
+/**
+ * Provider interface (see openaiProvider.js, geminiProvider.js, chatCompletionsProvider.js):
+ *   name
+ *   createText(cfg, opts)                → { text, usage, raw }
+ *   streamText(cfg, opts, onDelta)       → { text, usage }        onDelta(chunk) as text arrives
+ *   createStructured(cfg, opts + schema) → { data, text, usage, raw }
+ * cfg  = the provider's section of getAiConfig() ({ apiKey, baseUrl, ... })
+ * opts = { model, instructions, input, max_output_tokens, temperature, timeout_ms, signal }
+ * usage = { inputTokens, outputTokens, totalTokens }
+ */
+const PROVIDERS = {
+  openai: openaiProvider,
+  gemini: geminiProvider,
+  "openai-compatible": chatCompletionsProvider,
+};
+
+function keyPresent(cfg, name) {
+  const section = cfg[name];
+  if (!section) return false;
+  return name === "openai-compatible" ? Boolean(section.baseUrl) : Boolean(section.apiKey);
+}
 
 export function getAiMeta() {
   const cfg = getAiConfig();
+  const section = cfg[cfg.provider] || {};
   return {
     enabled: cfg.enabled,
     provider: cfg.provider,
-    keyPresent:
-      cfg.provider === "openai"
-        ? Boolean(cfg.openai.apiKey)
-        : cfg.provider === "gemini"
-        ? Boolean(cfg.gemini.apiKey)
-        : false,
+    keyPresent: keyPresent(cfg, cfg.provider),
+    modelFast: section.modelFast || "",
+    modelQuality: section.modelQuality || "",
+    providers: cfg.allowedProviders.map((name) => ({ name, configured: keyPresent(cfg, name) })),
     openaiModelFast: cfg.openai.modelFast,
     openaiModelQuality: cfg.openai.modelQuality,
-    geminiModel: cfg.gemini.model,
+    geminiModel: cfg.gemini.modelQuality,
   };
 }
 
-export async function aiCreateText({
-  mode = "fast",
-  instructions,
-  input,
-  max_output_tokens = 256,
-  temperature = 0.2,
-}) {
-  const cfg = getAiConfig();
+// Provider + model for a call; `provider` (optional) comes from the request
+function resolve({ provider, mode = "fast" }) {
+  const cfg = getAiConfig({ provider });
 
   if (!cfg.enabled) {
     const err = new Error(
@@ -36,25 +55,81 @@ export async function aiCreateText({
     throw err;
   }
 
-  if (cfg.provider === "openai") {
-    const model = mode === "quality" ? cfg.openai.modelQuality : cfg.openai.modelFast;
-    return await openaiCreateResponse({
-      apiKey: cfg.openai.apiKey,
-      model,
-      instructions,
-      input,
-      max_output_tokens,
-      temperature,
-    });
+  const impl = PROVIDERS[cfg.provider];
+  if (!impl) {
+    const err = new Error(`AI_PROVIDER inválido: ${cfg.provider}`);
+    err.status = 400;
+    throw err;
   }
 
-  if (cfg.provider === "gemini") {
-    const err = new Error("Provider Gemini ainda não implementado neste projeto (stub).");
-    err.status = 501;
-    throw err;
+  const section = cfg[cfg.provider];
+  const model = mode === "quality" ? section.modelQuality : section.modelFast;
+  return { impl, section, model, provider: cfg.provider };
+}
+
+export async function aiCreateText({
+  provider,
+  mode = "fast",
+  instructions,
+  input,
+  max_output_tokens = 256,
+  temperature = 0.2,
+  signal,
+}) {
+  const r = resolve({ provider, mode });
+  const out = await r.impl.createText(r.section, { model: r.model, instructions, input, max_output_tokens, temperature, signal });
+  return { ...out, provider: r.provider, model: r.model };
+}
+
+/**
+ * Same as aiCreateText, calling onDelta(chunk) as the text arrives.
+ * A failed/cancelled stream throws with e.partial = { provider, model, text, usage } (usage estimated
+ * from what was sent and streamed), so the caller can still account for it.
+ */
+export async function aiStreamText(
+  { provider, mode = "fast", instructions, input, max_output_tokens = 256, temperature = 0.2, timeout_ms = 120000, signal },
+  onDelta
+) {
+  const r = resolve({ provider, mode });
+  let streamed = "";
+  try {
+    const out = await r.impl.streamText(
+      r.section,
+      { model: r.model, instructions, input, max_output_tokens, temperature, timeout_ms, signal },
+      (delta) => {
+        streamed += delta;
+        onDelta(delta);
+      }
+    );
+    return { ...out, provider: r.provider, model: r.model };
+  } catch (e) {
+    const partial = { provider: r.provider, model: r.model, text: streamed, usage: estimateUsage(`${instructions || ""}${input || ""}`, streamed) };
+    throw Object.assign(e instanceof Error ? e : new Error(String(e)), { partial });
   }
+}
 
-  const err = new Error(`AI_PROVIDER inválido: ${cfg.provider}`);
-  err.status = 400;
-  throw err;
+// JSON output validated by the provider against `schema` (JSON Schema, strict)
+export async function aiCreateStructured({
+  provider,
+  mode = "fast",
+  instructions,
+  input,
+  schema,
+  schemaName = "result",
+  max_output_tokens = 800,
+  temperature = 0.2,
+  signal,
+}) {
+  const r = resolve({ provider, mode });
+  const out = await r.impl.createStructured(r.section, {
+    model: r.model,
+    instructions,
+    input,
+    schema,
+    schemaName,
+    max_output_tokens,
+    temperature,
+    signal,
+  });
+  return { ...out, provider: r.provider, model: r.model };
 }
@@ -0,0 +1,84 @@
+// server/src/ai/chatCompletionsProvider.js
+// Any OpenAI-compatible Chat Completions server (POST {baseUrl}/chat/completions):
+// Ollama (http://localhost:11434/v1), vLLM, LM Studio, OpenRouter, ...
+
+import { emptyUsage, parseJsonOutput, providerRequest, readJson, readSse } from "./providerHttp.js";
+
+const LABEL = "Chat Completions";
+
+function toUsage(u) {
+  if (!u) return emptyUsage();
+  const inputTokens = Number(u.prompt_tokens || 0);
+  const outputTokens = Number(u.completion_tokens || 0);
+  return { inputTokens, outputTokens, totalTokens: Number(u.total_tokens || inputTokens + outputTokens) };
+}
+
+function messageText(data) {
+  const content = data?.choices?.[0]?.message?.content;
+  if (typeof content === "string") return content.trim();
+  // some servers return content parts
+  if (Array.isArray(content)) return content.map((c) => c?.text || "").join("").trim();
+  return "";
+}
+
+function request(cfg, { model, instructions, input, max_output_tokens = 256, temperature = 0.2, timeout_ms = 60000, signal }, extra, consume) {
+  if (!cfg.baseUrl) throw Object.assign(new Error("OPENAI_COMPAT_BASE_URL em falta"), { status: 400 });
+  if (!model) throw Object.assign(new Error("model em falta"), { status: 400 });
+  if (input == null || input === "") throw Object.assign(new Error("input em falta"), { status: 400 });
+
+  const messages = [];
+  if (instructions) messages.push({ role: "system", content: instructions });
+  messages.push({ role: "user", content: String(input) });
+
+  return providerRequest(
+    LABEL,
+    `${cfg.baseUrl}/chat/completions`,
+    {
+      // self-hosted servers usually don't need a key
+      headers: cfg.apiKey ? { Authorization: `Bearer ${cfg.apiKey}` } : {},
+      body: { model, messages, max_tokens: max_output_tokens, temperature, ...extra },
+      timeout_ms,
+      signal,
+    },
+    consume
+  );
+}
+
+export const chatCompletionsProvider = {
+  name: "openai-compatible",
+
+  async createText(cfg, opts) {
+    return await request(cfg, opts, {}, async (res) => {
+      const data = await readJson(LABEL, res);
+      return { raw: data, text: messageText(data), usage: toUsage(data?.usage) };
+    });
+  },
+
+  async streamText(cfg, opts, onDelta) {
+    const extra = { stream: true, stream_options: { include_usage: true } };
+    return await request(cfg, opts, extra, async (res) => {
+      let text = "";
+      let usage = emptyUsage();
+      await readSse(res, ({ data }) => {
+        if (data === "[DONE]" || !data || typeof data !== "object") return;
+        if (data.error) throw Object.assign(new Error(`${LABEL}: ${data.error.message || data.error}`), { status: 502 });
+        const delta = data.choices?.[0]?.delta?.content;
+        if (typeof delta === "string" && delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (data.usage) usage = toUsage(data.usage);
+      });
+      return { text, usage };
+    });
+  },
+
+  async createStructured(cfg, { schema, schemaName = "result", ...opts }) {
+    const extra = { response_format: { type: "json_schema", json_schema: { name: schemaName, schema, strict: true } } };
+    return await request(cfg, opts, extra, async (res) => {
+      const data = await readJson(LABEL, res);
+      const text = messageText(data);
+      return { raw: data, text, data: parseJsonOutput(LABEL, text), usage: toUsage(data?.usage) };
+    });
+  },
+};
@@ -0,0 +1,130 @@
+// server/src/ai/factCheck.js
+// Post-generation check: numbers, dates, prices and email addresses in a draft that are not in what the
+// model was given (email, conversation, text to rewrite, knowledge notes). Not an error: the add-in
+// highlights them so the user checks before sending.
+
+const MONTHS = [
+  ["janeiro", "january", "enero", "gennaio", "januar", "jan"],
+  ["fevereiro", "february", "febrero", "febbraio", "februar", "feb", "fev"],
+  ["março", "march", "marzo", "märz", "mar"],
+  ["abril", "april", "aprile", "apr", "abr"],
+  ["maio", "may", "mayo", "maggio", "mai"],
+  ["junho", "june", "junio", "giugno", "juni", "jun"],
+  ["julho", "july", "julio", "luglio", "juli", "jul"],
+  ["agosto", "august", "aug", "ago"],
+  ["setembro", "september", "septiembre", "settembre", "sep", "set"],
+  ["outubro", "october", "octubre", "ottobre", "oktober", "oct", "out"],
+  ["novembro", "november", "noviembre", "novembre", "nov"],
+  ["dezembro", "december", "diciembre", "dicembre", "dezember", "dec", "dez"],
+];
+const MONTH_OF = new Map(MONTHS.flatMap((names, i) => names.map((n) => [n, i + 1])));
+const MONTH_RX = [...MONTH_OF.keys()].sort((a, b) => b.length - a.length).join("|");
+
+const EMAIL_RX = /[a-z0-9._%+-]+@[a-z0-9-]+(?:\.[a-z0-9-]+)*\.[a-z]{2,}/gi;
+const CURRENCY = "€|\\$|£|eur(?:os?)?\\b|usd\\b|gbp\\b|dólares\\b|dollars?\\b|libras\\b";
+const AMOUNT = "\\d{1,3}(?:[ .,]\\d{3})+(?:[.,]\\d{1,2})?|\\d+(?:[.,]\\d{1,2})?";
+const PRICE_RX = new RegExp(`(?:(?:€|\\$|£)\\s?(${AMOUNT})|(${AMOUNT})\\s?(?:${CURRENCY}))`, "gi");
+const ISO_DATE_RX = /\b(\d{4})-(\d{1,2})-(\d{1,2})\b/g;
+const NUMERIC_DATE_RX = /\b(\d{1,2})[/.-](\d{1,2})(?:[/.-](\d{4}|\d{2}))?\b/g;
+const DAY_MONTH_RX = new RegExp(`\\b(\\d{1,2})(?:º|st|nd|rd|th)?\\.?\\s+(?:de\\s+|del\\s+|di\\s+)?(${MONTH_RX})\\b`, "giu");
+const MONTH_DAY_RX = new RegExp(`\\b(${MONTH_RX})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, "giu");
+const TIME_RX = /\b([01]?\d|2[0-3])[:h]([0-5]\d)\b/g;
+// phone numbers written in groups ("+351 912 345 678"), checked as one number
+const PHONE_RX = /(?:\+\d{1,3}[ -]?)?\d{2,4}(?:[ -]\d{2,4}){2,}/g;
+const NUMBER_RX = /\d+(?:[.,]\d+)*/g;
+
+// Small counts ("2 dias", "1. …") are everywhere in a reply; only bigger numbers are checked
+const MIN_NUMBER = 10;
+const MAX_WARNINGS = 20;
+
+// "1.200,00" / "1 200" / "1200.00" → "1200"
+function numberKey(raw) {
+  return String(raw).replace(/[.,]0{1,2}$/, "").replace(/\D/g, "");
+}
+
+function dateKey(day, month) {
+  const d = Number(day);
+  const m = Number(month);
+  return d >= 1 && d <= 31 && m >= 1 && m <= 12 ? `${d}-${m}` : "";
+}
+
+// Takes every match of rx out of `text` (so its digits aren't counted again as plain numbers)
+function take(text, rx, fn) {
+  return text.replace(rx, (...m) => {
+    fn(m);
+    return " ";
+  });
+}
+
+/**
+ * Text → facts: [{ type: "email"|"price"|"date"|"number", value (as written), key (normalized) }]
+ * Times ("14:30") count as dates, phone numbers as numbers.
+ */
+export function extractFacts(input) {
+  const facts = [];
+  let text = String(input || "");
+
+  text = take(text, EMAIL_RX, ([v]) => facts.push({ type: "email", value: v, key: v.toLowerCase() }));
+  text = take(text, PRICE_RX, ([v, a, b]) => facts.push({ type: "price", value: v.trim(), key: numberKey(a || b) }));
+  text = take(text, ISO_DATE_RX, ([v, , m, d]) => {
+    const key = dateKey(d, m);
+    if (key) facts.push({ type: "date", value: v, key });
+  });
+  text = take(text, NUMERIC_DATE_RX, ([v, d, m]) => {
+    const key = dateKey(d, m);
+    if (key) facts.push({ type: "date", value: v, key });
+  });
+  text = take(text, DAY_MONTH_RX, ([v, d, month]) => {
+    const key = dateKey(d, MONTH_OF.get(month.toLowerCase()));
+    if (key) facts.push({ type: "date", value: v, key });
+  });
+  text = take(text, MONTH_DAY_RX, ([v, month, d]) => {
+    const key = dateKey(d, MONTH_OF.get(month.toLowerCase()));
+    if (key) facts.push({ type: "date", value: v, key });
+  });
+  text = take(text, TIME_RX, ([v, h, m]) => facts.push({ type: "date", value: v, key: `${Number(h)}:${m}` }));
+  text = take(text, PHONE_RX, ([v]) => facts.push({ type: "number", value: v.trim(), key: v.replace(/\D/g, "") }));
+  for (const [v] of text.matchAll(NUMBER_RX)) {
+    const key = numberKey(v);
+    if (key && Number(key) >= MIN_NUMBER) facts.push({ type: "number", value: v, key });
+  }
+  return facts;
+}
+
+// Long numbers (phones) also match with/without the country code: "912345678" ↔ "351912345678"
+function knownNumber(numbers, key) {
+  if (numbers.has(key)) return true;
+  if (key.length < 9) return false;
+  for (const n of numbers) {
+    if (n.length >= 9 && (n.endsWith(key) || key.endsWith(n))) return true;
+  }
+  return false;
+}
+
+/**
+ * Facts of the draft that the source doesn't have → [{ type, value }] (unique, at most MAX_WARNINGS).
+ * Prices and numbers match any number of the source ("1.200 €" ↔ "1200 euros"); dates match by day+month
+ * in any format ("12/03" ↔ "12 de março"); emails case-insensitively.
+ */
+export function findInventedFacts(draftText, sourceText) {
+  const source = String(sourceText || "");
+  const sourceFacts = extractFacts(source);
+  const emails = new Set(sourceFacts.filter((f) => f.type === "email").map((f) => f.key));
+  const dates = new Set(sourceFacts.filter((f) => f.type === "date").map((f) => f.key));
+  const numbers = new Set([
+    ...[...source.matchAll(NUMBER_RX)].map(([v]) => numberKey(v)),
+    ...sourceFacts.filter((f) => f.type === "price" || f.type === "number").map((f) => f.key),
+  ]);
+
+  const out = [];
+  const seen = new Set();
+  for (const f of extractFacts(draftText)) {
+    const known = f.type === "email" ? emails.has(f.key) : f.type === "date" ? dates.has(f.key) : knownNumber(numbers, f.key);
+    const id = `${f.type}:${f.key}`;
+    if (known || seen.has(id)) continue;
+    seen.add(id);
+    out.push({ type: f.type, value: f.value });
+    if (out.length >= MAX_WARNINGS) break;
+  }
+  return out;
+}
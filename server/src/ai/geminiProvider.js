@@ -0,0 +1,98 @@
+// server/src/ai/geminiProvider.js
+// Google Gemini API (generateContent / streamGenerateContent?alt=sse).
+
+import { emptyUsage, parseJsonOutput, providerRequest, readJson, readSse } from "./providerHttp.js";
+
+const LABEL = "Gemini";
+
+function toUsage(u) {
+  if (!u) return emptyUsage();
+  const inputTokens = Number(u.promptTokenCount || 0);
+  const outputTokens = Number(u.candidatesTokenCount || 0);
+  return { inputTokens, outputTokens, totalTokens: Number(u.totalTokenCount || inputTokens + outputTokens) };
+}
+
+function candidateText(data) {
+  const parts = data?.candidates?.[0]?.content?.parts;
+  return Array.isArray(parts) ? parts.map((p) => (typeof p?.text === "string" ? p.text : "")).join("") : "";
+}
+
+// A blocked prompt/answer comes back as 200 without text
+function assertNotBlocked(data) {
+  const reason = data?.promptFeedback?.blockReason || (data?.candidates?.[0]?.finishReason === "SAFETY" ? "SAFETY" : "");
+  if (reason) throw Object.assign(new Error(`${LABEL}: resposta bloqueada (${reason})`), { status: 422 });
+}
+
+// Gemini's responseSchema is an OpenAPI subset: drop the JSON Schema keywords it rejects
+function toGeminiSchema(schema) {
+  if (Array.isArray(schema)) return schema.map(toGeminiSchema);
+  if (!schema || typeof schema !== "object") return schema;
+  const out = {};
+  for (const [k, v] of Object.entries(schema)) {
+    if (k === "additionalProperties" || k === "$schema" || k === "$id" || k === "title") continue;
+    out[k] = k === "properties" ? Object.fromEntries(Object.entries(v || {}).map(([p, s]) => [p, toGeminiSchema(s)])) : toGeminiSchema(v);
+  }
+  return out;
+}
+
+function request(cfg, method, { model, instructions, input, max_output_tokens = 256, temperature = 0.2, timeout_ms = 60000, signal }, generationConfig, consume) {
+  if (!cfg.apiKey) throw Object.assign(new Error("GEMINI_API_KEY em falta"), { status: 400 });
+  if (!model) throw Object.assign(new Error("model em falta"), { status: 400 });
+  if (input == null || input === "") throw Object.assign(new Error("input em falta"), { status: 400 });
+
+  return providerRequest(
+    LABEL,
+    `${cfg.baseUrl}/models/${encodeURIComponent(model)}:${method}`,
+    {
+      headers: { "x-goog-api-key": cfg.apiKey },
+      body: {
+        systemInstruction: instructions ? { parts: [{ text: instructions }] } : undefined,
+        contents: [{ role: "user", parts: [{ text: String(input) }] }],
+        generationConfig: { maxOutputTokens: max_output_tokens, temperature, ...generationConfig },
+      },
+      timeout_ms,
+      signal,
+    },
+    consume
+  );
+}
+
+export const geminiProvider = {
+  name: "gemini",
+
+  async createText(cfg, opts) {
+    return await request(cfg, "generateContent", opts, {}, async (res) => {
+      const data = await readJson(LABEL, res);
+      assertNotBlocked(data);
+      return { raw: data, text: candidateText(data).trim(), usage: toUsage(data?.usageMetadata) };
+    });
+  },
+
+  async streamText(cfg, opts, onDelta) {
+    return await request(cfg, "streamGenerateContent?alt=sse", opts, {}, async (res) => {
+      let text = "";
+      let usage = emptyUsage();
+      await readSse(res, ({ data }) => {
+        if (!data || typeof data !== "object") return;
+        assertNotBlocked(data);
+        const delta = candidateText(data);
+        if (delta) {
+          text += delta;
+          onDelta(delta);
+        }
+        if (data.usageMetadata) usage = toUsage(data.usageMetadata);
+      });
+      return { text, usage };
+    });
+  },
+
+  async createStructured(cfg, { schema, schemaName: _name, ...opts }) {
+    const generationConfig = { responseMimeType: "application/json", responseSchema: toGeminiSchema(schema) };
+    return await request(cfg, "generateContent", opts, generationConfig, async (res) => {
+      const data = await readJson(LABEL, res);
+      assertNotBlocked(data);
+      const text = candidateText(data).trim();
+      return { raw: data, text, data: parseJsonOutput(LABEL, text), usage: toUsage(data?.usageMetadata) };
+    });
+  },
+};
@@ -0,0 +1,124 @@
+// server/src/ai/knowledge.js
+// Knowledge base retrieval for prompts: BM25 over title/tags/body of the shared notes
+// (knowledgeStore.js), prompt block with [K1]… references and parsing of the notes the model used.
+
+const TOP_K = 4;
+const MIN_SCORE = 0.5;
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+// Title and tags count more than the body
+const TITLE_WEIGHT = 2;
+const TAG_WEIGHT = 2;
+
+const STOPWORDS = new Set(
+  (
+    "a o os as um uma uns umas de do da dos das em no na nos nas por para com sem que se e ou mas " +
+    "ao aos à às é são foi ser ter tem como mais menos muito já não sim eu tu ele ela nós vós eles elas " +
+    "me te lhe nos vos lhes meu minha seu sua este esta isto esse essa isso aquele aquela obrigado cumprimentos " +
+    "the an of to in on for with and or but is are was be have has as at by from this that it we you they i not " +
+    "el la los las del y por con para es una"
+  ).split(" ")
+);
+
+export function tokenize(text) {
+  return String(text || "")
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .split(/[^a-z0-9]+/)
+    .filter((t) => t.length > 1 && !STOPWORDS.has(t));
+}
+
+function docTokens(entry) {
+  const tokens = [];
+  for (let i = 0; i < TITLE_WEIGHT; i++) tokens.push(...tokenize(entry.title));
+  for (let i = 0; i < TAG_WEIGHT; i++) tokens.push(...tokenize((entry.tags || []).join(" ")));
+  tokens.push(...tokenize(entry.body));
+  return tokens;
+}
+
+/**
+ * BM25 ranking of `entries` for `query` (free text).
+ * Returns [{ entry, score }] by descending score, only scores > 0.
+ */
+export function rankKnowledge(entries, query) {
+  const q = [...new Set(tokenize(query))];
+  if (!q.length || !entries.length) return [];
+
+  const docs = entries.map((entry) => {
+    const tokens = docTokens(entry);
+    const tf = new Map();
+    for (const t of tokens) tf.set(t, (tf.get(t) || 0) + 1);
+    return { entry, tf, len: tokens.length };
+  });
+  const avgLen = docs.reduce((n, d) => n + d.len, 0) / docs.length || 1;
+
+  const df = new Map();
+  for (const t of q) df.set(t, docs.filter((d) => d.tf.has(t)).length);
+
+  return docs
+    .map((d) => {
+      let score = 0;
+      for (const t of q) {
+        const f = d.tf.get(t);
+        if (!f) continue;
+        const n = df.get(t);
+        const idf = Math.log(1 + (docs.length - n + 0.5) / (n + 0.5));
+        score += (idf * f * (BM25_K1 + 1)) / (f + BM25_K1 * (1 - BM25_B + (BM25_B * d.len) / avgLen));
+      }
+      return { entry: d.entry, score };
+    })
+    .filter((r) => r.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Notes for a prompt: every pinned entry + the top retrieved ones for the email.
+ * Returns [{ ref: "K1", id, title, body, pinned, score }].
+ */
+export function selectKnowledge(entries, query) {
+  const pinned = entries.filter((e) => e.pinned);
+  const ranked = rankKnowledge(
+    entries.filter((e) => !e.pinned),
+    query
+  )
+    .filter((r) => r.score >= MIN_SCORE)
+    .slice(0, TOP_K);
+
+  return [...pinned.map((entry) => ({ entry, score: null })), ...ranked].map(({ entry, score }, i) => ({
+    ref: `K${i + 1}`,
+    id: entry.id,
+    title: entry.title,
+    body: entry.body,
+    pinned: Boolean(entry.pinned),
+    score: score == null ? null : Math.round(score * 100) / 100,
+  }));
+}
+
+// Prompt block; the model reports the notes it used in a trailing HTML comment (parsed by extractCitations)
+export function knowledgeBlock(notes) {
+  if (!notes?.length) return "";
+  const list = notes.map((n) => `[${n.ref}] ${n.title || "(sem título)"}\n${n.body}`).join("\n\n");
+  return `
+
+BASE DE CONHECIMENTO DA EQUIPA (usa só o que for relevante para este email; nunca contradigas estas notas):
+${list}
+
+No fim da resposta, numa linha à parte, indica as notas que usaste neste formato exato: <!-- notas: K1, K2 -->
+(ou <!-- notas: --> se não usaste nenhuma). Não escrevas as referências [K…] no texto.
+`;
+}
+
+/** Splits the trailing "<!-- notas: … -->" off the model output → { text, refs } */
+export function extractCitations(text) {
+  const s = String(text || "");
+  const m = s.match(/<!--\s*notas:([^>]*?)-->/i);
+  if (!m) return { text: s, refs: [] };
+  const refs = [...new Set((m[1].match(/K\d+/gi) || []).map((r) => r.toUpperCase()))];
+  return { text: (s.slice(0, m.index) + s.slice(m.index + m[0].length)).trim(), refs };
+}
+
+// Response shape for the client: the notes sent with the prompt, flagged when the model cited them
+export function knowledgeUsage(notes, refs) {
+  return (notes || []).map(({ ref, id, title, pinned, score }) => ({ ref, id, title, pinned, score, cited: refs.includes(ref) }));
+}
@@ -0,0 +1,42 @@
+// server/src/ai/language.js
+// Cheap language guess (stopword counts) for the languages the add-in writes in.
+// Good enough to tell pt/es/en/it/de apart in an email or a draft; not a general detector.
+
+const STOPWORDS = {
+  pt: ["que", "não", "uma", "para", "com", "os", "as", "do", "da", "dos", "das", "em", "no", "na", "ao", "é", "são", "está", "obrigado", "cumprimentos", "pode", "podem", "também", "mais", "já", "se", "por", "pelo", "pela", "seu", "sua", "vocês", "nós", "isso", "este", "esta", "então"],
+  es: ["que", "no", "una", "para", "con", "los", "las", "del", "el", "la", "en", "es", "son", "está", "gracias", "saludos", "puede", "pueden", "también", "más", "ya", "por", "su", "sus", "nosotros", "usted", "ustedes", "este", "esta", "muy", "pero", "como", "y"],
+  en: ["the", "and", "to", "of", "a", "in", "is", "are", "for", "with", "that", "this", "you", "we", "our", "your", "please", "thanks", "regards", "can", "could", "will", "would", "be", "on", "at", "it", "not", "have", "has"],
+  it: ["che", "non", "una", "per", "con", "gli", "il", "lo", "la", "le", "di", "del", "della", "in", "è", "sono", "grazie", "saluti", "può", "possono", "anche", "più", "già", "ci", "vi", "suo", "sua", "noi", "questo", "questa", "e"],
+  de: ["der", "die", "das", "und", "nicht", "ein", "eine", "für", "mit", "ist", "sind", "zu", "den", "dem", "des", "im", "auf", "danke", "grüße", "können", "auch", "mehr", "schon", "wir", "sie", "ihr", "ihre", "bitte", "ich", "es"],
+};
+
+export const LANGUAGE_CODES = Object.keys(STOPWORDS);
+
+// "pt-PT" → "pt", "auto" / unknown → ""
+export function localeLanguage(locale) {
+  const code = String(locale || "").slice(0, 2).toLowerCase();
+  return LANGUAGE_CODES.includes(code) ? code : "";
+}
+
+/**
+ * Best language of a text → "pt" | "es" | "en" | "it" | "de" | "" (too short / no clear winner).
+ * HTML tags are ignored.
+ */
+export function detectLanguage(text) {
+  const words = String(text || "")
+    .replace(/<[^>]+>/g, " ")
+    .toLowerCase()
+    .match(/[\p{L}]+/gu);
+  if (!words || words.length < 4) return "";
+
+  const sets = Object.fromEntries(LANGUAGE_CODES.map((c) => [c, new Set(STOPWORDS[c])]));
+  const scores = Object.fromEntries(LANGUAGE_CODES.map((c) => [c, 0]));
+  for (const w of words) {
+    for (const c of LANGUAGE_CODES) if (sets[c].has(w)) scores[c]++;
+  }
+
+  const ranked = Object.entries(scores).sort((a, b) => b[1] - a[1]);
+  const [best, second] = ranked;
+  if (!best[1] || best[1] === second[1]) return "";
+  return best[0];
+}
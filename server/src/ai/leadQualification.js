@@ -0,0 +1,66 @@
+// server/src/ai/leadQualification.js
+// "qualify" action: inbound email → typed lead (every field with the model's confidence 0..1),
+// JSON validated against LEAD_SCHEMA. The add-in only uses it to prefill the lead form.
+
+export const LEAD_FIELDS = ["company", "contactName", "email", "phone", "productInterest", "quantities", "budget", "urgency"];
+
+export const URGENCY_VALUES = ["", "baixa", "média", "alta"];
+
+const field = (description, extra = {}) => ({
+  type: "object",
+  additionalProperties: false,
+  required: ["value", "confidence"],
+  properties: {
+    value: { type: "string", description, ...extra },
+    confidence: { type: "number", description: "0 a 1: quão explícito está no email (0 = não indicado)" },
+  },
+});
+
+export const LEAD_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: LEAD_FIELDS,
+  properties: {
+    company: field("Empresa do remetente/cliente"),
+    contactName: field("Nome da pessoa de contacto"),
+    email: field("Email de contacto"),
+    phone: field("Telefone de contacto"),
+    productInterest: field("Produto/serviço pedido"),
+    quantities: field("Quantidades/medidas pedidas (texto livre)"),
+    budget: field("Orçamento indicado, com moeda"),
+    urgency: field("Urgência do pedido", { enum: URGENCY_VALUES }),
+  },
+};
+
+export function qualifyPrompt({ email }) {
+  return `Qualifica este email como possível lead comercial.
+Extrai empresa, contacto, email, telefone, produto de interesse, quantidades, orçamento e urgência.
+Usa apenas o que está no email (incluindo a assinatura). NUNCA inventes: campo não indicado → value "" e confidence 0.
+confidence: 0.9–1 quando está escrito explicitamente, 0.5–0.8 quando é deduzido (ex.: empresa pelo domínio do email).
+urgency: "alta" (prazo curto/pedido urgente), "média", "baixa", ou "" se não houver indícios.
+
+EMAIL:
+Assunto: ${email?.subject || ""}
+De: ${email?.from || ""}
+Corpo (texto limpo):
+${email?.bodyText || ""}
+`;
+}
+
+/** Validates the model output → { [field]: { value, confidence } } (confidence clamped to 0..1, 0 when empty). */
+export function normalizeLead(data) {
+  if (!data || typeof data !== "object") {
+    throw Object.assign(new Error("Resposta da IA sem lead válido"), { status: 502 });
+  }
+
+  const lead = {};
+  for (const k of LEAD_FIELDS) {
+    const f = data[k];
+    let value = typeof f?.value === "string" ? f.value.trim() : "";
+    if (k === "urgency" && !URGENCY_VALUES.includes(value.toLowerCase())) value = "";
+    const c = Number(f?.confidence);
+    const confidence = value && Number.isFinite(c) ? Math.round(Math.min(1, Math.max(0, c)) * 100) / 100 : 0;
+    lead[k] = { value: k === "urgency" ? value.toLowerCase() : value, confidence };
+  }
+  return lead;
+}
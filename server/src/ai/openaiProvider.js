@@ -1,7 +1,11 @@
 // server/src/ai/openaiProvider.js
-// Uses native fetch (Node 18+) to avoid axios dependency issues.
+// OpenAI Responses API (POST {baseUrl}/responses). Uses native fetch (Node 18+).
 // Returns structured errors (never crashes the process).
 
+import { emptyUsage, parseJsonOutput, providerRequest, readJson, readSse } from "./providerHttp.js";
+
+const LABEL = "OpenAI";
+
 function extractTextFromResponses(data) {
   if (!data) return "";
   if (typeof data.output_text === "string") return data.output_text;
@@ -19,70 +23,75 @@ function extractTextFromResponses(data) {
   return chunks.join("\n").trim();
 }
 
-export async function openaiCreateResponse({
-  apiKey,
-  model,
-  instructions,
-  input,
-  max_output_tokens = 256,
-  temperature = 0.2,
-  timeout_ms = 60000,
-}) {
-  if (!apiKey) throw Object.assign(new Error("OPENAI_API_KEY em falta"), { status: 400 });
+function toUsage(u) {
+  if (!u) return emptyUsage();
+  return {
+    inputTokens: Number(u.input_tokens || 0),
+    outputTokens: Number(u.output_tokens || 0),
+    totalTokens: Number(u.total_tokens || 0),
+  };
+}
+
+function request(cfg, { model, instructions, input, max_output_tokens = 256, temperature = 0.2, timeout_ms = 60000, signal }, extra, consume) {
+  if (!cfg.apiKey) throw Object.assign(new Error("OPENAI_API_KEY em falta"), { status: 400 });
   if (!model) throw Object.assign(new Error("model em falta"), { status: 400 });
   if (input == null || input === "") throw Object.assign(new Error("input em falta"), { status: 400 });
 
-  const controller = new AbortController();
-  const t = setTimeout(() => controller.abort(), timeout_ms);
-
-  try {
-    const res = await fetch("https://api.openai.com/v1/responses", {
-      method: "POST",
-      headers: {
-        Authorization: `Bearer ${apiKey}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
+  return providerRequest(
+    LABEL,
+    `${cfg.baseUrl}/responses`,
+    {
+      headers: { Authorization: `Bearer ${cfg.apiKey}` },
+      body: {
         model,
         instructions: instructions || undefined,
         input,
         max_output_tokens,
         temperature,
-      }),
-      signal: controller.signal,
-    });
+        ...extra,
+      },
+      timeout_ms,
+      signal,
+    },
+    consume
+  );
+}
 
-    const text = await res.text();
-    let data;
-    try { data = text ? JSON.parse(text) : null; } catch { data = { raw_text: text }; }
+export const openaiProvider = {
+  name: "openai",
 
-    if (!res.ok) {
-      const msg =
-        data?.error?.message ||
-        (typeof data?.message === "string" ? data.message : "") ||
-        `OpenAI HTTP ${res.status}`;
-      const err = new Error(msg);
-      err.status = res.status;
-      err.details = data;
-      throw err;
-    }
+  async createText(cfg, opts) {
+    return await request(cfg, opts, {}, async (res) => {
+      const data = await readJson(LABEL, res);
+      return { raw: data, text: extractTextFromResponses(data), usage: toUsage(data?.usage) };
+    });
+  },
 
-    return { raw: data, text: extractTextFromResponses(data) };
-  } catch (e) {
-    // Normalize common errors
-    if (e?.name === "AbortError") {
-      const err = new Error("OpenAI timeout (abort)");
-      err.status = 504;
-      throw err;
-    }
-    // Some network errors can be ECONNRESET; we still return a clean JSON error to the client.
-    if (e?.code === "ECONNRESET") {
-      const err = new Error("OpenAI network ECONNRESET (ligação foi reiniciada)");
-      err.status = 502;
-      throw err;
-    }
-    throw e;
-  } finally {
-    clearTimeout(t);
-  }
-}
+  async streamText(cfg, opts, onDelta) {
+    return await request(cfg, opts, { stream: true }, async (res) => {
+      let text = "";
+      let usage = emptyUsage();
+      await readSse(res, ({ data }) => {
+        if (data?.type === "response.output_text.delta" && typeof data.delta === "string") {
+          text += data.delta;
+          onDelta(data.delta);
+        } else if (data?.type === "response.completed") {
+          usage = toUsage(data.response?.usage);
+        } else if (data?.type === "error" || data?.type === "response.failed") {
+          const msg = data?.error?.message || data?.response?.error?.message || "falha no stream";
+          throw Object.assign(new Error(`${LABEL}: ${msg}`), { status: 502 });
+        }
+      });
+      return { text, usage };
+    });
+  },
+
+  async createStructured(cfg, { schema, schemaName = "result", ...opts }) {
+    const format = { type: "json_schema", name: schemaName, schema, strict: true };
+    return await request(cfg, opts, { text: { format } }, async (res) => {
+      const data = await readJson(LABEL, res);
+      const text = extractTextFromResponses(data);
+      return { raw: data, text, data: parseJsonOutput(LABEL, text), usage: toUsage(data?.usage) };
+    });
+  },
+};
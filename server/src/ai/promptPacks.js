@@ -0,0 +1,195 @@
+// server/src/ai/promptPacks.js
+// Named, versioned prompt packs (server/config/prompts/*.json) used by buildPrompt (promptTemplates.js).
+// Pack id = "name@version"; "name" alone = its highest version.
+
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_PROMPTS_DIR = path.join(__dirname, "..", "..", "config", "prompts");
+
+/**
+ * Pack file (one per version; AI_PROMPTS_DIR overrides the directory):
+ * {
+ *   "name": "default", "version": "2", "description": "...",
+ *   "languages": { "<locale>": "<name shown to the model>" },
+ *   "templates": {
+ *     "language":     "Escreve em {{language}}."          fixed locale
+ *     "languageAuto": "..."                                 locale "auto"
+ *     "rules":        "..."                                 always sent
+ *     "tone":         "Tom: {{tone}}."
+ *     "length":       "Extensão: {{lengthRule}}"            reply/rewrite (replyLength.js)
+ *     "summaryLanguage": "... {{language}}"                 summaries not in pt-PT (the headings are Portuguese)
+ *     "bilingual":    "..."                                 summaries with key quotes in the original language
+ *     "email":        "... {{subject}} {{from}} {{to}} {{cc}} {{bodyText}}"
+ *     "actions": { summarize, summarize_thread, reply, rewrite, tasks }   task text; {{email}} = email block
+ *   }
+ * }
+ * Every template is a string or a list of lines (joined with "\n"). Placeholders are replaced in one pass,
+ * so "{{...}}" inside the email body is left as is.
+ * Validated once at boot (with AI_PROMPT_PACK / AI_PROMPT_AB); an invalid pack stops the server.
+ */
+export const PACK_ACTIONS = ["summarize", "summarize_thread", "reply", "rewrite", "tasks"];
+const TEMPLATES = ["language", "languageAuto", "rules", "tone", "length", "summaryLanguage", "bilingual", "email"];
+const NAME_RX = /^[a-z0-9][a-z0-9_-]*$/;
+const VERSION_RX = /^\d+$/;
+
+let packs = null;
+
+function packError(msg) {
+  return new Error(`[promptPacks] ${msg}`);
+}
+
+function badRequest(msg) {
+  return Object.assign(new Error(msg), { status: 400 });
+}
+
+function templateText(value, where) {
+  if (typeof value === "string") return value;
+  if (Array.isArray(value) && value.every((l) => typeof l === "string")) return value.join("\n");
+  throw packError(`${where}: tem de ser texto ou lista de linhas`);
+}
+
+export function validatePromptPack(raw, file = "") {
+  const name = String(raw?.name || "");
+  const version = String(raw?.version ?? "");
+  if (!NAME_RX.test(name)) throw packError(`${file}: nome inválido ${JSON.stringify(raw?.name)}`);
+  if (!VERSION_RX.test(version)) throw packError(`${file}: versão inválida ${JSON.stringify(raw?.version)}`);
+  const id = `${name}@${version}`;
+
+  const languages = raw.languages ?? {};
+  if (!languages || typeof languages !== "object" || Array.isArray(languages)) throw packError(`${id}.languages inválido`);
+  for (const [k, v] of Object.entries(languages)) {
+    if (typeof v !== "string") throw packError(`${id}.languages.${k} tem de ser texto`);
+  }
+
+  const t = raw.templates;
+  if (!t || typeof t !== "object") throw packError(`${id}.templates em falta`);
+  const templates = { actions: {} };
+  for (const key of TEMPLATES) templates[key] = templateText(t[key], `${id}.templates.${key}`);
+
+  const actions = t.actions;
+  if (!actions || typeof actions !== "object") throw packError(`${id}.templates.actions em falta`);
+  for (const key of Object.keys(actions)) {
+    if (!PACK_ACTIONS.includes(key)) throw packError(`${id}.templates.actions: ação desconhecida '${key}'`);
+  }
+  for (const key of PACK_ACTIONS) templates.actions[key] = templateText(actions[key], `${id}.templates.actions.${key}`);
+
+  return { id, name, version, description: String(raw.description || ""), languages: { ...languages }, templates };
+}
+
+// "default@1=50,default@2=50" → [{ id, weight }]
+function parseAbSplit(raw) {
+  return String(raw || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean)
+    .map((part) => {
+      const [id, weight] = part.split("=").map((s) => s.trim());
+      const w = Number(weight);
+      if (!id || !Number.isFinite(w) || w <= 0) throw packError(`AI_PROMPT_AB inválido: '${part}'`);
+      return { id, weight: w };
+    });
+}
+
+function defaultPackId() {
+  return String(process.env.AI_PROMPT_PACK || "default@1").trim();
+}
+
+export function loadPromptPacks() {
+  if (packs) return packs;
+  const dir = process.env.AI_PROMPTS_DIR || DEFAULT_PROMPTS_DIR;
+  let files;
+  try {
+    files = fs.readdirSync(dir).filter((f) => f.endsWith(".json")).sort();
+  } catch (e) {
+    throw packError(`não foi possível ler ${dir}: ${e?.message || e}`);
+  }
+
+  const loaded = new Map();
+  for (const f of files) {
+    let raw;
+    try {
+      raw = JSON.parse(fs.readFileSync(path.join(dir, f), "utf-8"));
+    } catch (e) {
+      throw packError(`${f}: ${e?.message || e}`);
+    }
+    const pack = validatePromptPack(raw, f);
+    if (loaded.has(pack.id)) throw packError(`${pack.id} repetido (${f})`);
+    loaded.set(pack.id, pack);
+  }
+  if (!loaded.size) throw packError(`nenhum pack em ${dir}`);
+
+  packs = loaded;
+  for (const id of [defaultPackId(), ...parseAbSplit(process.env.AI_PROMPT_AB).map((s) => s.id)]) {
+    if (!findPromptPack(id)) {
+      packs = null;
+      throw packError(`pack desconhecido: ${id}`);
+    }
+  }
+  console.log(`[promptPacks] ${[...loaded.keys()].join(", ")} (${dir})`);
+  return packs;
+}
+
+// "name@version" or "name" (highest version) → pack | null
+export function findPromptPack(ref) {
+  const all = loadPromptPacks();
+  const s = String(ref || "").trim();
+  if (s.includes("@")) return all.get(s) || null;
+  let best = null;
+  for (const p of all.values()) {
+    if (p.name === s && (!best || Number(p.version) > Number(best.version))) best = p;
+  }
+  return best;
+}
+
+// AI_PROMPT_PACK (no A/B): prompts built outside a request (eval, defaults)
+export function defaultPromptPack() {
+  return findPromptPack(defaultPackId());
+}
+
+export function listPromptPacks() {
+  return [...loadPromptPacks().values()].map(({ id, name, version, description }) => ({ id, name, version, description }));
+}
+
+/**
+ * Pack for a request:
+ * - `requested` (body.promptVersion) → that pack ("explicit"); unknown → 400;
+ * - AI_PROMPT_AB → weighted split, stable per `seed` (user) ("ab");
+ * - else AI_PROMPT_PACK (default "default@1") ("default").
+ * Returns { pack, assignment }.
+ */
+export function selectPromptPack({ requested, seed } = {}) {
+  const ref = String(requested || "").trim();
+  if (ref) {
+    const pack = findPromptPack(ref);
+    if (!pack) throw badRequest(`promptVersion desconhecida: ${ref}`);
+    return { pack, assignment: "explicit" };
+  }
+
+  const split = parseAbSplit(process.env.AI_PROMPT_AB);
+  if (split.length) {
+    const total = split.reduce((s, x) => s + x.weight, 0);
+    const hash = crypto.createHash("sha256").update(String(seed || Math.random())).digest();
+    let point = (hash.readUInt32BE(0) / 0x100000000) * total;
+    for (const { id, weight } of split) {
+      if (point < weight) return { pack: findPromptPack(id), assignment: "ab" };
+      point -= weight;
+    }
+    return { pack: findPromptPack(split.at(-1).id), assignment: "ab" };
+  }
+
+  return { pack: defaultPromptPack(), assignment: "default" };
+}
+
+// What the response / ledger records about the pack used
+export function promptInfo({ pack, assignment }) {
+  return { id: pack.id, name: pack.name, version: pack.version, assignment };
+}
+
+// {{key}} → vars[key] in a single pass (unknown keys stay as they are)
+export function renderTemplate(template, vars) {
+  return String(template).replace(/\{\{(\w+)\}\}/g, (m, key) => (key in vars ? String(vars[key] ?? "") : m));
+}
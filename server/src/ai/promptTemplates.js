@@ -1,120 +1,84 @@
 // server/src/ai/promptTemplates.js
 // Centralized prompt templates for the "MailMaestro-like" features.
-// Keep these versioned and isolated from Odoo/CRM code.
+// The texts live in versioned prompt packs (server/config/prompts, see promptPacks.js), isolated from Odoo/CRM code.
 
-export function buildPrompt({ action, locale = "pt-PT", tone = "neutro", email, inputText }) {
-  const LOCALE_HUMAN = {
-    "pt-PT": "Português (Portugal)",
-    "es-ES": "Espanhol",
-    "en-GB": "Inglês",
-    "it-IT": "Italiano",
-    "de-DE": "Alemão",
-    auto: "Auto",
-  };
+import { lengthSpec } from "./replyLength.js";
+import { defaultPromptPack, renderTemplate } from "./promptPacks.js";
+
+/**
+ * Final instructions for an action, from a prompt pack (ai/promptPacks.js; default = AI_PROMPT_PACK).
+ * Layout: language line + rules + tone (+ length) + task text; {{email}} in the task = the email block.
+ * "summarize_thread": email.bodyText is the conversation transcript (ai/threadSource.js → threadTranscript)
+ */
+export function buildPrompt({ action, locale = "pt-PT", tone = "neutro", length = "m", email, inputText, bilingual = false, pack }) {
+  const { templates: t, languages } = pack || defaultPromptPack();
 
   // ---- Language rules ----
-  // Summaries are ALWAYS in Portuguese (Portugal) regardless of user selection.
-  const isSummary = action === "summarize";
-  const effectiveLocale = isSummary ? "pt-PT" : (locale || "pt-PT");
+  // Summaries follow the locale too (the add-in sends the user's reading language); `bilingual` adds
+  // key quotes in the original language.
+  const isSummary = action === "summarize" || action === "summarize_thread";
+  const effectiveLocale = locale || "pt-PT";
 
   // Human label (only for fixed languages)
-  const lang = LOCALE_HUMAN[effectiveLocale] || effectiveLocale;
+  const lang = languages[effectiveLocale] || effectiveLocale;
 
   // IMPORTANT:
   // - For "auto" replies, instruct model to answer in the same language as the email
   // - For non-auto, force the requested language
-  const languageLine =
-    effectiveLocale === "auto"
-      ? `Responde no mesmo idioma em que o email está escrito.
-Mantém tom profissional e objetivo.
-`
-      : `Escreve em ${lang}.
-`;
-
-  const rules =
-    languageLine +
-    `NUNCA inventes factos, números, prazos, preços ou compromissos. Se faltar informação, faz perguntas curtas.
-` +
-    `Devolve HTML simples e seguro: usa apenas <p>, <br>, <ul>, <ol>, <li>, <strong>, <em>, <a>.
-` +
-    `Sem CSS, sem estilos inline, sem classes, sem scripts.
-` +
-    `Evita linhas enormes: parágrafos curtos.
-`;
-
-  const toneLine = `Tom: ${tone}.`;
-
-  const emailBlock = email
-    ? `
-
-CONTEXTO DO EMAIL:
-Assunto: ${email.subject || ""}
-De: ${email.from || ""}
-Para: ${(email.to || []).join("; ")}
-Cc: ${(email.cc || []).join("; ")}
-Corpo (texto limpo):
-${email.bodyText || ""}
-`
-    : "";
-
-  if (action === "summarize") {
-    return (
-      rules +
-      toneLine +
-      `
-
-TAREFA: Resume o email em 5–8 bullets e propõe 3–6 próximos passos (bullets).
-Estrutura obrigatória:
-<p><strong>Resumo</strong></p><ul>...</ul>
-<p><strong>Próximos passos</strong></p><ul>...</ul>
-<p><strong>Perguntas (se necessário)</strong></p><ul>...</ul>` +
-      emailBlock
-    );
+  const languageLine = (effectiveLocale === "auto" ? t.languageAuto : renderTemplate(t.language, { language: lang })) + "\n";
+  const rules = languageLine + t.rules + "\n";
+
+  // Reply/rewrite only: size asked by the user (see replyLength.js)
+  const spec = lengthSpec(action, length);
+  let toneLine = renderTemplate(t.tone, { tone }) + (spec ? "\n" + renderTemplate(t.length, { lengthRule: spec.rule }) : "");
+  if (isSummary && effectiveLocale !== "pt-PT" && effectiveLocale !== "auto") {
+    toneLine += "\n" + renderTemplate(t.summaryLanguage, { language: lang });
   }
+  if (isSummary && bilingual) toneLine += "\n" + t.bilingual;
+
+  const vars = {
+    subject: email?.subject || "",
+    from: email?.from || "",
+    to: (email?.to || []).join("; "),
+    cc: (email?.cc || []).join("; "),
+    bodyText: email?.bodyText || "",
+    inputText: inputText || "",
+  };
+  const emailBlock = email ? "\n\n" + renderTemplate(t.email, vars) + "\n" : "";
 
-  if (action === "reply") {
-    return (
-      rules +
-      toneLine +
-      `
-
-TAREFA: Cria uma resposta sugerida ao email.
-Regras extra:
-- Mantém o assunto implícito (não repitas "Re:").
-- Usa uma saudação adequada.
-- Se for preciso, faz 1–3 perguntas objetivas.
-- Termina com fecho profissional.` +
-      emailBlock
-    );
-  }
-
-  if (action === "rewrite") {
-    return (
-      rules +
-      toneLine +
-      `
-
-TAREFA: Reescreve o texto abaixo mantendo o significado, mas ajustando ao tom.
-Texto para reescrever:
-${inputText || ""}
-`
-    );
-  }
+  // the thread summary has nothing to summarize without the transcript
+  const task = action === "summarize_thread" && !email ? null : t.actions[action];
+  if (task == null) return rules + toneLine + emailBlock; // default (safe)
 
-  if (action === "tasks") {
-    return (
-      rules +
-      toneLine +
-      `
+  return rules + toneLine + "\n\n" + renderTemplate(task, { ...vars, email: emailBlock });
+}
 
-TAREFA: Extrai tarefas/ações do email (checklist) e identifica responsáveis (se possível) e prazos (se explícitos).
-Estrutura:
-<p><strong>Tarefas</strong></p><ul>...</ul>
-<p><strong>Riscos/Dependências</strong></p><ul>...</ul>` +
-      emailBlock
-    );
-  }
+// Labelled drafts for /generate { variants: n }: one provider call per intent.
+// `label` is the stable key returned to the client, `title` is what the UI shows.
+const VARIANT_INTENTS = {
+  reply: [
+    { label: "accept", title: "Aceitar", directive: "A resposta aceita/confirma o que é pedido no email." },
+    { label: "decline", title: "Recusar", directive: "A resposta recusa educadamente o que é pedido, sem fechar a porta a futuras oportunidades." },
+    { label: "ask_info", title: "Pedir informação", directive: "A resposta não decide ainda: pede as informações em falta para poder avançar." },
+  ],
+  rewrite: [
+    { label: "formal", title: "Formal", directive: "Versão mais formal e cuidada." },
+    { label: "short", title: "Curto", directive: "Versão mais curta e direta (corta o acessório)." },
+    { label: "friendly", title: "Simpático", directive: "Versão mais próxima e simpática, sem perder o profissionalismo." },
+  ],
+};
+
+export function variantIntents(action, n) {
+  const list = VARIANT_INTENTS[action] || [];
+  return Array.from({ length: n }, (_, i) =>
+    list[i] || {
+      label: `option_${i + 1}`,
+      title: `Opção ${i + 1}`,
+      directive: `Versão alternativa ${i + 1}: usa estrutura e formulação diferentes das outras versões.`,
+    }
+  );
+}
 
-  // default (safe)
-  return rules + toneLine + emailBlock;
+export function variantInstruction(variant) {
+  return variant ? `\n\nVARIANTE (${variant.title}): ${variant.directive}\n` : "";
 }
@@ -0,0 +1,136 @@
+// server/src/ai/providerHttp.js
+// Shared fetch/SSE helpers for the AI providers (native fetch, Node 18+).
+
+/**
+ * POST JSON to a provider and return the Response once it is known to be OK.
+ * - timeout_ms aborts the whole call (including reading a stream)
+ * - signal (optional) lets the caller cancel, e.g. when the add-in closes the stream
+ * Errors are normalized to { message, status, details } so routes can answer with clean JSON.
+ * returns { res, done } — call done() when the body has been consumed.
+ */
+export async function providerPost(label, url, { headers = {}, body, timeout_ms = 60000, signal } = {}) {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeout_ms);
+  const onAbort = () => controller.abort();
+  if (signal) {
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  }
+  const done = () => {
+    clearTimeout(t);
+    signal?.removeEventListener?.("abort", onAbort);
+  };
+
+  try {
+    const res = await fetch(url, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...headers },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!res.ok) {
+      const text = await res.text();
+      let data;
+      try { data = text ? JSON.parse(text) : null; } catch { data = { raw_text: text }; }
+      const err0 = Array.isArray(data) ? data[0]?.error : data?.error;
+      const msg =
+        err0?.message ||
+        (typeof err0 === "string" ? err0 : "") ||
+        (typeof data?.message === "string" ? data.message : "") ||
+        `${label} HTTP ${res.status}`;
+      throw Object.assign(new Error(msg), { status: res.status, details: data });
+    }
+
+    return { res, done };
+  } catch (e) {
+    done();
+    throw normalizeProviderError(label, e, signal);
+  }
+}
+
+// providerPost + consume(res) (body read, stream, ...) with the same error normalization
+export async function providerRequest(label, url, opts, consume) {
+  const { res, done } = await providerPost(label, url, opts);
+  try {
+    return await consume(res);
+  } catch (e) {
+    throw normalizeProviderError(label, e, opts?.signal);
+  } finally {
+    done();
+  }
+}
+
+export function normalizeProviderError(label, e, signal) {
+  if (e?.name === "AbortError" || e?.name === "TimeoutError") {
+    if (signal?.aborted) return Object.assign(new Error(`${label}: pedido cancelado`), { status: 499 });
+    return Object.assign(new Error(`${label} timeout (abort)`), { status: 504 });
+  }
+  // Some network errors can be ECONNRESET; we still return a clean JSON error to the client.
+  if (e?.code === "ECONNRESET" || e?.cause?.code === "ECONNRESET") {
+    return Object.assign(new Error(`${label} network ECONNRESET (ligação foi reiniciada)`), { status: 502 });
+  }
+  if (e?.cause?.code === "ECONNREFUSED") {
+    return Object.assign(new Error(`${label}: ligação recusada (${e.cause.address || ""}:${e.cause.port || ""})`), { status: 502 });
+  }
+  return e;
+}
+
+export async function readJson(label, res) {
+  const text = await res.text();
+  try {
+    return text ? JSON.parse(text) : null;
+  } catch {
+    throw Object.assign(new Error(`${label}: resposta inválida`), { status: 502, details: { raw_text: text.slice(0, 500) } });
+  }
+}
+
+/**
+ * Server-Sent Events reader: calls onEvent({ event, data }) per event; `data` is parsed JSON
+ * when possible, the raw string otherwise ("[DONE]" for Chat Completions).
+ */
+export async function readSse(res, onEvent) {
+  const decoder = new TextDecoder();
+  let buf = "";
+
+  const flush = (block) => {
+    let event = "";
+    const data = [];
+    for (const line of block.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:")) data.push(line.slice(5).replace(/^ /, ""));
+    }
+    if (!data.length) return;
+    const raw = data.join("\n");
+    let parsed = raw;
+    try { parsed = JSON.parse(raw); } catch { /* keep raw */ }
+    onEvent({ event, data: parsed });
+  };
+
+  for await (const chunk of res.body) {
+    buf += decoder.decode(chunk, { stream: true }).replace(/\r\n/g, "\n");
+    let i;
+    while ((i = buf.indexOf("\n\n")) >= 0) {
+      flush(buf.slice(0, i));
+      buf = buf.slice(i + 2);
+    }
+  }
+  if (buf.trim()) flush(buf);
+}
+
+// Structured output: model text → object (tolerates ```json fences)
+export function parseJsonOutput(label, text) {
+  const t = String(text || "").trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, "");
+  try {
+    return JSON.parse(t);
+  } catch {
+    throw Object.assign(new Error(`${label}: resposta estruturada inválida (JSON)`), {
+      status: 502,
+      details: { raw_text: t.slice(0, 500) },
+    });
+  }
+}
+
+export function emptyUsage() {
+  return { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+}
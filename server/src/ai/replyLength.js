@@ -0,0 +1,94 @@
+// server/src/ai/replyLength.js
+// Reply length (CockpitSettingsV1.length): prompt rule, token budget and the post-check limits.
+
+// target = words asked in the prompt, limit = hard cap checked after generation
+export const REPLY_LENGTHS = {
+  xs: { target: 40, limit: 60, max_output_tokens: 300, rule: "Extra curta: 1–2 frases, no máximo ~40 palavras (sem contar saudação e fecho)." },
+  s: { target: 80, limit: 110, max_output_tokens: 450, rule: "Curta: um parágrafo curto, no máximo ~80 palavras." },
+  m: { target: 160, limit: 220, max_output_tokens: 700, rule: "Média: 2–3 parágrafos curtos, no máximo ~160 palavras." },
+  l: { target: 300, limit: 400, max_output_tokens: 1100, rule: "Longa: até 4–5 parágrafos, no máximo ~300 palavras; detalha só o que for útil." },
+};
+
+// Actions that produce a draft whose size the user controls
+const LENGTH_ACTIONS = new Set(["reply", "rewrite"]);
+
+/** Length spec for an action ({ length, target, limit, max_output_tokens, rule }) or null when it doesn't apply. */
+export function lengthSpec(action, length) {
+  if (!LENGTH_ACTIONS.has(action)) return null;
+  const key = REPLY_LENGTHS[length] ? length : "m";
+  return { length: key, ...REPLY_LENGTHS[key] };
+}
+
+function htmlToPlain(html) {
+  return String(html || "")
+    .replace(/<[^>]+>/g, " ")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#0?39;/g, "'");
+}
+
+function escapeHtml(s) {
+  return String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+export function countWords(text) {
+  return String(text || "").split(/\s+/).filter(Boolean).length;
+}
+
+export function countHtmlWords(html) {
+  return countWords(htmlToPlain(html));
+}
+
+// Paragraph cut at a sentence boundary (word cut + "…" when not even one sentence fits)
+function cutParagraph(block, budget) {
+  const text = htmlToPlain(block).replace(/\s+/g, " ").trim();
+  const sentences = text.split(/(?<=[.!?])\s+/);
+  const kept = [];
+  let used = 0;
+  for (const s of sentences) {
+    const n = countWords(s);
+    if (used + n > budget) break;
+    kept.push(s);
+    used += n;
+  }
+  const out = kept.length ? kept.join(" ") : `${text.split(" ").slice(0, budget).join(" ")}…`;
+  return `<p>${escapeHtml(out)}</p>`;
+}
+
+/**
+ * Trims simple AI HTML (<p>/<ul>/<ol> blocks) to about `limit` words.
+ * A short last paragraph (the sign-off) is kept.
+ */
+export function trimHtmlToWords(html, limit) {
+  const blocks = String(html || "").match(/<(p|ul|ol)\b[^>]*>[\s\S]*?<\/\1\s*>/gi);
+  if (!blocks) {
+    const words = htmlToPlain(html).split(/\s+/).filter(Boolean);
+    return words.length <= limit ? html : `<p>${escapeHtml(words.slice(0, limit).join(" "))}…</p>`;
+  }
+
+  const last = blocks[blocks.length - 1];
+  const keepLast = blocks.length > 1 && /^<p/i.test(last) && countHtmlWords(last) <= 12;
+  let budget = limit - (keepLast ? countHtmlWords(last) : 0);
+
+  const out = [];
+  for (const b of keepLast ? blocks.slice(0, -1) : blocks) {
+    const n = countHtmlWords(b);
+    if (n <= budget) {
+      out.push(b);
+      budget -= n;
+      continue;
+    }
+    if (/^<p/i.test(b) && budget >= 8) out.push(cutParagraph(b, budget));
+    break;
+  }
+  if (keepLast) out.push(last);
+  return out.join("");
+}
+
+// Extra instruction for the single regeneration after an overshoot
+export function overLengthInstruction(spec, words) {
+  return `\n\nATENÇÃO: a versão anterior ficou demasiado longa (${words} palavras). Limite rígido: ${spec.target} palavras. Corta o acessório e mantém só o essencial.\n`;
+}
@@ -0,0 +1,66 @@
+// server/src/ai/taskExtraction.js
+// Structured variant of the "tasks" action: JSON validated against TASKS_SCHEMA
+// (the provider enforces it with structured output; normalizeTasks re-checks it here).
+
+const TASK_FIELDS = ["title", "description", "assigneeHint", "deadline", "projectHint"];
+const MAX_TASKS = 15;
+
+// Strict mode: every property required, unknown values come back as ""
+export const TASKS_SCHEMA = {
+  type: "object",
+  additionalProperties: false,
+  required: ["tasks"],
+  properties: {
+    tasks: {
+      type: "array",
+      items: {
+        type: "object",
+        additionalProperties: false,
+        required: TASK_FIELDS,
+        properties: {
+          title: { type: "string", description: "Título curto da tarefa (verbo no infinitivo)" },
+          description: { type: "string", description: "Contexto necessário para executar a tarefa" },
+          assigneeHint: { type: "string", description: "Nome ou email do responsável, se indicado; senão vazio" },
+          deadline: { type: "string", description: "Prazo em YYYY-MM-DD, só se explícito no email; senão vazio" },
+          projectHint: { type: "string", description: "Projeto/cliente/obra a que a tarefa pertence, se claro; senão vazio" },
+        },
+      },
+    },
+  },
+};
+
+export function tasksPrompt({ email, today = new Date().toISOString().slice(0, 10) }) {
+  return `Extrai as tarefas/ações concretas que resultam deste email.
+Hoje é ${today}; converte prazos relativos ("sexta-feira", "dentro de 2 semanas") em datas YYYY-MM-DD.
+NUNCA inventes responsáveis, prazos ou projetos: se não estiverem no email, deixa o campo vazio.
+Escreve títulos e descrições em Português (Portugal). No máximo ${MAX_TASKS} tarefas; sem tarefas → lista vazia.
+
+EMAIL:
+Assunto: ${email?.subject || ""}
+De: ${email?.from || ""}
+Para: ${(email?.to || []).join("; ")}
+Cc: ${(email?.cc || []).join("; ")}
+Corpo (texto limpo):
+${email?.bodyText || ""}
+`;
+}
+
+/**
+ * Validates the model output against TASKS_SCHEMA → [{ title, description, assigneeHint, deadline, projectHint }].
+ * Throws 502 when the shape is wrong; drops tasks without a title and deadlines that aren't real dates.
+ */
+export function normalizeTasks(data) {
+  if (!data || typeof data !== "object" || !Array.isArray(data.tasks)) {
+    throw Object.assign(new Error("Resposta da IA sem lista de tarefas válida"), { status: 502 });
+  }
+
+  const out = [];
+  for (const t of data.tasks.slice(0, MAX_TASKS)) {
+    if (!t || typeof t !== "object") continue;
+    const task = Object.fromEntries(TASK_FIELDS.map((k) => [k, typeof t[k] === "string" ? t[k].trim() : ""]));
+    if (!task.title) continue;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(task.deadline) || Number.isNaN(Date.parse(task.deadline))) task.deadline = "";
+    out.push(task);
+  }
+  return out;
+}
@@ -0,0 +1,211 @@
+// server/src/ai/threadSource.js
+// Messages of a whole conversation for the thread summary:
+// - EWS: item ids sent by the add-in + callback token → GetItem on the user's mailbox (ewsUrl);
+// - fallback: the quoted chain ("De:/From:", "On … wrote:") inside the full body of the selected email.
+// Both return [{ from, date, subject, bodyText }] oldest first, each body without its quoted history.
+
+const MAX_ITEMS = 25;
+const MAX_TRANSCRIPT = 12000; // chars, cost control (newest messages win)
+const EWS_TIMEOUT_MS = 15000;
+// Exchange Online; on-prem servers are added with EWS_ALLOWED_HOSTS (comma-separated host names)
+const DEFAULT_EWS_HOSTS = ["outlook.office365.com", "outlook.office.com"];
+
+// Reply/forward headers that start a quoted message (same markers as trimEmailBody in routes/aiRoutes.js)
+const QUOTE_HEADER = new RegExp(
+  [
+    /^From:\s.+$/,
+    /^De:\s.+$/,
+    /^On\s.+wrote:\s*$/,
+    /^Em\s.+escreveu:\s*$/,
+    /^-----Original Message-----$/,
+    /^-----Mensagem original-----$/,
+  ]
+    .map((rx) => rx.source)
+    .join("|"),
+  "gim"
+);
+
+function xmlEscape(s) {
+  return String(s).replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+}
+
+function xmlUnescape(s) {
+  return String(s || "")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, '"')
+    .replace(/&#0?39;|&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_, n) => String.fromCodePoint(Number(n)))
+    .replace(/&amp;/g, "&");
+}
+
+// First <t:Tag>…</t:Tag> inside an XML fragment (EWS answers are small and flat enough for this)
+function tagText(xml, tag) {
+  const m = new RegExp(`<t:${tag}\\b[^>]*>([\\s\\S]*?)</t:${tag}>`).exec(xml);
+  return m ? xmlUnescape(m[1]) : "";
+}
+
+// Text before the first quote header (headers in the first lines belong to forwards, not quotes)
+export function ownText(bodyText) {
+  const s = String(bodyText || "").replace(/\r\n/g, "\n");
+  QUOTE_HEADER.lastIndex = 0;
+  let m;
+  while ((m = QUOTE_HEADER.exec(s))) {
+    if (m.index >= 80) return s.slice(0, m.index).trim();
+  }
+  return s.trim();
+}
+
+function allowedEwsHosts() {
+  const extra = String(process.env.EWS_ALLOWED_HOSTS || "")
+    .split(",")
+    .map((h) => h.trim().toLowerCase())
+    .filter(Boolean);
+  return new Set([...DEFAULT_EWS_HOSTS, ...extra]);
+}
+
+/**
+ * GetItem for the conversation items (ids found by the add-in with FindItem).
+ * ewsUrl must be an https EWS endpoint on an allowed host (allowedEwsHosts): the callback token (Bearer)
+ * is never sent anywhere else.
+ */
+export async function fetchEwsThread({ ewsUrl, token, itemIds }) {
+  let url;
+  try {
+    url = new URL(String(ewsUrl || ""));
+  } catch {
+    throw Object.assign(new Error("ewsUrl inválido"), { status: 400 });
+  }
+  if (url.protocol !== "https:" || url.port || url.username || url.password || !/\/ews\/exchange\.asmx$/i.test(url.pathname)) {
+    throw Object.assign(new Error("ewsUrl inválido"), { status: 400 });
+  }
+  if (!allowedEwsHosts().has(url.hostname.toLowerCase())) {
+    throw Object.assign(new Error(`Servidor EWS não autorizado: ${url.hostname}`), { status: 400 });
+  }
+  const ids = (Array.isArray(itemIds) ? itemIds : []).map(String).filter(Boolean).slice(-MAX_ITEMS);
+  if (!token || !ids.length) throw Object.assign(new Error("Sem itens/token para ler a conversa"), { status: 400 });
+
+  const request = `<?xml version="1.0" encoding="utf-8"?>
+<soap:Envelope xmlns:soap="http://schemas.xmlsoap.org/soap/envelope/"
+  xmlns:m="http://schemas.microsoft.com/exchange/services/2006/messages"
+  xmlns:t="http://schemas.microsoft.com/exchange/services/2006/types">
+  <soap:Header><t:RequestServerVersion Version="Exchange2013" /></soap:Header>
+  <soap:Body>
+    <m:GetItem>
+      <m:ItemShape>
+        <t:BaseShape>IdOnly</t:BaseShape>
+        <t:BodyType>Text</t:BodyType>
+        <t:AdditionalProperties>
+          <t:FieldURI FieldURI="item:Subject" />
+          <t:FieldURI FieldURI="item:DateTimeReceived" />
+          <t:FieldURI FieldURI="message:From" />
+          <t:FieldURI FieldURI="item:Body" />
+        </t:AdditionalProperties>
+      </m:ItemShape>
+      <m:ItemIds>${ids.map((id) => `<t:ItemId Id="${xmlEscape(id)}" />`).join("")}</m:ItemIds>
+    </m:GetItem>
+  </soap:Body>
+</soap:Envelope>`;
+
+  const res = await fetch(url, {
+    method: "POST",
+    headers: { "content-type": "text/xml; charset=utf-8", authorization: `Bearer ${token}` },
+    body: request,
+    redirect: "error",
+    signal: AbortSignal.timeout(EWS_TIMEOUT_MS),
+  });
+  const xml = await res.text();
+  if (!res.ok) throw Object.assign(new Error(`EWS GetItem falhou (${res.status})`), { status: 502 });
+
+  const messages = [];
+  for (const m of xml.matchAll(/<t:Message\b[^>]*>([\s\S]*?)<\/t:Message>/g)) {
+    const item = m[1];
+    const fromXml = /<t:From>([\s\S]*?)<\/t:From>/.exec(item)?.[1] || "";
+    const name = tagText(fromXml, "Name");
+    const address = tagText(fromXml, "EmailAddress");
+    messages.push({
+      from: name && address ? `${name} <${address}>` : name || address,
+      date: tagText(item, "DateTimeReceived"),
+      subject: tagText(item, "Subject"),
+      bodyText: ownText(tagText(item, "Body")),
+    });
+  }
+  if (!messages.length) throw Object.assign(new Error("EWS sem mensagens para a conversa"), { status: 502 });
+
+  return messages.sort((a, b) => String(a.date).localeCompare(String(b.date)));
+}
+
+// "Campo: valor" from the first lines of a quoted block (Outlook header style)
+function headerValue(block, names) {
+  const rx = new RegExp(`^(?:${names.join("|")}):\\s*(.+)$`, "im");
+  return rx.exec(block.split("\n").slice(0, 8).join("\n"))?.[1]?.trim() || "";
+}
+
+/**
+ * Fallback without mailbox access: splits the full body of the selected email on quote headers.
+ * The first block is the selected message itself (`current` = its sender/date/subject).
+ */
+export function parseQuotedChain(bodyText, current = {}) {
+  const s = String(bodyText || "").replace(/\r\n/g, "\n");
+  const cuts = [];
+  QUOTE_HEADER.lastIndex = 0;
+  let m;
+  while ((m = QUOTE_HEADER.exec(s))) {
+    if (m.index >= 80 || cuts.length) cuts.push(m.index);
+  }
+
+  const blocks = [];
+  let start = 0;
+  for (const c of cuts) {
+    blocks.push(s.slice(start, c));
+    start = c;
+  }
+  blocks.push(s.slice(start));
+
+  const messages = blocks.map((block, i) => {
+    const b = block.replace(/^\s*>+ ?/gm, "").trim();
+    if (i === 0) {
+      return { from: current.from || "", date: current.date || "", subject: current.subject || "", bodyText: b };
+    }
+    // "On <date>, <name> wrote:" → name after the last comma (best effort)
+    const wrote = /^(?:On|Em)\s(.+)\s(?:wrote|escreveu):\s*$/i.exec(b.split("\n")[0] || "")?.[1] || "";
+    const comma = wrote.lastIndexOf(",");
+    const from = headerValue(b, ["From", "De"]) || (comma > 0 ? wrote.slice(comma + 1).trim() : wrote);
+    const date = headerValue(b, ["Sent", "Date", "Enviado", "Enviada", "Data"]) || (comma > 0 ? wrote.slice(0, comma).trim() : "");
+    const subject = headerValue(b, ["Subject", "Assunto"]);
+    // drop the header lines, keep the message text
+    const body = b
+      .split("\n")
+      .filter((line, j) => j > 8 || !/^(?:From|De|Sent|Date|Enviado|Enviada|Data|To|Para|Cc|Subject|Assunto):\s|^(?:On|Em)\s.+(?:wrote|escreveu):\s*$|^-----/i.test(line))
+      .join("\n")
+      .trim();
+    return { from, date, subject, bodyText: body };
+  });
+
+  // oldest first, like the EWS path
+  return messages.filter((x) => x.bodyText).reverse();
+}
+
+/**
+ * Messages → prompt text (oldest first). Over MAX_TRANSCRIPT the oldest messages are dropped.
+ * Returns { text, count, omitted }.
+ */
+export function threadTranscript(messages) {
+  const parts = messages.map((x, i) => {
+    const head = [`--- Mensagem ${i + 1}/${messages.length}`, x.from && `De: ${x.from}`, x.date && `Data: ${x.date}`]
+      .filter(Boolean)
+      .join(" | ");
+    return `${head}\n${String(x.bodyText || "").slice(0, 4000)}`;
+  });
+
+  const kept = [];
+  let size = 0;
+  for (let i = parts.length - 1; i >= 0; i--) {
+    if (kept.length && size + parts[i].length > MAX_TRANSCRIPT) break;
+    kept.unshift(parts[i]);
+    size += parts[i].length;
+  }
+  const omitted = parts.length - kept.length;
+  const text = (omitted ? `(${omitted} mensagem(ns) mais antiga(s) omitida(s))\n` : "") + kept.join("\n\n");
+  return { text, count: messages.length, omitted };
+}
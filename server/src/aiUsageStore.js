@@ -0,0 +1,126 @@
+import fs from "node:fs";
+import path from "node:path";
+import Database from "better-sqlite3";
+
+const DATA_DIR = path.join(process.cwd(), "server", "data");
+const DB_PATH = process.env.AI_USAGE_DB_PATH || path.join(DATA_DIR, "ai-usage.db");
+
+/**
+ * AI usage ledger (SQLite, same setup as linkStore.js). One row per AI request:
+ *   { day (UTC, YYYY-MM-DD), user, action, provider, model, prompt, inputTokens, outputTokens, costUsd, cached, createdAt }
+ * user = Outlook user of the x-icc-token ("" when unknown). Cache hits are recorded with 0 tokens/cost.
+ * prompt = prompt pack id ("default@2", see ai/promptPacks.js; "" for actions without a pack).
+ */
+const MIGRATIONS = [
+  // v1: ledger + per user/day index (budget check)
+  (db) => {
+    db.exec(`
+      CREATE TABLE ai_usage (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        day TEXT NOT NULL,
+        user TEXT NOT NULL DEFAULT '',
+        action TEXT NOT NULL DEFAULT '',
+        provider TEXT NOT NULL DEFAULT '',
+        model TEXT NOT NULL DEFAULT '',
+        input_tokens INTEGER NOT NULL DEFAULT 0,
+        output_tokens INTEGER NOT NULL DEFAULT 0,
+        cost_usd REAL NOT NULL DEFAULT 0,
+        cached INTEGER NOT NULL DEFAULT 0,
+        created_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_ai_usage_user_day ON ai_usage (user, day);
+      CREATE INDEX idx_ai_usage_day ON ai_usage (day);
+    `);
+  },
+  // v2: prompt pack used (A/B comparison)
+  (db) => {
+    db.exec(`ALTER TABLE ai_usage ADD COLUMN prompt TEXT NOT NULL DEFAULT ''`);
+  },
+];
+
+let db = null;
+
+function getDb() {
+  if (db) return db;
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const conn = new Database(DB_PATH);
+  conn.pragma("journal_mode = WAL");
+  conn.pragma("busy_timeout = 5000");
+
+  const version = conn.pragma("user_version", { simple: true });
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    conn.transaction(() => {
+      MIGRATIONS[v](conn);
+      conn.pragma(`user_version = ${v + 1}`);
+    })();
+    console.log(`[aiUsageStore] migrated to v${v + 1}`);
+  }
+
+  db = conn;
+  return db;
+}
+
+export function usageDay(date = new Date()) {
+  return date.toISOString().slice(0, 10);
+}
+
+export function recordUsage({ user, action, provider, model, prompt, usage, costUsd = 0, cached = false }) {
+  const now = new Date();
+  getDb()
+    .prepare(
+      `INSERT INTO ai_usage (day, user, action, provider, model, prompt, input_tokens, output_tokens, cost_usd, cached, created_at)
+       VALUES (@day, @user, @action, @provider, @model, @prompt, @input_tokens, @output_tokens, @cost_usd, @cached, @created_at)`
+    )
+    .run({
+      day: usageDay(now),
+      user: String(user || ""),
+      action: String(action || ""),
+      provider: String(provider || ""),
+      model: String(model || ""),
+      prompt: String(prompt || ""),
+      input_tokens: cached ? 0 : Number(usage?.inputTokens || 0),
+      output_tokens: cached ? 0 : Number(usage?.outputTokens || 0),
+      cost_usd: cached ? 0 : Number(costUsd || 0),
+      cached: cached ? 1 : 0,
+      created_at: now.toISOString(),
+    });
+}
+
+// Estimated spend of a user on a day (UTC), in USD
+export function userCostOn(user, day = usageDay()) {
+  const row = getDb()
+    .prepare("SELECT COALESCE(SUM(cost_usd), 0) AS cost FROM ai_usage WHERE user = ? AND day = ?")
+    .get(String(user || ""), String(day));
+  return Number(row?.cost || 0);
+}
+
+/**
+ * Aggregated usage between two days (inclusive), per day/user/model/prompt pack.
+ * `user` = only that user (undefined = everyone).
+ * Returns { rows: [{ day, user, model, prompt, calls, cachedCalls, inputTokens, outputTokens, costUsd }], totals }.
+ */
+export function usageReport({ from, to, user }) {
+  const params = { from: String(from), to: String(to) };
+  let where = "day >= @from AND day <= @to";
+  if (user !== undefined) {
+    where += " AND user = @user";
+    params.user = String(user || "");
+  }
+
+  const rows = getDb()
+    .prepare(
+      `SELECT day, user, model, prompt,
+              COUNT(*) AS calls, SUM(cached) AS cachedCalls,
+              SUM(input_tokens) AS inputTokens, SUM(output_tokens) AS outputTokens, SUM(cost_usd) AS costUsd
+       FROM ai_usage WHERE ${where}
+       GROUP BY day, user, model, prompt ORDER BY day DESC, user, model, prompt`
+    )
+    .all(params);
+
+  const totals = { calls: 0, cachedCalls: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+  for (const r of rows) {
+    for (const k of Object.keys(totals)) totals[k] += Number(r[k] || 0);
+  }
+  totals.costUsd = Math.round(totals.costUsd * 1e6) / 1e6;
+  return { rows, totals };
+}
@@ -0,0 +1,99 @@
+// server/src/attachments.js
+// Outlook attachments → Odoo ir.attachment (linked to the target record, then referenced by message_post).
+
+/**
+ * Limits (env):
+ *   ATTACHMENT_MAX_MB        per file (default 10)
+ *   ATTACHMENT_MAX_TOTAL_MB  per link request (default 14; must fit the 20mb JSON body as base64)
+ *   ATTACHMENT_MAX_FILES     per link request (default 10)
+ *   ATTACHMENT_BLOCKED_EXT   comma-separated extensions (default: executables/scripts)
+ */
+const DEFAULT_BLOCKED_EXT = ["exe", "bat", "cmd", "com", "msi", "scr", "ps1", "vbs", "js", "jar", "dll", "lnk", "reg", "hta"];
+
+export function attachmentPolicy() {
+  const mb = (name, def) => {
+    const n = Number(process.env[name]);
+    return Math.round((Number.isFinite(n) && n > 0 ? n : def) * 1024 * 1024);
+  };
+  const blocked = String(process.env.ATTACHMENT_BLOCKED_EXT || "").trim();
+  return {
+    maxBytes: mb("ATTACHMENT_MAX_MB", 10),
+    maxTotalBytes: mb("ATTACHMENT_MAX_TOTAL_MB", 14),
+    maxFiles: Number(process.env.ATTACHMENT_MAX_FILES || 10),
+    blockedExtensions: blocked
+      ? blocked.split(",").map((x) => x.trim().replace(/^\./, "").toLowerCase()).filter(Boolean)
+      : DEFAULT_BLOCKED_EXT,
+  };
+}
+
+function extensionOf(name) {
+  const m = /\.([^.]+)$/.exec(String(name || ""));
+  return m ? m[1].toLowerCase() : "";
+}
+
+// Decoded size of a base64 string (without allocating the buffer)
+export function base64Bytes(b64) {
+  const s = String(b64 || "").replace(/\s+/g, "");
+  const pad = s.endsWith("==") ? 2 : s.endsWith("=") ? 1 : 0;
+  return Math.max(0, Math.floor((s.length * 3) / 4) - pad);
+}
+
+/**
+ * Validates every attachment against the policy and uploads the accepted ones
+ * as ir.attachment on (model, recordId).
+ *
+ * input:  [{ name, contentType, contentBase64 }]
+ * returns [{ name, ok, id?, size?, error? }] in the same order
+ */
+export async function uploadAttachments(odoo, model, recordId, attachments) {
+  const policy = attachmentPolicy();
+  const list = Array.isArray(attachments) ? attachments : [];
+  const results = [];
+  let total = 0;
+
+  for (let i = 0; i < list.length; i++) {
+    const a = list[i] || {};
+    const name = String(a.name || `anexo-${i + 1}`).trim();
+    const size = base64Bytes(a.contentBase64);
+
+    const reject = (error) => results.push({ name, ok: false, size, error });
+
+    if (i >= policy.maxFiles) {
+      reject(`Máximo de ${policy.maxFiles} anexos por ligação`);
+      continue;
+    }
+    if (!a.contentBase64) {
+      reject(a.error ? String(a.error) : "Conteúdo em falta");
+      continue;
+    }
+    if (policy.blockedExtensions.includes(extensionOf(name))) {
+      reject(`Tipo de ficheiro bloqueado (.${extensionOf(name)})`);
+      continue;
+    }
+    if (size > policy.maxBytes) {
+      reject(`Ficheiro demasiado grande (máx. ${Math.round(policy.maxBytes / 1024 / 1024)} MB)`);
+      continue;
+    }
+    if (total + size > policy.maxTotalBytes) {
+      reject(`Total de anexos excede ${Math.round(policy.maxTotalBytes / 1024 / 1024)} MB`);
+      continue;
+    }
+
+    try {
+      const id = await odoo.create("ir.attachment", {
+        name,
+        datas: String(a.contentBase64).replace(/\s+/g, ""),
+        res_model: model,
+        res_id: Number(recordId),
+        mimetype: a.contentType ? String(a.contentType) : undefined,
+      });
+      total += size;
+      results.push({ name, ok: true, id, size });
+    } catch (e) {
+      console.error("[attachments] upload failed:", name, e?.message || e);
+      reject(String(e?.message || e));
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,106 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+import { open, seal, sha256 } from "./secretBox.js";
+
+const DATA_DIR = path.join(process.cwd(), "server", "data");
+const FILE_PATH = path.join(DATA_DIR, "credentials.json");
+
+/**
+ * Per-user credentials (server-side only; the add-in never gets them back):
+ * {
+ *   "tokens": { "<sha256(token)>": { user, createdAt } },
+ *   "users": {
+ *     "<outlook user email, lowercase>": {
+ *       "<service>": { ...public fields, secret: "<sealed>", updatedAt }
+ *     }
+ *   }
+ * }
+ *
+ * The add-in identifies itself with an opaque token (header x-icc-token) issued
+ * after a successful login; the raw token is never stored.
+ */
+function ensureFile() {
+  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+  if (!fs.existsSync(FILE_PATH)) writeAll({ tokens: {}, users: {} });
+}
+
+function readAll() {
+  ensureFile();
+  try {
+    const obj = JSON.parse(fs.readFileSync(FILE_PATH, "utf-8") || "{}");
+    return { tokens: obj.tokens || {}, users: obj.users || {} };
+  } catch {
+    return { tokens: {}, users: {} };
+  }
+}
+
+function writeAll(obj) {
+  fs.writeFileSync(FILE_PATH, JSON.stringify(obj, null, 2), { encoding: "utf-8", mode: 0o600 });
+}
+
+export function normalizeUser(user) {
+  return String(user || "").trim().toLowerCase();
+}
+
+export function issueUserToken(user) {
+  const u = normalizeUser(user);
+  if (!u) throw new Error("Missing user");
+  const token = crypto.randomBytes(32).toString("base64url");
+  const all = readAll();
+  all.tokens[sha256(token)] = { user: u, createdAt: new Date().toISOString() };
+  writeAll(all);
+  return token;
+}
+
+export function resolveUserToken(token) {
+  if (!token) return null;
+  const all = readAll();
+  const row = all.tokens[sha256(token)];
+  return row ? row.user : null;
+}
+
+/**
+ * Stores credentials for (user, service). `secret` is sealed; everything else
+ * in `fields` is kept as-is (login, base URL, ...).
+ */
+export function setUserCredential(user, service, { secret, ...fields }) {
+  const u = normalizeUser(user);
+  if (!u) throw new Error("Missing user");
+  const all = readAll();
+  all.users[u] = all.users[u] || {};
+  all.users[u][service] = {
+    ...fields,
+    secret: secret ? seal(secret) : "",
+    updatedAt: new Date().toISOString(),
+  };
+  writeAll(all);
+}
+
+// Returns { ...fields, secret } with the secret decrypted, or null.
+export function getUserCredential(user, service) {
+  const u = normalizeUser(user);
+  const row = readAll().users[u]?.[service];
+  if (!row) return null;
+  try {
+    return { ...row, secret: row.secret ? open(row.secret) : "" };
+  } catch (e) {
+    console.error(`[credentials] cannot decrypt ${service} for ${u}:`, e?.message || e);
+    return null;
+  }
+}
+
+export function deleteUserCredential(user, service) {
+  const u = normalizeUser(user);
+  const all = readAll();
+  if (!all.users[u]) return;
+  delete all.users[u][service];
+  if (!Object.keys(all.users[u]).length) delete all.users[u];
+  writeAll(all);
+}
+
+// Outlook user bound to the request's x-icc-token (or null when absent/unknown).
+export function userFromRequest(req) {
+  const token = String(req.get("x-icc-token") || "").trim();
+  return resolveUserToken(token);
+}
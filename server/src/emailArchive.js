@@ -0,0 +1,137 @@
+// server/src/emailArchive.js
+// What of the email body goes into the Odoo chatter when linking (per link).
+
+import { aiCreateText } from "./ai/aiService.js";
+import { buildPrompt } from "./ai/promptTemplates.js";
+import { sanitizeEmailBodyHtml } from "./ai/aiHtml.js";
+
+/**
+ * Archive modes:
+ *   "summary"  header only (subject/from/date/ids) — historical behaviour
+ *   "full"     header + sanitized HTML body
+ *   "ai"       header + AI summary of the body
+ * Optional: the whole message as an .eml attachment (any mode).
+ *
+ * Limits (env):
+ *   EMAIL_ARCHIVE_MAX_CHARS  max sanitized HTML kept in the chatter (default 200000)
+ */
+export const ARCHIVE_MODES = ["summary", "full", "ai"];
+
+export function normalizeArchiveMode(mode) {
+  const m = String(mode || "").trim().toLowerCase();
+  return ARCHIVE_MODES.includes(m) ? m : "summary";
+}
+
+/**
+ * Outlook HTML → HTML safe to store in the chatter: allow-list sanitizer (ai/aiHtml.js
+ * sanitizeEmailBodyHtml), so scripts, frames, forms, event handlers, style and unsafe URLs never pass.
+ * Inline images that only exist inside the message (cid:) become "[imagem]".
+ */
+export function sanitizeEmailHtml(html) {
+  let s = String(html || "");
+
+  // Inline images (cid:) don't resolve outside Outlook
+  s = s.replace(/<img\b[^>]*\bsrc\s*=\s*["']?cid:[^>]*>/gi, "[imagem]");
+  s = sanitizeEmailBodyHtml(s).html;
+
+  const max = Number(process.env.EMAIL_ARCHIVE_MAX_CHARS || 200000);
+  // re-sanitized after the cut so a tag split in half is escaped, not left open
+  if (s.length > max) s = `${sanitizeEmailBodyHtml(s.slice(0, max)).html}<p><i>(corpo truncado)</i></p>`;
+
+  return s.trim();
+}
+
+export function htmlToPlainText(html) {
+  return String(html || "")
+    .replace(/<\s*br\s*\/?\s*>/gi, "\n")
+    .replace(/<\/\s*(p|div|li|tr|h[1-6])\s*>/gi, "\n")
+    .replace(/<[^>]+>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#0?39;/g, "'")
+    .replace(/&amp;/g, "&")
+    .replace(/[ \t]+\n/g, "\n")
+    .replace(/\n{3,}/g, "\n\n")
+    .trim();
+}
+
+async function summarizeBody({ subject, from, to, cc, html }) {
+  const instructions = buildPrompt({
+    action: "summarize",
+    email: { subject, from, to, cc, bodyText: htmlToPlainText(html).slice(0, 9000) },
+  });
+  const result = await aiCreateText({ mode: "fast", instructions, input: "ok", max_output_tokens: 600, temperature: 0.2 });
+  return sanitizeEmailHtml(result.text || "");
+}
+
+/**
+ * Chatter section for the chosen mode.
+ * returns { html, archive: { mode, chars?, error? } }
+ * If the AI summary fails, the link still goes through with the header only
+ * (archive.mode = "summary" + archive.error) so the panel shows what really happened.
+ */
+export async function buildArchiveSection({ mode, bodyHtml, subject, from, to, cc }) {
+  const m = normalizeArchiveMode(mode);
+  if (m === "summary") return { html: "", archive: { mode: m } };
+
+  const clean = sanitizeEmailHtml(bodyHtml);
+  if (!clean) throw Object.assign(new Error("Corpo do email em falta (bodyHtml)"), { status: 400 });
+
+  if (m === "full") {
+    return {
+      html: `<hr/><p><b>Corpo do email</b></p>\n${clean}`,
+      archive: { mode: m, chars: clean.length },
+    };
+  }
+
+  try {
+    const summary = await summarizeBody({ subject, from, to, cc, html: clean });
+    return { html: `<hr/><p><b>Resumo (IA)</b></p>\n${summary}`, archive: { mode: m } };
+  } catch (e) {
+    console.error("[archive] AI summary failed:", e?.message || e);
+    return { html: "", archive: { mode: "summary", error: `Resumo IA falhou: ${String(e?.message || e)}` } };
+  }
+}
+
+function encodeHeader(s) {
+  const v = String(s || "");
+  return /^[\x20-\x7e]*$/.test(v) ? v : `=?UTF-8?B?${Buffer.from(v, "utf-8").toString("base64")}?=`;
+}
+
+function formatAddress(name, email) {
+  if (!email) return "";
+  return name ? `${encodeHeader(name)} <${email}>` : `<${email}>`;
+}
+
+/**
+ * Minimal RFC 822 message (headers + HTML body), used when the Outlook host
+ * can't export the original item (getAsFileAsync needs Mailbox 1.14).
+ * returns base64
+ */
+export function buildEml({ subject, fromName, fromEmail, to = [], cc = [], dateIso, internetMessageId, html }) {
+  const date = dateIso && !Number.isNaN(Date.parse(dateIso)) ? new Date(dateIso) : new Date();
+  const body = Buffer.from(String(html || ""), "utf-8").toString("base64").replace(/.{76}/g, "$&\r\n");
+  const headers = [
+    fromEmail ? `From: ${formatAddress(fromName, fromEmail)}` : "",
+    to.length ? `To: ${to.join(", ")}` : "",
+    cc.length ? `Cc: ${cc.join(", ")}` : "",
+    `Subject: ${encodeHeader(subject)}`,
+    `Date: ${date.toUTCString()}`,
+    internetMessageId ? `Message-ID: ${internetMessageId}` : "",
+    "MIME-Version: 1.0",
+    "Content-Type: text/html; charset=UTF-8",
+    "Content-Transfer-Encoding: base64",
+  ].filter(Boolean);
+  return Buffer.from(`${headers.join("\r\n")}\r\n\r\n${body}\r\n`, "utf-8").toString("base64");
+}
+
+export function emlFileName(subject) {
+  const base = String(subject || "email")
+    .replace(/[\\/:*?"<>|\u0000-\u001f]+/g, " ")
+    .replace(/\s+/g, " ")
+    .trim()
+    .slice(0, 80);
+  return `${base || "email"}.eml`;
+}
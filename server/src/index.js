@@ -1,9 +1,26 @@
 import express from "express";
 import cors from "cors";
 import dotenv from "dotenv";
-import { odooClientFromEnv } from "./odoo.js";
-import { addLink, listLinksByConversation } from "./linkStore.js";
+import { odooClientForRequest } from "./odooAuth.js";
+import { getOdooSessionStats } from "./odoo.js";
+import { addLink, getLink, listLinksByConversation, listLinksByRecord, removeLink, updateLink } from "./linkStore.js";
+import { attachmentPolicy, uploadAttachments } from "./attachments.js";
+import { buildArchiveSection, buildEml, emlFileName, normalizeArchiveMode, sanitizeEmailHtml } from "./emailArchive.js";
+import { matchPartnersByEmail, matchVendor, recognizeParticipants } from "./recognition.js";
+import {
+  allowedModels,
+  assertReadableDomain,
+  buildSearchSpec,
+  loadModelPolicy,
+  modelAllowed,
+  readableFields,
+  writableValues,
+} from "./modelPolicy.js";
+import { loadPromptPacks } from "./ai/promptPacks.js";
 import { createAiRouter } from "./routes/aiRoutes.js";
+import { createOdooAuthRouter } from "./routes/odooAuthRoutes.js";
+import { createInvoiceStudioRouter } from "./routes/invoiceStudioRoutes.js";
+import { createKnowledgeRouter } from "./routes/knowledgeRoutes.js";
 import { fileURLToPath } from "url";
 import path from "path";
 
@@ -29,43 +46,54 @@ app.use(express.json({ limit: "20mb" }));
 // AI (email assistant)
 app.use("/api/ai", createAiRouter());
 
+// Shared knowledge base used in the AI prompts
+app.use("/api/knowledge", createKnowledgeRouter());
+
+// Per-user Odoo login (Settings → Odoo)
+app.use("/api/odoo/auth", createOdooAuthRouter());
+
+// InvoiceStudio buckets (attachments → AI extraction)
+app.use("/api/invoicestudio", createInvoiceStudioRouter());
+
 const port = process.env.PORT ? Number(process.env.PORT) : 7071;
 
-app.get("/health", (_req, res) => res.json({ ok: true }));
+app.get("/health", (_req, res) => res.json({ ok: true, odooSessions: getOdooSessionStats() }));
 
-app.get("/api/odoo/meta", async (_req, res) => {
+app.get("/api/odoo/meta", async (req, res) => {
   try {
-    const odoo = await odooClientFromEnv();
-    return res.json({ ok: true, meta: odoo.meta });
+    const odoo = await odooClientForRequest(req);
+    return res.json({ ok: true, meta: { ...odoo.meta, models: allowedModels() } });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
-app.get("/api/odoo/ping", async (_req, res) => {
+app.get("/api/odoo/ping", async (req, res) => {
   try {
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     const ok = await odoo.ping();
     return res.json({ ok });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
-// ✅ Alargar (Jira-like): projetos, leads, contactos, tarefas, utilizadores, etapas
-const MODEL_WHITELIST = new Set([
-  "project.project",
-  "crm.lead",
-  "res.partner",
-  "project.task",
-  "res.users",
-  "project.task.type",
-]);
-
-function modelAllowed(model) {
-  return MODEL_WHITELIST.has(String(model || "").trim());
+// Modelos/campos permitidos: server/config/modelPolicy.json (validado no arranque)
+try {
+  loadModelPolicy();
+} catch (e) {
+  console.error(String(e?.message || e));
+  process.exit(1);
+}
+
+// Prompt packs da IA: server/config/prompts (validados no arranque, com AI_PROMPT_PACK / AI_PROMPT_AB)
+try {
+  loadPromptPacks();
+} catch (e) {
+  console.error(String(e?.message || e));
+  process.exit(1);
 }
 
 app.get("/api/odoo/search", async (req, res) => {
@@ -76,103 +104,20 @@ app.get("/api/odoo/search", async (req, res) => {
 
     if (!modelAllowed(model)) return res.status(400).send("Model not allowed");
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
 
     // Quando a pesquisa está vazia: devolve as primeiras N linhas (útil para dropdown aberto)
-    const isEmpty = !q;
-
-    let domain;
-    let fields;
-
-    if (model === "res.partner") {
-      domain = isEmpty ? [] : ["|", ["name", "ilike", q], ["email", "ilike", q]];
-      fields = ["name", "email", "phone", "mobile", "display_name"];
-    } else if (model === "crm.lead") {
-      domain = isEmpty ? [] : ["|", ["name", "ilike", q], ["email_from", "ilike", q]];
-      fields = ["name", "display_name", "email_from", "partner_id"];
-    } else if (model === "project.project") {
-      domain = isEmpty ? [] : [["name", "ilike", q]];
-      fields = ["name", "display_name", "partner_id", "user_id"];
-    } else if (model === "project.task") {
-      domain = isEmpty ? [] : [["name", "ilike", q]];
-      fields = ["name", "display_name", "project_id", "parent_id"];
-    } else if (model === "res.users") {
-      domain = isEmpty ? [] : [["name", "ilike", q]];
-      fields = ["name", "display_name", "email"];
-    } else if (model === "project.task.type") {
-      domain = isEmpty ? [] : [["name", "ilike", q]];
-      fields = ["name", "display_name"];
-    } else {
-      domain = isEmpty ? [] : [["name", "ilike", q]];
-      fields = ["name", "display_name"];
-    }
+    const { domain, fields } = buildSearchSpec(model, q);
 
     const items = await odoo.searchRead(model, domain, fields, limit);
     return res.json({ items: items || [] });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
 // --- compat endpoints (client expects POST + search-domain/read/write/call) ---
-function cleanValuesForModel(model, values) {
-  const allowedByModel = {
-    "res.partner": new Set(["name", "email", "phone", "mobile"]),
-    "crm.lead": new Set(["name", "email_from", "partner_id"]),
-    "project.project": new Set(["name", "partner_id", "user_id"]),
-    "project.task": new Set(["name", "description", "date_deadline", "project_id", "lead_id", "parent_id", "user_ids", "stage_id"]),
-  }[model];
-
-  if (!allowedByModel) return null;
-  if (!values || typeof values !== "object") return null;
-
-  const clean = {};
-  for (const [k, v] of Object.entries(values)) {
-    if (allowedByModel.has(k)) clean[k] = v;
-  }
-
-  // Normalize M2M for project.task user_ids
-  if (model === "project.task" && Array.isArray(clean.user_ids)) {
-    const ids = clean.user_ids.map((x) => Number(x)).filter(Boolean);
-    if (ids.length) clean.user_ids = [[6, 0, ids]];
-    else delete clean.user_ids;
-  }
-
-  return clean;
-}
-
-function buildSearchSpec(model, q) {
-  const isEmpty = !q;
-  let domain;
-  let fields;
-
-  if (model === "res.partner") {
-    domain = isEmpty ? [] : ["|", ["name", "ilike", q], ["email", "ilike", q]];
-    fields = ["name", "email", "phone", "mobile", "display_name"];
-  } else if (model === "crm.lead") {
-    domain = isEmpty ? [] : ["|", ["name", "ilike", q], ["email_from", "ilike", q]];
-    fields = ["name", "display_name", "email_from", "partner_id"];
-  } else if (model === "project.project") {
-    domain = isEmpty ? [] : [["name", "ilike", q]];
-    fields = ["name", "display_name", "partner_id", "user_id"];
-  } else if (model === "project.task") {
-    domain = isEmpty ? [] : [["name", "ilike", q]];
-    fields = ["name", "display_name", "project_id", "parent_id", "stage_id"];
-  } else if (model === "res.users") {
-    domain = isEmpty ? [] : [["name", "ilike", q]];
-    fields = ["name", "display_name", "email"];
-  } else if (model === "project.task.type") {
-    domain = isEmpty ? [] : [["name", "ilike", q]];
-    fields = ["name", "display_name"];
-  } else {
-    domain = isEmpty ? [] : [["name", "ilike", q]];
-    fields = ["name", "display_name"];
-  }
-
-  return { domain, fields };
-}
-
 app.post("/api/odoo/search", async (req, res) => {
   try {
     const body = req.body || {};
@@ -186,11 +131,12 @@ app.post("/api/odoo/search", async (req, res) => {
     const q = String(body.query ?? body.q ?? "").trim();
     const limit = Math.min(Number(body.limit ?? 20), 80);
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
 
     if (Array.isArray(body.domain)) {
       const domain = body.domain;
-      const fields = Array.isArray(body.fields) ? body.fields : ["id", "name"];
+      assertReadableDomain(model, domain);
+      const fields = readableFields(model, Array.isArray(body.fields) ? body.fields : ["id", "name"]);
       const order = typeof body.order === "string" ? body.order : undefined;
       const records = await odoo.searchRead(model, domain, fields, limit, order);
       return res.json({ records: records || [] });
@@ -201,7 +147,7 @@ app.post("/api/odoo/search", async (req, res) => {
     return res.json({ records: records || [] });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -212,17 +158,18 @@ app.post("/api/odoo/search-domain", async (req, res) => {
 
     if (!modelAllowed(m)) return res.status(400).send("Model not allowed");
     if (!Array.isArray(domain)) return res.status(400).send("Missing domain");
+    assertReadableDomain(m, domain);
 
     const lim = Math.min(Number(limit ?? 20), 80);
-    const f = Array.isArray(fields) ? fields : ["id", "name"];
+    const f = readableFields(m, Array.isArray(fields) ? fields : ["id", "name"]);
     const ord = typeof order === "string" ? order : undefined;
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     const records = await odoo.searchRead(m, domain, f, lim, ord);
     return res.json({ records: records || [] });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -235,14 +182,14 @@ app.post("/api/odoo/read", async (req, res) => {
     if (!modelAllowed(m)) return res.status(400).send("Model not allowed");
     if (!idList.length) return res.status(400).send("Missing ids");
 
-    const f = Array.isArray(fields) ? fields : ["id", "name", "display_name"];
+    const f = readableFields(m, Array.isArray(fields) ? fields : ["id", "name", "display_name"]);
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     const records = await odoo.read(m, idList, f);
     return res.json({ records: records || [] });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -256,16 +203,16 @@ app.post("/api/odoo/write", async (req, res) => {
     const idList = (Array.isArray(ids) ? ids : [id]).map((x) => Number(x)).filter(Boolean);
     if (!idList.length) return res.status(400).send("Missing id(s)");
 
-    const clean = cleanValuesForModel(m, values);
+    const clean = writableValues(m, values);
     if (!clean) return res.status(400).send("Missing values");
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     // write accepts a list of ids
     const ok = await odoo.call(m, "write", [idList, clean]);
     return res.json({ ok: true, result: ok });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -281,29 +228,37 @@ app.post("/api/odoo/call", async (req, res) => {
     if (!ALLOWED_CALL_METHODS.has(meth)) return res.status(400).send("Method not allowed");
 
     let safeArgs = Array.isArray(args) ? args : [];
-    const safeKw = (kwargs && typeof kwargs === "object") ? kwargs : {};
+    const safeKw = (kwargs && typeof kwargs === "object") ? { ...kwargs } : {};
 
-    // sanitize create/write payloads (defense-in-depth)
+    // sanitize payloads against the model policy (defense-in-depth)
+    if (meth === "search_read") {
+      assertReadableDomain(m, Array.isArray(safeArgs[0]) ? safeArgs[0] : []);
+      safeKw.fields = readableFields(m, safeKw.fields);
+    }
+    if (meth === "read") {
+      if (safeArgs.length > 1) safeArgs = [safeArgs[0], readableFields(m, safeArgs[1])];
+      else safeKw.fields = readableFields(m, safeKw.fields);
+    }
     if (meth === "create") {
-      const clean = cleanValuesForModel(m, safeArgs[0]);
+      const clean = writableValues(m, safeArgs[0]);
       if (!clean) return res.status(400).send("Missing values");
       safeArgs = [clean];
     }
     if (meth === "write") {
       const ids0 = Array.isArray(safeArgs[0]) ? safeArgs[0] : [];
       const vals0 = safeArgs[1];
-      const clean = cleanValuesForModel(m, vals0);
+      const clean = writableValues(m, vals0);
       if (!ids0.length) return res.status(400).send("Missing ids");
       if (!clean) return res.status(400).send("Missing values");
       safeArgs = [ids0, clean];
     }
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     const result = await odoo.call(m, meth, safeArgs, safeKw);
     return res.json({ ok: true, result });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -315,41 +270,72 @@ app.post("/api/odoo/create", async (req, res) => {
     if (!modelAllowed(m)) return res.status(400).send("Model not allowed");
     if (!values || typeof values !== "object") return res.status(400).send("Missing values");
 
-    const allowedByModel = {
-      "res.partner": new Set(["name", "email", "phone", "mobile"]),
-      "crm.lead": new Set(["name", "email_from", "partner_id"]),
-      "project.project": new Set(["name", "partner_id", "user_id"]),
-      // project.task:
-      // - project_id (opcional)
-      // - lead_id (opcional; só funciona se o módulo criar o campo)
-      // - parent_id (subtarefa)
-      // - user_ids (m2m) é convertido abaixo
-      "project.task": new Set(["name", "description", "date_deadline", "project_id", "lead_id", "parent_id", "user_ids", "stage_id"]),
-    }[m];
-
-    if (!allowedByModel) return res.status(400).send("Model not allowed");
-
-    const clean = {};
-    for (const [k, v] of Object.entries(values)) {
-      if (allowedByModel.has(k)) clean[k] = v;
-    }
-
-    // Normalização simples de Many2many (Dialog envia [id], Odoo quer command)
-    if (m === "project.task" && Array.isArray(clean.user_ids)) {
-      const ids = clean.user_ids.map((x) => Number(x)).filter(Boolean);
-      if (ids.length) clean.user_ids = [[6, 0, ids]];
-      else delete clean.user_ids;
-    }
+    const clean = writableValues(m, values);
+    if (!clean) return res.status(400).send("Model not allowed");
 
     if (!clean.name) return res.status(400).send("Missing name");
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
     const id = await odoo.create(m, clean);
 
     return res.json({ ok: true, id });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * POST /api/odoo/partners/match
+ * body: { emails: [email] } → { matches: { [email]: { exact, fuzzy, duplicate } } }
+ */
+app.post("/api/odoo/partners/match", async (req, res) => {
+  try {
+    const emails = Array.isArray(req.body?.emails) ? req.body.emails.map(String) : [];
+    if (emails.length > 100) return res.status(400).send("Too many emails (max 100)");
+    const odoo = await odooClientForRequest(req);
+    return res.json({ ok: true, matches: await matchPartnersByEmail(odoo, emails) });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * POST /api/odoo/partners/vendor
+ * body: { vat, name } (from an extracted invoice) → { matchedBy, partners }
+ */
+app.post("/api/odoo/partners/vendor", async (req, res) => {
+  try {
+    const { vat, name } = req.body || {};
+    const odoo = await odooClientForRequest(req);
+    return res.json({ ok: true, ...(await matchVendor(odoo, { vat, name })) });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * POST /api/odoo/recognize
+ * body: { fromEmail, to: [email], cc: [email], exclude?: [email] }
+ * Contactos conhecidos / oportunidades abertas do email aberto (um pedido por email).
+ */
+app.post("/api/odoo/recognize", async (req, res) => {
+  try {
+    const { fromEmail, to, cc, exclude } = req.body || {};
+    const list = (v) => (Array.isArray(v) ? v.map(String) : []);
+    const odoo = await odooClientForRequest(req);
+    const result = await recognizeParticipants(odoo, {
+      fromEmail: String(fromEmail || ""),
+      to: list(to),
+      cc: list(cc),
+      exclude: list(exclude),
+    });
+    return res.json({ ok: true, ...result });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
@@ -372,6 +358,21 @@ app.post("/api/odoo/link-email", async (req, res) => {
     const receivedAtIso = bodyIn.receivedAtIso ?? bodyIn.emailReceivedAtIso;
     const emailWebLink = bodyIn.emailWebLink ?? bodyIn.url;
     const internetMessageId = bodyIn.internetMessageId ?? bodyIn.internet_message_id;
+    const attachmentsIn = Array.isArray(bodyIn.attachments) ? [...bodyIn.attachments] : [];
+    const archiveMode = normalizeArchiveMode(bodyIn.archiveMode);
+    const bodyHtml = String(bodyIn.bodyHtml || "");
+    const includeEml = Boolean(bodyIn.includeEml);
+    const toList = Array.isArray(bodyIn.to) ? bodyIn.to.map(String).filter(Boolean) : [];
+    const ccList = Array.isArray(bodyIn.cc) ? bodyIn.cc.map(String).filter(Boolean) : [];
+    // InvoiceStudio documents extracted from this email (Buckets tab)
+    const invoices = (Array.isArray(bodyIn.invoices) ? bodyIn.invoices : [])
+      .filter((i) => i?.documentId)
+      .map((i) => ({
+        bucket: String(i.bucket || ""),
+        bucketName: String(i.bucketName || i.bucket || ""),
+        documentId: String(i.documentId),
+        fileName: String(i.fileName || ""),
+      }));
 
     const m = String(model || "").trim();
 
@@ -379,11 +380,51 @@ app.post("/api/odoo/link-email", async (req, res) => {
     if (!conversationId) return res.status(400).send("Missing conversationId");
     if (!rid) return res.status(400).send("Missing recordId");
 
-    const odoo = await odooClientFromEnv();
+    const odoo = await odooClientForRequest(req);
 
     const safeSubject = subject || "(sem assunto)";
     const safeFrom = `${(fromName || "").trim()}${fromEmail ? ` <${fromEmail}>` : ""}`.trim() || "(desconhecido)";
 
+    // Corpo a arquivar (escolha por ligação): só cabeçalho / corpo completo / resumo IA
+    const section = await buildArchiveSection({
+      mode: archiveMode,
+      bodyHtml,
+      subject: safeSubject,
+      from: safeFrom,
+      to: toList,
+      cc: ccList,
+    });
+
+    // .eml: original do Outlook quando disponível, senão reconstruído a partir do HTML
+    const emlName = includeEml ? emlFileName(safeSubject) : "";
+    if (includeEml) {
+      attachmentsIn.push({
+        name: emlName,
+        contentType: "message/rfc822",
+        contentBase64:
+          String(bodyIn.emlBase64 || "") ||
+          buildEml({
+            subject: safeSubject,
+            fromName,
+            fromEmail,
+            to: toList,
+            cc: ccList,
+            dateIso: receivedAtIso,
+            internetMessageId,
+            html: sanitizeEmailHtml(bodyHtml),
+          }),
+      });
+    }
+
+    // Anexos escolhidos no Dialog → ir.attachment no registo (resultado por ficheiro)
+    const attachments = attachmentsIn.length ? await uploadAttachments(odoo, m, rid, attachmentsIn) : [];
+    const attachmentIds = attachments.filter((a) => a.ok).map((a) => a.id);
+    const failedAttachments = attachments.filter((a) => !a.ok);
+    const archive = {
+      ...section.archive,
+      eml: includeEml && attachments.some((a) => a.ok && a.name === emlName),
+    };
+
     // HTML limpo e legível dentro do chatter do Odoo
     const body = [
       `<p><b>Ligação criada a partir do Outlook</b></p>`,
@@ -393,11 +434,21 @@ app.post("/api/odoo/link-email", async (req, res) => {
       internetMessageId ? `<p><b>InternetMessageId:</b> <code>${escapeHtml(internetMessageId)}</code></p>` : "",
       `<p style="color:#666;"><small><b>Thread/ConversationId:</b> ${escapeHtml(conversationId)}</small></p>`,
       emailWebLink ? `<p><b>Outlook link:</b> <a href="${escapeHtml(emailWebLink)}" target="_blank" rel="noreferrer">Abrir email</a></p>` : "",
-      `<p style="color:#888;"><small>(Anexos: MVP ainda não envia. Próxima fase.)</small></p>`,
+      attachmentIds.length ? `<p><b>Anexos:</b> ${attachmentIds.length} enviado(s)</p>` : "",
+      ...invoices.map(
+        (i) =>
+          `<p><b>Fatura enviada para o bucket</b> ${escapeHtml(i.bucketName)} → documento <code>${escapeHtml(i.documentId)}</code>${
+            i.fileName ? ` (${escapeHtml(i.fileName)})` : ""
+          }</p>`
+      ),
+      failedAttachments.length
+        ? `<p style="color:#888;"><small>Anexos não enviados: ${escapeHtml(failedAttachments.map((a) => `${a.name} (${a.error})`).join("; "))}</small></p>`
+        : "",
+      section.html,
     ].filter(Boolean).join("\n");
 
     // message_post no chatter do registo
-    await odoo.messagePost(m, rid, body, safeSubject);
+    await odoo.messagePost(m, rid, body, safeSubject, { attachmentIds });
 
     const entry = {
       model: m,
@@ -408,17 +459,23 @@ app.post("/api/odoo/link-email", async (req, res) => {
       subject: safeSubject,
       fromEmail: fromEmail || "",
       fromName: fromName || "",
+      receivedAtIso: receivedAtIso || "",
+      archive,
+      ...(invoices.length ? { invoices } : {}),
     };
 
     const list = addLink(conversationId, entry);
 
-    return res.json({ ok: true, links: list });
+    return res.json({ ok: true, links: list, attachments, archive });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
+// Limites de anexos (o Dialog usa para desativar ficheiros que o servidor iria recusar)
+app.get("/api/odoo/attachments/policy", (_req, res) => res.json({ ok: true, ...attachmentPolicy() }));
+
 // ✅ Alias compatível com o UI (evita "Cannot POST /api/links/link")
 app.post("/api/links/link", (req, res) => {
   // reusa o handler principal
@@ -434,7 +491,108 @@ app.get("/api/links", (req, res) => {
     return res.json({ links });
   } catch (e) {
     console.error(e);
-    return res.status(500).send(String(e?.message || e));
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * 403 unless the caller's Odoo account can read model/recordId (model policy + Odoo access rules).
+ * Guards the link routes, which otherwise never touch Odoo.
+ */
+async function assertRecordReadable(odoo, model, recordId) {
+  let rows = null;
+  if (modelAllowed(model)) {
+    try {
+      rows = await odoo.searchRead(model, [["id", "=", Number(recordId)]], ["id"], 1);
+    } catch (e) {
+      console.error(`[links] access check failed for ${model} #${recordId}:`, e?.message || e);
+    }
+  }
+  if (!rows?.length) throw Object.assign(new Error(`Sem acesso ao registo ${model} #${recordId}`), { status: 403 });
+}
+
+// Reverse lookup: todas as conversas ligadas a um registo do Odoo (só para quem consegue ler o registo)
+app.get("/api/links/by-record", async (req, res) => {
+  try {
+    const model = String(req.query.model || "").trim();
+    const recordId = Number(req.query.recordId);
+    if (!modelAllowed(model)) return res.status(400).send("Model not allowed");
+    if (!recordId) return res.status(400).send("Missing recordId");
+    const odoo = await odooClientForRequest(req);
+    await assertRecordReadable(odoo, model, recordId);
+    return res.json({ links: listLinksByRecord(model, recordId) });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * DELETE /api/links/:id
+ * body (opcional): { postNote: true } → deixa nota "Ligação removida" no chatter do registo
+ * O utilizador tem de conseguir ler o registo ligado no Odoo.
+ */
+app.delete("/api/links/:id", async (req, res) => {
+  try {
+    const odoo = await odooClientForRequest(req);
+    const link = getLink(req.params.id);
+    if (!link) return res.status(404).send("Link not found");
+    await assertRecordReadable(odoo, link.model, link.recordId);
+
+    // A nota é best-effort: a ligação é removida mesmo que o Odoo falhe
+    let noteError = null;
+    if (req.body?.postNote) {
+      try {
+        const body = [
+          `<p><b>Ligação removida a partir do Outlook</b></p>`,
+          `<p><b>Assunto:</b> ${escapeHtml(link.subject || "(sem assunto)")}</p>`,
+          link.fromEmail ? `<p><b>De:</b> ${escapeHtml(`${link.fromName || ""} <${link.fromEmail}>`.trim())}</p>` : "",
+          `<p style="color:#666;"><small><b>Thread/ConversationId:</b> ${escapeHtml(link.conversationId)}</small></p>`,
+        ].filter(Boolean).join("\n");
+        await odoo.messagePost(link.model, link.recordId, body, "Ligação removida");
+      } catch (e) {
+        console.error("[links] remove note failed:", e?.message || e);
+        noteError = String(e?.message || e);
+      }
+    }
+
+    removeLink(link.id);
+    return res.json({ ok: true, removed: link, links: listLinksByConversation(link.conversationId), noteError });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
+  }
+});
+
+/**
+ * PATCH /api/links/:id
+ * body: { model?, recordId?, recordName? } (corrigir o registo ligado / nome apresentado)
+ * O utilizador tem de conseguir ler o registo atual e o novo no Odoo.
+ */
+app.patch("/api/links/:id", async (req, res) => {
+  try {
+    const { model, recordId, recordName } = req.body || {};
+    if (model != null && !modelAllowed(String(model).trim())) return res.status(400).send("Model not allowed");
+    if (recordId != null && !Number(recordId)) return res.status(400).send("Invalid recordId");
+
+    const odoo = await odooClientForRequest(req);
+    const current = getLink(req.params.id);
+    if (!current) return res.status(404).send("Link not found");
+    await assertRecordReadable(odoo, current.model, current.recordId);
+    const nextModel = model != null ? String(model).trim() : current.model;
+    const nextId = recordId != null ? Number(recordId) : current.recordId;
+    if (nextModel !== current.model || nextId !== current.recordId) await assertRecordReadable(odoo, nextModel, nextId);
+
+    const link = updateLink(req.params.id, {
+      model: model != null ? String(model).trim() : undefined,
+      recordId,
+      recordName,
+    });
+    if (!link) return res.status(404).send("Link not found");
+    return res.json({ ok: true, link, links: listLinksByConversation(link.conversationId) });
+  } catch (e) {
+    console.error(e);
+    return res.status(e?.status || 500).send(String(e?.message || e));
   }
 });
 
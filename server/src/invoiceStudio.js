@@ -0,0 +1,240 @@
+// server/src/invoiceStudio.js
+// Outlook attachments → InvoiceStudio "Buckets" (POST {base}/api/v2/extract, one file per request).
+
+import { attachmentPolicy, base64Bytes } from "./attachments.js";
+import { getUserCredential, setUserCredential, userFromRequest } from "./credentialStore.js";
+
+/**
+ * Env:
+ *   INVOICESTUDIO_URL         app URL, e.g. https://invoicestudiogrvty.onrender.com ("/api" suffix is optional)
+ *   INVOICESTUDIO_TOKEN       shared JWT copied from the web app (Option A), used when the Outlook user has not logged in
+ *   INVOICESTUDIO_AUTH_MODE   "optional" when InvoiceStudio runs with AUTH_MODE=optional: without a token the
+ *                             Authorization header is skipped and InvoiceStudio uses default-org
+ *   INVOICESTUDIO_TIMEOUT_MS  per file (default 120000; extraction runs AI on the document)
+ */
+export function invoiceStudioConfig() {
+  const url = String(process.env.INVOICESTUDIO_URL || "").trim().replace(/\/+$/, "").replace(/\/api$/, "");
+  return {
+    url,
+    apiBase: url ? `${url}/api` : "",
+    token: String(process.env.INVOICESTUDIO_TOKEN || "").trim(),
+    timeoutMs: Number(process.env.INVOICESTUDIO_TIMEOUT_MS || 120000),
+    authOptional: String(process.env.INVOICESTUDIO_AUTH_MODE || "").trim().toLowerCase() === "optional",
+  };
+}
+
+export const INVOICESTUDIO_CREDENTIAL = "invoicestudio";
+
+async function requestInvoiceStudio(url, init, timeoutMs) {
+  const controller = new AbortController();
+  const t = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const res = await fetch(url, { ...init, signal: controller.signal });
+    const text = await res.text();
+    let data;
+    try { data = text ? JSON.parse(text) : null; } catch { data = { raw_text: text }; }
+
+    if (!res.ok) {
+      const msg = data?.error?.message || data?.error || data?.message || data?.raw_text || `HTTP ${res.status}`;
+      throw Object.assign(new Error(`InvoiceStudio: ${String(msg).slice(0, 300)}`), { status: res.status });
+    }
+    return data || {};
+  } catch (e) {
+    if (e?.name === "AbortError") throw Object.assign(new Error("InvoiceStudio: tempo limite excedido"), { status: 504 });
+    throw e;
+  } finally {
+    clearTimeout(t);
+  }
+}
+
+/**
+ * Option B: POST {base}/api/auth/login { email, password }
+ * returns { token, userName, org }
+ */
+export async function invoiceStudioLogin(email, password) {
+  const cfg = invoiceStudioConfig();
+  if (!cfg.apiBase) throw Object.assign(new Error("INVOICESTUDIO_URL não configurado"), { status: 500 });
+
+  const data = await requestInvoiceStudio(
+    `${cfg.apiBase}/auth/login`,
+    { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify({ email, password }) },
+    30000
+  );
+  const token = data.token || data.accessToken || data.access_token || data.jwt || "";
+  if (!token) throw Object.assign(new Error("InvoiceStudio: login sem token na resposta"), { status: 502 });
+
+  const u = data.user || {};
+  return { token, userName: u.name || u.email || email, org: u.orgId || u.org || data.org || "" };
+}
+
+// Sealed secret = { token, password? } (password only when the user chose to stay signed in)
+function readSecret(secret) {
+  try {
+    const obj = JSON.parse(secret);
+    return { token: String(obj?.token || ""), password: String(obj?.password || "") };
+  } catch {
+    return { token: String(secret || ""), password: "" };
+  }
+}
+
+export function saveInvoiceStudioSession(user, { login, userName, org, token, password }) {
+  setUserCredential(user, INVOICESTUDIO_CREDENTIAL, {
+    login,
+    userName: userName || "",
+    org: org || "",
+    remember: Boolean(password),
+    expired: false,
+    secret: JSON.stringify({ token, password: password || undefined }),
+  });
+}
+
+// Public view of the user's InvoiceStudio session (never the token)
+export function invoiceStudioAccount(user) {
+  const cred = user ? getUserCredential(user, INVOICESTUDIO_CREDENTIAL) : null;
+  if (!cred?.login) return null;
+  return {
+    login: cred.login,
+    userName: cred.userName || "",
+    org: cred.org || "",
+    remember: Boolean(cred.remember),
+    expired: Boolean(cred.expired) || !readSecret(cred.secret).token,
+  };
+}
+
+/**
+ * Token for this request:
+ *   1. the Outlook user's own session (Definições → InvoiceStudio); on 401 `refresh()` logs in again
+ *      with the stored password, or marks the session expired so the add-in asks for a new login
+ *   2. the shared INVOICESTUDIO_TOKEN
+ *   3. no token, only with INVOICESTUDIO_AUTH_MODE=optional (InvoiceStudio falls back to default-org)
+ * returns { token, refresh: async () => newToken | "" }
+ */
+export function invoiceStudioSessionForRequest(req) {
+  const cfg = invoiceStudioConfig();
+  const user = userFromRequest(req);
+  const cred = user ? getUserCredential(user, INVOICESTUDIO_CREDENTIAL) : null;
+  const { token, password } = readSecret(cred?.secret);
+
+  if (cred?.login && token && !cred.expired) {
+    return {
+      token,
+      async refresh() {
+        if (password) {
+          try {
+            const r = await invoiceStudioLogin(cred.login, password);
+            saveInvoiceStudioSession(user, { ...r, login: cred.login, password });
+            return r.token;
+          } catch (e) {
+            console.error("[invoiceStudio] re-login failed:", cred.login, e?.message || e);
+          }
+        }
+        setUserCredential(user, INVOICESTUDIO_CREDENTIAL, { ...cred, expired: true, secret: JSON.stringify({ password: password || undefined }) });
+        return "";
+      },
+    };
+  }
+
+  if (cfg.token) return { token: cfg.token, refresh: async () => "" };
+  if (cfg.authOptional) return { token: "", refresh: async () => "" };
+
+  throw Object.assign(
+    new Error(
+      cred?.login
+        ? "Sessão InvoiceStudio expirada. Vai a Definições → InvoiceStudio e faz login."
+        : "Sem sessão InvoiceStudio. Vai a Definições → InvoiceStudio e faz login."
+    ),
+    { status: 401 }
+  );
+}
+
+// "Nicolazzi" → "nicolazzi"; the x-project header only takes slugs
+export function normalizeProject(project) {
+  return String(project || "")
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+async function extractOne({ apiBase, timeoutMs }, token, project, file) {
+  const form = new FormData();
+  const bytes = Buffer.from(String(file.contentBase64).replace(/\s+/g, ""), "base64");
+  form.append("file", new Blob([bytes], { type: file.contentType || "application/octet-stream" }), file.name);
+
+  const headers = { "x-project": project };
+  if (token) headers.Authorization = `Bearer ${token}`;
+
+  return await requestInvoiceStudio(`${apiBase}/v2/extract`, { method: "POST", headers, body: form }, timeoutMs);
+}
+
+/**
+ * input:  project (bucket slug), [{ name, contentType, contentBase64 }], session (invoiceStudioSessionForRequest)
+ * returns { project, batchIds, results: [{ fileName, status, documentId?, normalized?, error? }] }
+ *   one entry per input file, in the same order; a failed upload never aborts the others,
+ *   except 401/403 after one refresh attempt, which is thrown since every other file would fail the same way.
+ */
+export async function extractToBucket(project, attachments, session) {
+  const cfg = invoiceStudioConfig();
+  if (!cfg.apiBase) throw Object.assign(new Error("INVOICESTUDIO_URL não configurado"), { status: 500 });
+
+  const slug = normalizeProject(project);
+  if (!slug) throw Object.assign(new Error("Bucket em falta"), { status: 400 });
+
+  const policy = attachmentPolicy();
+  const list = Array.isArray(attachments) ? attachments : [];
+  if (!list.length) throw Object.assign(new Error("Nenhum anexo selecionado"), { status: 400 });
+
+  const results = [];
+  const batchIds = [];
+  let token = session?.token || "";
+  for (let i = 0; i < list.length; i++) {
+    const a = list[i] || {};
+    const fileName = String(a.name || `anexo-${i + 1}`).trim();
+    const reject = (error) => results.push({ fileName, status: "error", error });
+
+    if (i >= policy.maxFiles) {
+      reject(`Máximo de ${policy.maxFiles} anexos por envio`);
+      continue;
+    }
+    if (!a.contentBase64) {
+      reject(a.error ? String(a.error) : "Conteúdo em falta");
+      continue;
+    }
+    if (base64Bytes(a.contentBase64) > policy.maxBytes) {
+      reject(`Ficheiro demasiado grande (máx. ${Math.round(policy.maxBytes / 1024 / 1024)} MB)`);
+      continue;
+    }
+
+    try {
+      const file = { ...a, name: fileName };
+      let data;
+      try {
+        data = await extractOne(cfg, token, slug, file);
+      } catch (e) {
+        if (e?.status !== 401 || !session?.refresh) throw e;
+        token = await session.refresh();
+        if (!token) throw Object.assign(new Error("InvoiceStudio recusou a sessão. Vai a Definições → InvoiceStudio e faz login."), { status: 401 });
+        data = await extractOne(cfg, token, slug, file);
+      }
+      if (data.batchId) batchIds.push(data.batchId);
+      const rows = Array.isArray(data.results) ? data.results : [];
+      if (!rows.length) reject("Resposta sem resultados");
+      for (const r of rows) {
+        results.push({
+          fileName: r?.fileName || fileName,
+          status: String(r?.status || "unknown"),
+          documentId: r?.documentId || undefined,
+          normalized: r?.normalized ?? undefined,
+          error: r?.error ? String(r.error?.message || r.error) : undefined,
+        });
+      }
+    } catch (e) {
+      if (e?.status === 401 || e?.status === 403) throw e;
+      console.error("[invoiceStudio] extract failed:", fileName, e?.message || e);
+      reject(String(e?.message || e));
+    }
+  }
+
+  return { project: slug, batchIds, results };
+}
@@ -0,0 +1,97 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+const DATA_DIR = path.join(process.cwd(), "server", "data");
+const FILE_PATH = process.env.KNOWLEDGE_PATH || path.join(DATA_DIR, "knowledge.json");
+
+/**
+ * Team knowledge base for the AI (shared by every user of this server):
+ * {
+ *   "entries": [
+ *     { id, title, body, tags: [], pinned, createdBy, createdAt, updatedBy, updatedAt }
+ *   ]
+ * }
+ * `pinned` entries go into every prompt; the others only when retrieved for the email
+ * (see ai/knowledge.js).
+ */
+function readAll() {
+  if (!fs.existsSync(FILE_PATH)) return { entries: [] };
+  try {
+    const obj = JSON.parse(fs.readFileSync(FILE_PATH, "utf-8") || "{}");
+    return { entries: Array.isArray(obj.entries) ? obj.entries : [] };
+  } catch {
+    return { entries: [] };
+  }
+}
+
+function writeAll(obj) {
+  fs.mkdirSync(path.dirname(FILE_PATH), { recursive: true });
+  fs.writeFileSync(FILE_PATH, JSON.stringify(obj, null, 2), "utf-8");
+}
+
+function normalizeTags(tags) {
+  const list = Array.isArray(tags) ? tags : String(tags || "").split(",");
+  return [...new Set(list.map((t) => String(t || "").trim().toLowerCase()).filter(Boolean))];
+}
+
+function cleanFields({ title, body, tags, pinned }) {
+  const out = {};
+  if (title !== undefined) out.title = String(title || "").trim();
+  if (body !== undefined) out.body = String(body || "").trim();
+  if (tags !== undefined) out.tags = normalizeTags(tags);
+  if (pinned !== undefined) out.pinned = Boolean(pinned);
+  return out;
+}
+
+export function listKnowledge() {
+  return readAll().entries;
+}
+
+export function getKnowledge(id) {
+  return readAll().entries.find((e) => e.id === String(id)) || null;
+}
+
+export function addKnowledge(fields, user) {
+  const entry = { title: "", body: "", tags: [], pinned: false, ...cleanFields(fields) };
+  if (!entry.title && !entry.body) throw Object.assign(new Error("Nota vazia (título ou texto em falta)"), { status: 400 });
+
+  const now = new Date().toISOString();
+  const all = readAll();
+  const saved = {
+    id: crypto.randomBytes(6).toString("hex"),
+    ...entry,
+    createdBy: user || "",
+    createdAt: now,
+    updatedBy: user || "",
+    updatedAt: now,
+  };
+  all.entries.push(saved);
+  writeAll(all);
+  return saved;
+}
+
+// Returns the updated entry, or null when it doesn't exist
+export function updateKnowledge(id, fields, user) {
+  const all = readAll();
+  const idx = all.entries.findIndex((e) => e.id === String(id));
+  if (idx < 0) return null;
+  all.entries[idx] = {
+    ...all.entries[idx],
+    ...cleanFields(fields),
+    updatedBy: user || "",
+    updatedAt: new Date().toISOString(),
+  };
+  writeAll(all);
+  return all.entries[idx];
+}
+
+// Returns the removed entry (or null when it didn't exist)
+export function removeKnowledge(id) {
+  const all = readAll();
+  const entry = all.entries.find((e) => e.id === String(id));
+  if (!entry) return null;
+  all.entries = all.entries.filter((e) => e !== entry);
+  writeAll(all);
+  return entry;
+}
@@ -1,55 +1,229 @@
 import fs from "node:fs";
 import path from "node:path";
+import Database from "better-sqlite3";
 
 const DATA_DIR = path.join(process.cwd(), "server", "data");
-const FILE_PATH = path.join(DATA_DIR, "links.json");
+const DB_PATH = process.env.LINKS_DB_PATH || path.join(DATA_DIR, "links.db");
+const LEGACY_JSON_PATH = path.join(DATA_DIR, "links.json");
 
 /**
- * Simple file store:
- * {
- *   "conversationId:<id>": [
- *     { model, recordId, recordName, linkedAt, internetMessageId, subject, fromEmail, fromName }
- *   ]
- * }
+ * SQLite store (better-sqlite3, WAL). One row per (conversationId, model, recordId):
+ *   { id, conversationId, model, recordId, recordName, linkedAt, internetMessageId,
+ *     subject, fromEmail, fromName, ...extra (archive, invoices, ...) }
+ *
+ * Schema changes go in MIGRATIONS (tracked with PRAGMA user_version).
+ * The first migration imports the old links.json file and renames it to links.json.migrated.
  */
-function ensureFile() {
-  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
-  if (!fs.existsSync(FILE_PATH)) fs.writeFileSync(FILE_PATH, JSON.stringify({}), "utf-8");
+const COLUMNS = {
+  conversationId: "conversation_id",
+  model: "model",
+  recordId: "record_id",
+  recordName: "record_name",
+  linkedAt: "linked_at",
+  internetMessageId: "internet_message_id",
+  subject: "subject",
+  fromEmail: "from_email",
+  fromName: "from_name",
+};
+
+const MIGRATIONS = [
+  // v1: links table + indexes + links.json import
+  (db) => {
+    db.exec(`
+      CREATE TABLE links (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        conversation_id TEXT NOT NULL,
+        model TEXT NOT NULL,
+        record_id INTEGER NOT NULL,
+        record_name TEXT NOT NULL DEFAULT '',
+        linked_at TEXT NOT NULL,
+        internet_message_id TEXT NOT NULL DEFAULT '',
+        subject TEXT NOT NULL DEFAULT '',
+        from_email TEXT NOT NULL DEFAULT '',
+        from_name TEXT NOT NULL DEFAULT '',
+        extra TEXT NOT NULL DEFAULT '{}'
+      );
+      CREATE UNIQUE INDEX idx_links_conversation ON links (conversation_id, model, record_id);
+      CREATE INDEX idx_links_message ON links (internet_message_id);
+      CREATE INDEX idx_links_record ON links (model, record_id);
+    `);
+    importLegacyJson(db);
+  },
+];
+
+let db = null;
+
+function getDb() {
+  if (db) return db;
+  fs.mkdirSync(path.dirname(DB_PATH), { recursive: true });
+  const conn = new Database(DB_PATH);
+  conn.pragma("journal_mode = WAL");
+  conn.pragma("busy_timeout = 5000");
+
+  const version = conn.pragma("user_version", { simple: true });
+  for (let v = version; v < MIGRATIONS.length; v++) {
+    conn.transaction(() => {
+      MIGRATIONS[v](conn);
+      conn.pragma(`user_version = ${v + 1}`);
+    })();
+    console.log(`[linkStore] migrated to v${v + 1}`);
+  }
+
+  db = conn;
+  return db;
+}
+
+function toRow(conversationId, entry) {
+  const extra = { ...entry };
+  for (const k of Object.keys(COLUMNS)) delete extra[k];
+  delete extra.id;
+  return {
+    conversation_id: String(conversationId),
+    model: String(entry.model || ""),
+    record_id: Number(entry.recordId),
+    record_name: String(entry.recordName || ""),
+    linked_at: String(entry.linkedAt || new Date().toISOString()),
+    internet_message_id: String(entry.internetMessageId || ""),
+    subject: String(entry.subject || ""),
+    from_email: String(entry.fromEmail || ""),
+    from_name: String(entry.fromName || ""),
+    extra: JSON.stringify(extra),
+  };
 }
 
-function readAll() {
-  ensureFile();
-  const raw = fs.readFileSync(FILE_PATH, "utf-8");
+function fromRow(row) {
+  let extra = {};
   try {
-    return JSON.parse(raw || "{}");
+    extra = JSON.parse(row.extra || "{}");
   } catch {
-    return {};
+    extra = {};
   }
+  const entry = { ...extra, id: row.id };
+  for (const [k, col] of Object.entries(COLUMNS)) entry[k] = row[col];
+  return entry;
+}
+
+function insert(conn, row) {
+  return conn
+    .prepare(
+      `INSERT OR IGNORE INTO links
+        (conversation_id, model, record_id, record_name, linked_at, internet_message_id, subject, from_email, from_name, extra)
+       VALUES
+        (@conversation_id, @model, @record_id, @record_name, @linked_at, @internet_message_id, @subject, @from_email, @from_name, @extra)`
+    )
+    .run(row);
 }
 
-function writeAll(obj) {
-  ensureFile();
-  fs.writeFileSync(FILE_PATH, JSON.stringify(obj, null, 2), "utf-8");
+function importLegacyJson(conn) {
+  if (!fs.existsSync(LEGACY_JSON_PATH)) return;
+  let all = {};
+  try {
+    all = JSON.parse(fs.readFileSync(LEGACY_JSON_PATH, "utf-8") || "{}");
+  } catch (e) {
+    console.error("[linkStore] links.json ilegível, não importado:", e?.message || e);
+    return;
+  }
+
+  let count = 0;
+  for (const [key, arr] of Object.entries(all)) {
+    const conversationId = key.replace(/^conversationId:/, "");
+    if (!conversationId || !Array.isArray(arr)) continue;
+    // JSON was newest-first; insert oldest first so ids follow link order
+    for (const entry of [...arr].reverse()) {
+      if (!entry?.model || !Number(entry.recordId)) continue;
+      count += insert(conn, toRow(conversationId, entry)).changes;
+    }
+  }
+
+  fs.renameSync(LEGACY_JSON_PATH, `${LEGACY_JSON_PATH}.migrated`);
+  console.log(`[linkStore] importados ${count} links de links.json`);
 }
 
 export function listLinksByConversation(conversationId) {
   if (!conversationId) return [];
-  const all = readAll();
-  return all[`conversationId:${conversationId}`] || [];
+  return getDb()
+    .prepare("SELECT * FROM links WHERE conversation_id = ? ORDER BY linked_at DESC, id DESC")
+    .all(String(conversationId))
+    .map(fromRow);
+}
+
+// Every conversation linked to an Odoo record (reverse lookup; uses idx_links_record)
+export function listLinksByRecord(model, recordId) {
+  if (!model || !Number(recordId)) return [];
+  return getDb()
+    .prepare("SELECT * FROM links WHERE model = ? AND record_id = ? ORDER BY linked_at DESC, id DESC")
+    .all(String(model), Number(recordId))
+    .map(fromRow);
+}
+
+// Already linked: keep the existing link and add the new InvoiceStudio documents to it (by documentId)
+function mergeInvoices(conn, row, invoices) {
+  const existing = conn
+    .prepare("SELECT id, extra FROM links WHERE conversation_id = ? AND model = ? AND record_id = ?")
+    .get(row.conversation_id, row.model, row.record_id);
+  if (!existing) return;
+
+  let extra = {};
+  try {
+    extra = JSON.parse(existing.extra || "{}");
+  } catch {
+    extra = {};
+  }
+  const list = Array.isArray(extra.invoices) ? extra.invoices : [];
+  const known = new Set(list.map((i) => i?.documentId));
+  extra.invoices = [...list, ...invoices.filter((i) => !known.has(i?.documentId))];
+  conn.prepare("UPDATE links SET extra = ? WHERE id = ?").run(JSON.stringify(extra), existing.id);
 }
 
 export function addLink(conversationId, entry) {
   if (!conversationId) throw new Error("Missing conversationId");
-  const all = readAll();
-  const key = `conversationId:${conversationId}`;
-  const arr = all[key] || [];
-
-  // Deduplicate by model+recordId
-  const exists = arr.some((x) => x.model === entry.model && Number(x.recordId) === Number(entry.recordId));
-  if (!exists) arr.unshift(entry);
-
-  // Keep last 50
-  all[key] = arr.slice(0, 50);
-  writeAll(all);
-  return all[key];
+  // Deduplicate by conversation+model+recordId (unique index)
+  const conn = getDb();
+  const row = toRow(conversationId, entry);
+  if (!insert(conn, row).changes && Array.isArray(entry.invoices) && entry.invoices.length) {
+    mergeInvoices(conn, row, entry.invoices);
+  }
+  return listLinksByConversation(conversationId);
+}
+
+export function getLink(id) {
+  const row = getDb().prepare("SELECT * FROM links WHERE id = ?").get(Number(id));
+  return row ? fromRow(row) : null;
+}
+
+// Returns the removed entry (or null when it didn't exist)
+export function removeLink(id) {
+  const entry = getLink(id);
+  if (!entry) return null;
+  getDb().prepare("DELETE FROM links WHERE id = ?").run(Number(id));
+  return entry;
+}
+
+/**
+ * Re-points / renames a link. Editable: model, recordId, recordName.
+ * 409 when the conversation is already linked to the target record.
+ */
+export function updateLink(id, patch) {
+  const current = getLink(id);
+  if (!current) return null;
+
+  const next = {
+    ...current,
+    model: patch.model != null ? String(patch.model) : current.model,
+    recordId: patch.recordId != null ? Number(patch.recordId) : current.recordId,
+    recordName: patch.recordName != null ? String(patch.recordName) : current.recordName,
+  };
+  const row = toRow(current.conversationId, next);
+
+  try {
+    getDb()
+      .prepare("UPDATE links SET model = @model, record_id = @record_id, record_name = @record_name WHERE id = @id")
+      .run({ id: Number(id), model: row.model, record_id: row.record_id, record_name: row.record_name });
+  } catch (e) {
+    if (String(e?.code || "").startsWith("SQLITE_CONSTRAINT")) {
+      throw Object.assign(new Error("Esta conversa já está ligada a esse registo"), { status: 409 });
+    }
+    throw e;
+  }
+  return getLink(id);
 }
@@ -0,0 +1,164 @@
+// server/src/modelPolicy.js
+// Which Odoo models/fields the add-in may touch — declared in server/config/modelPolicy.json.
+
+import fs from "node:fs";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const __dirname = path.dirname(fileURLToPath(import.meta.url));
+const DEFAULT_POLICY_PATH = path.join(__dirname, "..", "config", "modelPolicy.json");
+
+/**
+ * Policy file (MODEL_POLICY_FILE overrides the path):
+ * {
+ *   "models": {
+ *     "<model>": {
+ *       "readable":  [fields]  allowed in read/search fields and in client domains ("id" always allowed)
+ *       "writable":  [fields]  kept on create/write (others are dropped); [] = read-only model
+ *       "many2many": [fields]  writable lists of ids, sent to Odoo as [(6, 0, ids)]
+ *       "search":    [fields]  free-text search (ilike, OR-ed)
+ *       "display":   [fields]  default fields returned by search
+ *     }
+ *   }
+ * }
+ * Validated once at boot; an invalid file stops the server.
+ */
+const MODEL_RX = /^[a-z0-9_]+(\.[a-z0-9_]+)+$/;
+const FIELD_RX = /^[a-z_][a-z0-9_]*$/;
+const LISTS = ["readable", "writable", "many2many", "search", "display"];
+
+let policy = null;
+
+function policyError(msg) {
+  return new Error(`[modelPolicy] ${msg}`);
+}
+
+export function validateModelPolicy(raw) {
+  const models = raw?.models;
+  if (!models || typeof models !== "object" || !Object.keys(models).length) {
+    throw policyError("'models' em falta ou vazio");
+  }
+
+  const out = {};
+  for (const [model, spec] of Object.entries(models)) {
+    if (!MODEL_RX.test(model)) throw policyError(`modelo inválido: ${model}`);
+    if (!spec || typeof spec !== "object") throw policyError(`${model}: definição inválida`);
+
+    const entry = {};
+    for (const key of LISTS) {
+      const list = spec[key] ?? [];
+      if (!Array.isArray(list)) throw policyError(`${model}.${key} tem de ser uma lista`);
+      for (const f of list) {
+        if (typeof f !== "string" || !FIELD_RX.test(f)) throw policyError(`${model}.${key}: campo inválido ${JSON.stringify(f)}`);
+      }
+      entry[key] = new Set(list);
+    }
+    entry.readable.add("id");
+
+    if (!entry.search.size) throw policyError(`${model}.search não pode estar vazio`);
+    if (!entry.display.size) throw policyError(`${model}.display não pode estar vazio`);
+    for (const key of ["search", "display"]) {
+      for (const f of entry[key]) {
+        if (!entry.readable.has(f)) throw policyError(`${model}.${key}: '${f}' não está em readable`);
+      }
+    }
+    for (const f of entry.many2many) {
+      if (!entry.writable.has(f)) throw policyError(`${model}.many2many: '${f}' não está em writable`);
+    }
+    out[model] = entry;
+  }
+  return out;
+}
+
+export function loadModelPolicy() {
+  if (policy) return policy;
+  const file = process.env.MODEL_POLICY_FILE || DEFAULT_POLICY_PATH;
+  let raw;
+  try {
+    raw = JSON.parse(fs.readFileSync(file, "utf-8"));
+  } catch (e) {
+    throw policyError(`não foi possível ler ${file}: ${e?.message || e}`);
+  }
+  policy = validateModelPolicy(raw);
+  console.log(`[modelPolicy] ${Object.keys(policy).length} modelos (${file})`);
+  return policy;
+}
+
+function specFor(model) {
+  return loadModelPolicy()[String(model || "").trim()] || null;
+}
+
+function badRequest(msg) {
+  return Object.assign(new Error(msg), { status: 400 });
+}
+
+export function modelAllowed(model) {
+  return Boolean(specFor(model));
+}
+
+export function allowedModels() {
+  return Object.keys(loadModelPolicy());
+}
+
+/**
+ * Requested fields restricted to the readable ones (unknown fields are dropped).
+ * Without a list (or nothing left) → the model's display fields.
+ */
+export function readableFields(model, requested) {
+  const spec = specFor(model);
+  if (!spec) return [];
+  const list = Array.isArray(requested) ? requested.map(String).filter((f) => spec.readable.has(f)) : [];
+  return list.length ? list : [...spec.display];
+}
+
+// Client-supplied domains may only filter on readable fields (the part before any ".")
+export function assertReadableDomain(model, domain) {
+  const spec = specFor(model);
+  if (!spec) throw badRequest("Model not allowed");
+  if (!Array.isArray(domain)) throw badRequest("Invalid domain");
+
+  for (const term of domain) {
+    if (typeof term === "string") {
+      if (!["|", "&", "!"].includes(term)) throw badRequest(`Invalid domain operator: ${term}`);
+      continue;
+    }
+    if (!Array.isArray(term) || term.length !== 3) throw badRequest("Invalid domain leaf");
+    const root = String(term[0] || "").split(".")[0];
+    if (!spec.readable.has(root)) throw badRequest(`Field not allowed in domain: ${term[0]}`);
+  }
+}
+
+/**
+ * Values restricted to the writable fields; many2many lists of ids become [(6, 0, ids)].
+ * returns null when the model is read-only or values are missing.
+ */
+export function writableValues(model, values) {
+  const spec = specFor(model);
+  if (!spec || !spec.writable.size) return null;
+  if (!values || typeof values !== "object") return null;
+
+  const clean = {};
+  for (const [k, v] of Object.entries(values)) {
+    if (spec.writable.has(k)) clean[k] = v;
+  }
+
+  for (const f of spec.many2many) {
+    if (!Array.isArray(clean[f])) continue;
+    const ids = clean[f].map((x) => Number(x)).filter(Boolean);
+    if (ids.length) clean[f] = [[6, 0, ids]];
+    else delete clean[f];
+  }
+
+  return clean;
+}
+
+// Free-text search: OR of "<field> ilike q" over the search fields; empty q → no filter
+export function buildSearchSpec(model, q) {
+  const spec = specFor(model);
+  const fields = spec ? [...spec.display] : ["name", "display_name"];
+  const searchFields = spec ? [...spec.search] : ["name"];
+  if (!q) return { domain: [], fields };
+
+  const leaves = searchFields.map((f) => [f, "ilike", q]);
+  return { domain: [...Array(leaves.length - 1).fill("|"), ...leaves], fields };
+}
@@ -2,12 +2,18 @@ import axios from "axios";
 import { CookieJar } from "tough-cookie";
 import { wrapper } from "axios-cookiejar-support";
 import https from "node:https";
+import crypto from "node:crypto";
 
 /**
  * Odoo JSON-RPC client with session cookies.
  * Auth: /web/session/authenticate
  * Calls: /web/dataset/call_kw
  *
+ * Sessions are pooled per (url, db, login): the cookie jar is reused across requests,
+ * and a session-expired error triggers one transparent re-login + retry.
+ *   ODOO_SESSION_TTL_MS   idle time before a pooled session is dropped (default 30 min)
+ *   ODOO_SESSION_MAX      max pooled sessions (default 200, least recently used evicted)
+ *
  * Optional troubleshooting:
  *   ODOO_INSECURE_TLS=true
  */
@@ -37,12 +43,106 @@ function buildHttpsAgentIfNeeded(baseUrl) {
   return new https.Agent({ rejectUnauthorized: false });
 }
 
+// Odoo instance (shared by every user); credentials come from env or from the user.
+export function odooServerFromEnv() {
+  return {
+    baseUrl: sanitizeBaseUrl(requireEnv("ODOO_URL")), // IMPORTANT: no /web
+    db: requireEnv("ODOO_DB"),
+  };
+}
+
 export async function odooClientFromEnv() {
-  const baseUrl = sanitizeBaseUrl(requireEnv("ODOO_URL")); // IMPORTANT: no /web
-  const db = requireEnv("ODOO_DB");
-  const login = requireEnv("ODOO_USERNAME");
-  const password = requireEnv("ODOO_API_KEY"); // currently used as password
+  return await odooClient({
+    ...odooServerFromEnv(),
+    login: requireEnv("ODOO_USERNAME"),
+    password: requireEnv("ODOO_API_KEY"), // currently used as password
+  });
+}
+
+const SESSION_TTL_MS = Number(process.env.ODOO_SESSION_TTL_MS || 30 * 60 * 1000);
+const SESSION_MAX = Number(process.env.ODOO_SESSION_MAX || 200);
+
+// key -> { promise (client), passwordHash, lastUsedAt }
+const sessions = new Map();
+const sessionStats = { hits: 0, misses: 0, relogins: 0, evictions: 0 };
+
+function sessionKey(baseUrl, db, login) {
+  return `${baseUrl}|${db}|${String(login || "").toLowerCase()}`;
+}
+
+function hashPassword(password) {
+  return crypto.createHash("sha256").update(String(password ?? "")).digest("hex");
+}
+
+function evictSessions(now) {
+  for (const [k, v] of sessions) {
+    if (now - v.lastUsedAt > SESSION_TTL_MS) {
+      sessions.delete(k);
+      sessionStats.evictions++;
+    }
+  }
+  while (sessions.size > SESSION_MAX) {
+    let oldestKey = null;
+    let oldest = Infinity;
+    for (const [k, v] of sessions) {
+      if (v.lastUsedAt < oldest) {
+        oldest = v.lastUsedAt;
+        oldestKey = k;
+      }
+    }
+    sessions.delete(oldestKey);
+    sessionStats.evictions++;
+  }
+}
+
+export function getOdooSessionStats() {
+  const lookups = sessionStats.hits + sessionStats.misses;
+  return {
+    size: sessions.size,
+    ...sessionStats,
+    hitRate: lookups ? Math.round((sessionStats.hits / lookups) * 1000) / 1000 : null,
+    ttlMs: SESSION_TTL_MS,
+  };
+}
+
+// Drops a pooled session (e.g. after the user changes/unlinks credentials).
+export function invalidateOdooSession({ baseUrl, db, login }) {
+  sessions.delete(sessionKey(sanitizeBaseUrl(baseUrl), db, login));
+}
 
+export async function odooClient({ baseUrl: rawBaseUrl, db, login, password }) {
+  const baseUrl = sanitizeBaseUrl(rawBaseUrl);
+  const key = sessionKey(baseUrl, db, login);
+  const passwordHash = hashPassword(password);
+  const now = Date.now();
+
+  evictSessions(now);
+
+  const hit = sessions.get(key);
+  if (hit && hit.passwordHash === passwordHash) {
+    sessionStats.hits++;
+    hit.lastUsedAt = now;
+    return await hit.promise;
+  }
+
+  sessionStats.misses++;
+  // Store the promise so concurrent requests share a single authenticate round trip
+  const promise = createOdooSession({ baseUrl, db, login, password });
+  sessions.set(key, { promise, passwordHash, lastUsedAt: now });
+  try {
+    return await promise;
+  } catch (e) {
+    if (sessions.get(key)?.promise === promise) sessions.delete(key);
+    throw e;
+  }
+}
+
+function isSessionExpired(error) {
+  const name = String(error?.data?.name || "");
+  return error?.code === 100 || name.includes("SessionExpired");
+}
+
+async function createOdooSession({ baseUrl, db, login, password }) {
   const jar = new CookieJar();
   const httpsAgent = buildHttpsAgentIfNeeded(baseUrl);
 
@@ -71,27 +171,39 @@ export async function odooClientFromEnv() {
     return resp;
   }
 
-  const authPayload = {
-    jsonrpc: "2.0",
-    method: "call",
-    params: { db, login, password },
-    id: Date.now(),
-  };
+  async function authenticate() {
+    const authPayload = {
+      jsonrpc: "2.0",
+      method: "call",
+      params: { db, login, password },
+      id: Date.now(),
+    };
 
-  const authResp = await postJson("/web/session/authenticate", authPayload);
+    const authResp = await postJson("/web/session/authenticate", authPayload);
 
-  if (authResp.status !== 200) {
-    throw new Error(`Odoo respondeu HTTP ${authResp.status} em authenticate. Body: ${safeJson(authResp.data)}`);
-  }
+    if (authResp.status !== 200) {
+      throw new Error(`Odoo respondeu HTTP ${authResp.status} em authenticate. Body: ${safeJson(authResp.data)}`);
+    }
 
-  const uid = authResp?.data?.result?.uid;
-  if (!uid) {
-    throw new Error(`Auth falhou (uid=false). Resposta: ${safeJson(authResp.data)}`);
+    const result = authResp?.data?.result;
+    if (!result?.uid) {
+      throw Object.assign(new Error(`Auth falhou (uid=false). Resposta: ${safeJson(authResp.data)}`), { status: 401 });
+    }
+    return result;
   }
 
-  const webBaseUrl = authResp?.data?.result?.["web.base.url"] || baseUrl;
+  const authResult = await authenticate();
 
-  async function callKw({ model, method, args = [], kwargs = {} }) {
+  const meta = {
+    webBaseUrl: authResult["web.base.url"] || baseUrl,
+    db,
+    uid: authResult.uid,
+    login,
+    userName: authResult.name,
+    serverVersion: authResult.server_version,
+  };
+
+  async function callKw({ model, method, args = [], kwargs = {} }, retried = false) {
     const payload = {
       jsonrpc: "2.0",
       method: "call",
@@ -105,19 +217,20 @@ export async function odooClientFromEnv() {
       throw new Error(`Odoo respondeu HTTP ${r.status} em call_kw. Body: ${safeJson(r.data)}`);
     }
     if (r?.data?.error) {
+      if (!retried && isSessionExpired(r.data.error)) {
+        // Pooled session expired server-side: log in again on the same jar and retry once
+        sessionStats.relogins++;
+        const again = await authenticate();
+        meta.uid = again.uid;
+        return await callKw({ model, method, args, kwargs }, true);
+      }
       throw new Error(`Odoo JSON-RPC error: ${safeJson(r.data.error)}`);
     }
     return r?.data?.result;
   }
 
   return {
-    meta: {
-      webBaseUrl,
-      db,
-      uid,
-      login,
-      serverVersion: authResp?.data?.result?.server_version,
-    },
+    meta,
 
     async ping() {
       const result = await callKw({
@@ -170,17 +283,19 @@ export async function odooClientFromEnv() {
       return await callKw({ model, method, args, kwargs });
     },
 
-    async messagePost(model, id, body, subject) {
+    async messagePost(model, id, body, subject, { attachmentIds } = {}) {
+      const kwargs = {
+        body,
+        subject: subject || "",
+        message_type: "comment",
+        subtype_xmlid: "mail.mt_comment",
+      };
+      if (Array.isArray(attachmentIds) && attachmentIds.length) kwargs.attachment_ids = attachmentIds;
       return await callKw({
         model,
         method: "message_post",
         args: [[Number(id)]],
-        kwargs: {
-          body,
-          subject: subject || "",
-          message_type: "comment",
-          subtype_xmlid: "mail.mt_comment",
-        },
+        kwargs,
       });
     },
 
@@ -0,0 +1,29 @@
+import { odooClient, odooClientFromEnv, odooServerFromEnv } from "./odoo.js";
+import { getUserCredential, userFromRequest } from "./credentialStore.js";
+
+/**
+ * Per-user Odoo access.
+ * - If the Outlook user linked an Odoo account (Settings → Odoo), calls run as that user,
+ *   so Odoo access rules and authorship (chatter, create_uid) are respected.
+ * - Otherwise falls back to the shared env account (ODOO_USERNAME/ODOO_API_KEY),
+ *   unless ODOO_REQUIRE_USER_AUTH=1, in which case the request is refused with 401.
+ */
+export const ODOO_CREDENTIAL = "odoo";
+
+export function requireUserAuth() {
+  return String(process.env.ODOO_REQUIRE_USER_AUTH || "").trim() === "1";
+}
+
+export async function odooClientForRequest(req) {
+  const user = userFromRequest(req);
+  const cred = user ? getUserCredential(user, ODOO_CREDENTIAL) : null;
+
+  if (cred?.login && cred?.secret) {
+    return await odooClient({ ...odooServerFromEnv(), login: cred.login, password: cred.secret });
+  }
+
+  if (requireUserAuth()) {
+    throw Object.assign(new Error("Conta Odoo não ligada. Vai a Definições → Odoo e faz login."), { status: 401 });
+  }
+  return await odooClientFromEnv();
+}
@@ -0,0 +1,131 @@
+// server/src/outlookIdentity.js
+// Who is the Outlook user behind a login request. The email the add-in sends is only a claim; the
+// server trusts it only when it is backed by:
+//   - an Office SSO token (Office.auth.getAccessToken) signed by Microsoft Entra ID for our app
+//     (OUTLOOK_SSO_AUDIENCE), or
+//   - the caller's existing x-icc-token (already bound to that user).
+import crypto from "node:crypto";
+import { normalizeUser, userFromRequest } from "./credentialStore.js";
+
+const DEFAULT_JWKS_URL = "https://login.microsoftonline.com/common/discovery/v2.0/keys";
+const JWKS_TTL_MS = 60 * 60 * 1000;
+const CLOCK_SKEW_SEC = 300;
+
+let jwksCache = { url: "", at: 0, keys: [] };
+
+function envList(name) {
+  return String(process.env[name] || "")
+    .split(",")
+    .map((s) => s.trim())
+    .filter(Boolean);
+}
+
+function ssoAudiences() {
+  return envList("OUTLOOK_SSO_AUDIENCE");
+}
+
+export function outlookSsoEnabled() {
+  return ssoAudiences().length > 0;
+}
+
+// Local development without an Entra ID app: trust the email sent by the add-in. Never in production.
+function trustClientUser() {
+  return String(process.env.OUTLOOK_TRUST_CLIENT_USER || "").trim() === "1" && process.env.NODE_ENV !== "production";
+}
+
+function unauthorized(msg) {
+  return Object.assign(new Error(msg), { status: 401 });
+}
+
+function decodePart(part) {
+  return JSON.parse(Buffer.from(String(part || ""), "base64url").toString("utf-8"));
+}
+
+async function signingKey(kid) {
+  const url = String(process.env.OUTLOOK_SSO_JWKS_URL || DEFAULT_JWKS_URL).trim();
+  const fresh = jwksCache.url === url && Date.now() - jwksCache.at < JWKS_TTL_MS;
+  let jwk = fresh ? jwksCache.keys.find((k) => k.kid === kid) : null;
+  if (!jwk) {
+    // unknown kid → keys rotated (or first use): refetch once
+    const r = await fetch(url);
+    if (!r.ok) throw Object.assign(new Error(`JWKS HTTP ${r.status}`), { status: 502 });
+    const body = await r.json();
+    jwksCache = { url, at: Date.now(), keys: Array.isArray(body?.keys) ? body.keys : [] };
+    jwk = jwksCache.keys.find((k) => k.kid === kid);
+  }
+  if (!jwk) throw unauthorized("Token SSO com chave desconhecida");
+  return crypto.createPublicKey({ key: jwk, format: "jwk" });
+}
+
+/**
+ * Office SSO access token → Outlook user (lowercase email). Checks the RS256 signature against the
+ * Entra ID keys, audience (OUTLOOK_SSO_AUDIENCE), issuer/tenant (OUTLOOK_SSO_TENANTS, optional) and expiry.
+ */
+export async function verifyOutlookSsoToken(token) {
+  const audiences = ssoAudiences();
+  if (!audiences.length) throw unauthorized("SSO do Outlook não configurado (OUTLOOK_SSO_AUDIENCE)");
+
+  const parts = String(token || "").split(".");
+  if (parts.length !== 3) throw unauthorized("Token SSO inválido");
+  let header;
+  let claims;
+  try {
+    header = decodePart(parts[0]);
+    claims = decodePart(parts[1]);
+  } catch {
+    throw unauthorized("Token SSO inválido");
+  }
+  if (header?.alg !== "RS256" || !header?.kid) throw unauthorized("Token SSO inválido");
+
+  const key = await signingKey(header.kid);
+  const signed = Buffer.from(`${parts[0]}.${parts[1]}`);
+  if (!crypto.verify("RSA-SHA256", signed, key, Buffer.from(parts[2], "base64url"))) {
+    throw unauthorized("Assinatura do token SSO inválida");
+  }
+
+  const now = Math.floor(Date.now() / 1000);
+  if (!(Number(claims.exp) > now - CLOCK_SKEW_SEC)) throw unauthorized("Token SSO expirado");
+  if (claims.nbf && Number(claims.nbf) > now + CLOCK_SKEW_SEC) throw unauthorized("Token SSO ainda não válido");
+  if (!audiences.includes(String(claims.aud || ""))) throw unauthorized("Token SSO para outra aplicação");
+
+  const tid = String(claims.tid || "");
+  const issuers = [`https://login.microsoftonline.com/${tid}/v2.0`, `https://sts.windows.net/${tid}/`];
+  if (!tid || !issuers.includes(String(claims.iss || ""))) throw unauthorized("Emissor do token SSO inválido");
+  const tenants = envList("OUTLOOK_SSO_TENANTS");
+  if (tenants.length && !tenants.includes(tid)) throw unauthorized("Tenant não autorizado");
+
+  const user = normalizeUser(claims.preferred_username || claims.upn || claims.email);
+  if (!user) throw unauthorized("Token SSO sem utilizador");
+  return user;
+}
+
+/**
+ * Login requests (Odoo, InvoiceStudio) → the Outlook user they may act for.
+ * body.identityToken (Office SSO) wins; otherwise the caller's x-icc-token. A different
+ * body.outlookUser is refused (403): a login never binds or issues a token for someone else.
+ * returns: { user, verified: "sso" | "token" | "client" }
+ */
+export async function verifiedOutlookUser(req) {
+  const { identityToken, outlookUser } = req.body || {};
+  const claimed = normalizeUser(outlookUser);
+
+  let user = "";
+  let verified = "";
+  if (identityToken && outlookSsoEnabled()) {
+    user = await verifyOutlookSsoToken(identityToken);
+    verified = "sso";
+  } else {
+    user = userFromRequest(req) || "";
+    verified = user ? "token" : "";
+  }
+
+  if (!user && claimed && trustClientUser()) {
+    console.warn(`[identity] OUTLOOK_TRUST_CLIENT_USER=1: unverified Outlook user ${claimed}`);
+    return { user: claimed, verified: "client" };
+  }
+  if (!user) throw unauthorized("Não foi possível confirmar o utilizador do Outlook (SSO). Abre o add-in no Outlook e tenta de novo.");
+  if (claimed && claimed !== user) {
+    throw Object.assign(new Error("O utilizador do Outlook não corresponde à sessão."), { status: 403 });
+  }
+  return { user, verified };
+}
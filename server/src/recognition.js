@@ -0,0 +1,196 @@
+// server/src/recognition.js
+// Who is in this email? Participants → known partners, open leads and the sender's company.
+
+// Public mail providers: the sender's domain says nothing about the company
+const FREE_MAIL_DOMAINS = new Set([
+  "gmail.com",
+  "googlemail.com",
+  "hotmail.com",
+  "hotmail.pt",
+  "outlook.com",
+  "outlook.pt",
+  "live.com",
+  "msn.com",
+  "yahoo.com",
+  "yahoo.es",
+  "icloud.com",
+  "me.com",
+  "aol.com",
+  "sapo.pt",
+  "gmx.com",
+  "proton.me",
+  "protonmail.com",
+]);
+
+export function normalizeEmail(email) {
+  return String(email || "").trim().toLowerCase();
+}
+
+export function emailDomain(email) {
+  const e = normalizeEmail(email);
+  const at = e.lastIndexOf("@");
+  return at > 0 ? e.slice(at + 1) : "";
+}
+
+// ["|", a, "|", b, c] for n leaves (Odoo prefix notation)
+export function orDomain(leaves) {
+  if (!leaves.length) return [];
+  return [...Array(leaves.length - 1).fill("|"), ...leaves];
+}
+
+function m2oName(v) {
+  return Array.isArray(v) ? String(v[1] || "") : "";
+}
+
+const PARTNER_FIELDS = ["name", "display_name", "email", "is_company", "parent_id"];
+
+function toPartner(p) {
+  return {
+    id: p.id,
+    name: p.display_name || p.name || `#${p.id}`,
+    email: p.email || "",
+    isCompany: Boolean(p.is_company),
+    company: m2oName(p.parent_id),
+  };
+}
+
+/**
+ * Partners for a list of emails, in a single search_read ("email ilike <address>" OR-ed).
+ *   exact:     partner email equals the address (case-insensitive)
+ *   fuzzy:     partner email contains it ("Nome <a@b>", "a@b; c@d", ...)
+ *   duplicate: more than one exact partner shares the address
+ * returns { [email]: { exact: [partner], fuzzy: [partner], duplicate } }
+ */
+export async function matchPartnersByEmail(odoo, emails) {
+  const list = [...new Set((emails || []).map(normalizeEmail).filter((e) => e.includes("@")))];
+  const out = {};
+  for (const e of list) out[e] = { exact: [], fuzzy: [], duplicate: false };
+  if (!list.length) return out;
+
+  const rows = await odoo.searchRead(
+    "res.partner",
+    orDomain(list.map((e) => ["email", "ilike", e])),
+    PARTNER_FIELDS,
+    Math.min(200, list.length * 10)
+  );
+
+  for (const p of Array.isArray(rows) ? rows : []) {
+    const pe = normalizeEmail(p.email);
+    for (const e of list) {
+      if (pe === e) out[e].exact.push(toPartner(p));
+      else if (pe.includes(e)) out[e].fuzzy.push(toPartner(p));
+    }
+  }
+  for (const e of list) out[e].duplicate = out[e].exact.length > 1;
+  return out;
+}
+
+/**
+ * input:  { fromEmail, to: [email], cc: [email], exclude?: [email] }
+ * returns {
+ *   participants: [{ email, role, partners: [{ id, name, email, isCompany, company }] }],
+ *   leads:        [{ id, name, emailFrom, partner, stage, type, probability, expectedRevenue, user }],
+ *   companies:    [{ id, name, email, website }],
+ *   senderDomain
+ * }
+ * Runs at most 3 Odoo calls in parallel (partners, open leads, companies by domain).
+ */
+export async function recognizeParticipants(odoo, { fromEmail, to = [], cc = [], exclude = [] }) {
+  const skip = new Set(exclude.map(normalizeEmail).filter(Boolean));
+
+  const participants = [];
+  const seen = new Set();
+  const push = (email, role) => {
+    const e = normalizeEmail(email);
+    if (!e || !e.includes("@") || seen.has(e) || skip.has(e)) return;
+    seen.add(e);
+    participants.push({ email: e, role, partners: [] });
+  };
+  push(fromEmail, "from");
+  to.forEach((e) => push(e, "to"));
+  cc.forEach((e) => push(e, "cc"));
+
+  const emails = participants.map((p) => p.email);
+  const domain = emailDomain(fromEmail);
+  const senderDomain = domain && !FREE_MAIL_DOMAINS.has(domain) && !skip.has(normalizeEmail(fromEmail)) ? domain : "";
+
+  const [partners, leads, companies] = await Promise.all([
+    matchPartnersByEmail(odoo, emails),
+    emails.length
+      ? odoo.searchRead(
+          "crm.lead",
+          [["stage_id.is_won", "=", false], ...orDomain(emails.map((e) => ["email_from", "=ilike", e]))],
+          ["name", "email_from", "partner_id", "stage_id", "type", "probability", "expected_revenue", "user_id"],
+          20,
+          "write_date desc"
+        )
+      : [],
+    senderDomain
+      ? odoo.searchRead(
+          "res.partner",
+          [["is_company", "=", true], "|", ["email", "=ilike", `%@${senderDomain}`], ["website", "ilike", senderDomain]],
+          ["name", "email", "website"],
+          5
+        )
+      : [],
+  ]);
+
+  for (const row of participants) row.partners = partners[row.email]?.exact || [];
+
+  // =ilike treats "_" as a wildcard: keep exact (case-insensitive) matches only
+  const openLeads = (Array.isArray(leads) ? leads : []).filter((l) => seen.has(normalizeEmail(l.email_from)));
+
+  return {
+    participants,
+    leads: openLeads.map((l) => ({
+      id: l.id,
+      name: l.name || "",
+      emailFrom: l.email_from || "",
+      partner: m2oName(l.partner_id),
+      stage: m2oName(l.stage_id),
+      type: l.type || "",
+      probability: Number(l.probability || 0),
+      expectedRevenue: Number(l.expected_revenue || 0),
+      user: m2oName(l.user_id),
+    })),
+    companies: (Array.isArray(companies) ? companies : []).map((c) => ({
+      id: c.id,
+      name: c.name || "",
+      email: c.email || "",
+      website: c.website || "",
+    })),
+    senderDomain,
+  };
+}
+
+// "PT 500.000.000" → "PT500000000"
+export function normalizeVat(vat) {
+  return String(vat || "").toUpperCase().replace(/[^A-Z0-9]/g, "");
+}
+
+/**
+ * Vendor of an extracted invoice: partners by VAT (digits match, with or without country prefix),
+ * falling back to name ilike when nothing matches the VAT.
+ * input:  { vat, name }
+ * returns { matchedBy: "vat" | "name" | "", partners: [{ id, name, email, isCompany, company, vat }] }
+ */
+export async function matchVendor(odoo, { vat, name }) {
+  const v = normalizeVat(vat);
+  const core = v.replace(/^[A-Z]{2}(?=\d)/, "");
+  const fields = [...PARTNER_FIELDS, "vat"];
+  const toVendor = (p) => ({ ...toPartner(p), vat: p.vat || "" });
+
+  if (core.length >= 5) {
+    const rows = await odoo.searchRead("res.partner", [["vat", "ilike", core]], fields, 10);
+    const exact = (Array.isArray(rows) ? rows : []).filter((p) => normalizeVat(p.vat).endsWith(core));
+    if (exact.length) return { matchedBy: "vat", partners: exact.map(toVendor) };
+  }
+
+  const n = String(name || "").trim();
+  if (n.length >= 3) {
+    const rows = await odoo.searchRead("res.partner", [["name", "ilike", n]], fields, 5, "is_company desc");
+    if (Array.isArray(rows) && rows.length) return { matchedBy: "name", partners: rows.map(toVendor) };
+  }
+
+  return { matchedBy: "", partners: [] };
+}
@@ -1,7 +1,20 @@
 // server/src/routes/aiRoutes.js
 import express from "express";
-import { aiCreateText, getAiMeta } from "../ai/aiService.js";
-import { buildPrompt } from "../ai/promptTemplates.js";
+import { aiCreateStructured, aiCreateText, aiStreamText, getAiMeta } from "../ai/aiService.js";
+import { buildPrompt, variantInstruction, variantIntents } from "../ai/promptTemplates.js";
+import { listPromptPacks, promptInfo, selectPromptPack } from "../ai/promptPacks.js";
+import { countHtmlWords, lengthSpec, overLengthInstruction, trimHtmlToWords } from "../ai/replyLength.js";
+import { extractCitations, knowledgeBlock, knowledgeUsage, selectKnowledge } from "../ai/knowledge.js";
+import { listKnowledge } from "../knowledgeStore.js";
+import { normalizeTasks, TASKS_SCHEMA, tasksPrompt } from "../ai/taskExtraction.js";
+import { LEAD_SCHEMA, normalizeLead, qualifyPrompt } from "../ai/leadQualification.js";
+import { fetchEwsThread, parseQuotedChain, threadTranscript } from "../ai/threadSource.js";
+import { sanitizeAiHtml } from "../ai/aiHtml.js";
+import { findInventedFacts } from "../ai/factCheck.js";
+import { aiCacheGet, aiCacheKey, aiCacheSet } from "../ai/aiCache.js";
+import { anonymousBudgetUsd, budgetsConfigured, dailyBudgetUsd, estimateCostUsd } from "../ai/aiCost.js";
+import { recordUsage, usageDay, usageReport, userCostOn } from "../aiUsageStore.js";
+import { normalizeUser, userFromRequest } from "../credentialStore.js";
 
 function stripHtmlToText(html) {
   if (!html) return "";
@@ -28,17 +41,18 @@ function stripHtmlToText(html) {
   return s;
 }
 
+// Model output → allow-listed HTML (ai/aiHtml.js) → { html, removed }
 function ensureBasicHtml(out) {
   const t = String(out || "").trim();
-  if (!t) return "<p></p>";
-  // If it already looks like HTML, return as-is
-  if (t.includes("<p") || t.includes("<ul") || t.includes("<br") || t.includes("<li")) return t;
+  if (!t) return { html: "<p></p>", removed: [] };
+  // If it already looks like HTML, keep its structure
+  if (t.includes("<p") || t.includes("<ul") || t.includes("<br") || t.includes("<li")) return sanitizeAiHtml(t);
   // Otherwise, wrap paragraphs
-  const escaped = t
+  const wrapped = t
     .split(/\n{2,}/)
     .map((p) => `<p>${p.replace(/\n/g, "<br>")}</p>`)
     .join("");
-  return escaped;
+  return sanitizeAiHtml(wrapped);
 }
 
 // Basic email trimming server-side (client also trims, but keep defense-in-depth)
@@ -101,28 +115,236 @@ function trimEmailBodyFull(raw) {
   return s.trim();
 }
 
+function sumUsage(list) {
+  const total = { inputTokens: 0, outputTokens: 0, totalTokens: 0 };
+  for (const u of list) {
+    total.inputTokens += Number(u?.inputTokens || 0);
+    total.outputTokens += Number(u?.outputTokens || 0);
+    total.totalTokens += Number(u?.totalTokens || 0);
+  }
+  return total;
+}
+
+// email from the request body → prompt context (trimmed body, see trimEmailBody/trimEmailBodyFull)
+function safeEmailFrom(email) {
+  if (!email) return null;
+  return {
+    subject: String(email.subject || ""),
+    from: String(email.from || ""),
+    to: Array.isArray(email.to) ? email.to.map(String) : [],
+    cc: Array.isArray(email.cc) ? email.cc.map(String) : [],
+    bodyText:
+      String(email.bodyScope || "main") === "full"
+        ? trimEmailBodyFull(email.bodyText || "")
+        : trimEmailBody(email.bodyText || ""),
+  };
+}
+
+/**
+ * /generate body → { opts, notes }
+ *   opts  = aiCreateText/aiStreamText options (`variant` adds that intent to the prompt,
+ *           `pack` = prompt pack from promptPackFor)
+ *   notes = knowledge base entries put in the prompt (pinned + retrieved for this email/text)
+ */
+function generateRequest(body, { variant, pack } = {}) {
+  const {
+    action = "reply",
+    mode = "fast",
+    locale = "pt-PT",
+    tone = "neutro",
+    length,
+    email,
+    inputText,
+    provider,
+    bilingual,
+  } = body || {};
+
+  const safeEmail = safeEmailFrom(email);
+
+  const notes = selectKnowledge(
+    listKnowledge(),
+    [safeEmail?.subject, safeEmail?.bodyText, inputText].filter(Boolean).join("\n")
+  );
+
+  const instructions =
+    buildPrompt({
+      action,
+      locale,
+      tone,
+      length,
+      email: safeEmail,
+      inputText: String(inputText || ""),
+      bilingual: bilingual === true,
+      pack,
+    }) +
+    knowledgeBlock(notes) +
+    variantInstruction(variant);
+
+  const spec = lengthSpec(action, length);
+
+  return {
+    notes,
+    opts: {
+      provider,
+      mode,
+      instructions,
+      // Use empty input; most of the task is in instructions (reduces prompt duplication)
+      input: "ok",
+      max_output_tokens: spec ? spec.max_output_tokens : action === "summarize" || action === "tasks" ? 600 : 500,
+      temperature: 0.25,
+    },
+  };
+}
+
+/**
+ * Draft checks for the UI (never block the draft):
+ *   { type: "html", value: "<h3>" }   markup removed by the allow-list (ai/aiHtml.js)
+ *   { type: "number"|"date"|"price"|"email", value }   facts not in the prompt (email, notes, text; ai/factCheck.js)
+ */
+function draftWarnings(html, removed, instructions) {
+  return [
+    ...removed.map((value) => ({ type: "html", value })),
+    ...findInventedFacts(stripHtmlToText(html), instructions),
+  ];
+}
+
+/**
+ * Model output → final draft:
+ * - the "<!-- notas: K1 -->" line is removed and turned into `knowledge` (notes sent, cited or not);
+ * - HTML restricted to the allow-list (ai/aiHtml.js);
+ * - length post-check for reply/rewrite (`length` in the body): over the limit → one regeneration
+ *   with a stricter instruction (when `regenerate`), then trimming if it still overshoots;
+ * - `warnings`: removed markup + numbers/dates/prices/emails the model wasn't given (draftWarnings).
+ * Returns { html, usage, knowledge, warnings, lengthCheck?: { length, limit, words, fix: ""|"regenerated"|"trimmed" } }.
+ */
+async function finishDraft(body, { opts, notes }, result, { regenerate = true } = {}) {
+  let { text, refs } = extractCitations(result.text);
+  let { html, removed } = ensureBasicHtml(text);
+  let usage = result.usage;
+  const spec = lengthSpec(String(body?.action || "reply"), body?.length);
+  if (!spec) return { html, usage, knowledge: knowledgeUsage(notes, refs), warnings: draftWarnings(html, removed, opts.instructions) };
+
+  let words = countHtmlWords(html);
+  let fix = "";
+  if (words > spec.limit && regenerate) {
+    const retry = await aiCreateText({ ...opts, instructions: opts.instructions + overLengthInstruction(spec, words) });
+    usage = sumUsage([usage, retry.usage]);
+    ({ text, refs } = extractCitations(retry.text));
+    ({ html, removed } = ensureBasicHtml(text));
+    words = countHtmlWords(html);
+    fix = "regenerated";
+  }
+  if (words > spec.limit) {
+    html = trimHtmlToWords(html, spec.limit);
+    words = countHtmlWords(html);
+    fix = "trimmed";
+  }
+  return {
+    html,
+    usage,
+    knowledge: knowledgeUsage(notes, refs),
+    warnings: draftWarnings(html, removed, opts.instructions),
+    lengthCheck: { length: spec.length, limit: spec.limit, words, fix },
+  };
+}
+
+// Outlook user of the request (x-icc-token) for the usage ledger and budget ("" = unknown)
+function aiUser(req) {
+  return userFromRequest(req) || "";
+}
+
+// With budgets on, callers without x-icc-token are refused (401) unless AI_ANONYMOUS_BUDGET_USD gives them one
+function assertAiCaller(user) {
+  if (user || !budgetsConfigured() || anonymousBudgetUsd() != null) return;
+  throw Object.assign(new Error("Inicia sessão (Definições → Odoo ou InvoiceStudio) para usar a IA."), { status: 401 });
+}
+
+// 429 once the user's estimated spend today reaches the daily budget (ai/aiCost.js)
+function assertBudget(user) {
+  const budget = dailyBudgetUsd(user);
+  if (!budget) return;
+  const spent = userCostOn(user);
+  if (spent >= budget) {
+    throw Object.assign(
+      new Error(
+        `Orçamento diário de IA esgotado (${spent.toFixed(2)} de ${budget.toFixed(2)} USD). Tenta amanhã ou pede ao administrador para o aumentar.`
+      ),
+      { status: 429 }
+    );
+  }
+}
+
+// body.promptVersion, else the A/B split per user (request IP when unknown) → { pack, assignment }
+function promptPackFor(req) {
+  return selectPromptPack({ requested: req.body?.promptVersion, seed: aiUser(req) || req.ip });
+}
+
+// Ledger row for a response ({ provider, model, usage, prompt? }); a ledger failure never fails the AI request
+function account(user, action, out, cached = false) {
+  try {
+    recordUsage({
+      user,
+      action,
+      provider: out?.provider,
+      model: out?.model,
+      prompt: out?.prompt?.id,
+      usage: out?.usage,
+      costUsd: estimateCostUsd(out?.model, out?.usage),
+      cached,
+    });
+  } catch (e) {
+    console.error("[ai] usage ledger error:", e?.message || e);
+  }
+}
+
+/**
+ * AI request through the cache (ai/aiCache.js) and the usage ledger.
+ * compute() → response fields ({ provider, model, usage, ... }); returned with cached: true|false.
+ * A cache hit calls no provider and costs nothing, so it isn't blocked by the budget.
+ */
+async function cachedAiCall(req, action, keyParts, compute) {
+  const user = aiUser(req);
+  assertAiCaller(user);
+  const key = aiCacheKey({ action, ...keyParts });
+  const hit = aiCacheGet(key);
+  if (hit) {
+    account(user, action, hit, true);
+    return { ...hit, cached: true };
+  }
+
+  assertBudget(user);
+  const out = await compute();
+  aiCacheSet(key, out);
+  account(user, action, out);
+  return { ...out, cached: false };
+}
+
+const DAY_RX = /^\d{4}-\d{2}-\d{2}$/;
+
 export function createAiRouter() {
   const router = express.Router();
 
+  // prompts: packs available for body.promptVersion
   router.get("/meta", (_req, res) => {
-    res.json({ ok: true, ...getAiMeta() });
+    res.json({ ok: true, ...getAiMeta(), prompts: listPromptPacks() });
   });
 
   router.get("/ping", (_req, res) => {
     res.json({ ok: true, ...getAiMeta(), now: new Date().toISOString() });
   });
 
-  const selftestHandler = async (_req, res) => {
+  const selftestHandler = async (req, res) => {
     try {
       console.log("[ai] selftest called");
       const result = await aiCreateText({
+        provider: req.query?.provider || req.body?.provider,
         mode: "fast",
         instructions: "És um healthcheck. Responde apenas com 'OK'.",
         input: "ping",
         max_output_tokens: 16,
         temperature: 0,
       });
-      res.json({ ok: true, text: result.text || "" });
+      res.json({ ok: true, text: result.text || "", provider: result.provider, model: result.model });
     } catch (e) {
       console.error("[ai] selftest error:", e?.status || "", e?.message || e);
       res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
@@ -132,71 +354,336 @@ export function createAiRouter() {
   router.get("/selftest", selftestHandler);
   router.post("/selftest", selftestHandler);
 
+  /**
+   * GET /api/ai/usage?from=YYYY-MM-DD&to=YYYY-MM-DD[&all=1]   (UTC days, default: last 30 days)
+   * Usage ledger of the caller (x-icc-token); all=1 = every user, only for users in AI_USAGE_ADMINS.
+   * returns: { ok:true, from, to, user, budgetUsd, spentTodayUsd,
+   *            rows: [{ day, user, model, prompt, calls, cachedCalls, inputTokens, outputTokens, costUsd }], totals }
+   */
+  router.get("/usage", (req, res) => {
+    try {
+      const user = aiUser(req);
+      const to = DAY_RX.test(String(req.query?.to || "")) ? String(req.query.to) : usageDay();
+      const from = DAY_RX.test(String(req.query?.from || ""))
+        ? String(req.query.from)
+        : usageDay(new Date(Date.now() - 29 * 24 * 60 * 60 * 1000));
+
+      const all = String(req.query?.all || "") === "1";
+      if (all) {
+        const admins = String(process.env.AI_USAGE_ADMINS || "").split(",").map(normalizeUser).filter(Boolean);
+        if (!user || !admins.includes(normalizeUser(user))) {
+          return res.status(403).json({ ok: false, error: "Relatório de todos os utilizadores só para AI_USAGE_ADMINS" });
+        }
+      }
+
+      const report = usageReport({ from, to, user: all ? undefined : user });
+      res.json({
+        ok: true,
+        from,
+        to,
+        user: all ? null : user,
+        budgetUsd: dailyBudgetUsd(user),
+        spentTodayUsd: userCostOn(user),
+        ...report,
+      });
+    } catch (e) {
+      console.error("[ai] usage error:", e?.status || "", e?.message || e);
+      res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
   /**
    * POST /api/ai/generate
    * body:
    * {
    *   action: "reply"|"summarize"|"rewrite"|"tasks",
    *   mode: "fast"|"quality",
-   *   locale: "pt-PT",
+   *   locale: "pt-PT",   (also for summaries: the add-in sends the reading language)
    *   tone: "neutro"|"formal"|"curto"|"direto"|"simpático",
    *   email: { subject, from, to:[], cc:[], bodyText },
-   *   inputText?: string
+   *   inputText?: string,
+   *   provider?: "openai"|"gemini"|"openai-compatible"  (must be in AI_ALLOWED_PROVIDERS),
+   *   variants?: 1..3   (n labelled drafts, e.g. reply → accept / decline / ask_info),
+   *   length?: "xs"|"s"|"m"|"l"   (reply/rewrite; default "m"),
+   *   promptVersion?: "default@2" | "default"   (prompt pack; default: AI_PROMPT_AB split or AI_PROMPT_PACK),
+   *   bilingual?: boolean   (summarize: + key quotes in the email's original language)
    * }
    *
-   * returns: { ok:true, html:"...", text:"..." }
+   * returns: { ok:true, html:"...", text:"...", provider, model, usage, knowledge, warnings, lengthCheck?, cached, prompt }
+   *   cached: true = same request answered from the server cache (no provider call)
+   *   prompt: { id, name, version, assignment: "explicit"|"ab"|"default" }  prompt pack used (ai/promptPacks.js)
+   *   knowledge: [{ ref, id, title, pinned, score, cited }]  notes put in the prompt (cited = used by the model)
+   *   warnings: [{ type: "html"|"number"|"date"|"price"|"email", value }]  see draftWarnings
+   *   + with variants > 1: variants: [{ label, title, html, text, usage, knowledge, warnings, lengthCheck? }]
+   *     (html/text = first variant, usage = sum of all variants)
    */
   router.post("/generate", async (req, res) => {
     try {
-      const {
-        action = "reply",
-        mode = "fast",
-        locale = "pt-PT",
-        tone = "neutro",
-        email,
-        inputText,
-      } = req.body || {};
-
-      const safeEmail = email
-        ? {
-            subject: String(email.subject || ""),
-            from: String(email.from || ""),
-            to: Array.isArray(email.to) ? email.to.map(String) : [],
-            cc: Array.isArray(email.cc) ? email.cc.map(String) : [],
-            bodyText:
-              String(email.bodyScope || "main") === "full"
-                ? trimEmailBodyFull(email.bodyText || "")
-                : trimEmailBody(email.bodyText || ""),
-          }
-        : null;
-
-      const instructions = buildPrompt({
-        action,
-        locale,
-        tone,
-        email: safeEmail,
-        inputText: String(inputText || ""),
+      const { action = "reply", mode = "fast", provider } = req.body || {};
+      const n = Math.max(1, Math.min(3, Math.floor(Number(req.body?.variants) || 1)));
+      const selected = promptPackFor(req);
+      const prompt = promptInfo(selected);
+      const base = generateRequest(req.body, { pack: selected.pack });
+      const keyParts = { mode, provider, variants: n, prompt: base.opts.instructions };
+
+      // `prompt` is stored with the result (ledger on cache hits) and answered as selected now (assignment)
+      if (n === 1) {
+        const out = await cachedAiCall(req, action, keyParts, async () => {
+          const result = await aiCreateText(base.opts);
+          const { html, usage, knowledge, warnings, lengthCheck } = await finishDraft(req.body, base, result);
+          return {
+            html,
+            text: stripHtmlToText(html),
+            provider: result.provider,
+            model: result.model,
+            usage,
+            knowledge,
+            warnings,
+            lengthCheck,
+            prompt,
+          };
+        });
+        return res.json({ ok: true, ...out, prompt });
+      }
+
+      const out = await cachedAiCall(req, action, keyParts, async () => {
+        const intents = variantIntents(String(action), n);
+        const results = await Promise.all(
+          intents.map(async (v) => {
+            const gen = generateRequest(req.body, { variant: v, pack: selected.pack });
+            const result = await aiCreateText(gen.opts);
+            return { ...result, ...(await finishDraft(req.body, gen, result)) };
+          })
+        );
+
+        const variants = results.map((result, i) => ({
+          label: intents[i].label,
+          title: intents[i].title,
+          html: result.html,
+          text: stripHtmlToText(result.html),
+          usage: result.usage,
+          knowledge: result.knowledge,
+          warnings: result.warnings,
+          lengthCheck: result.lengthCheck,
+        }));
+
+        return {
+          html: variants[0].html,
+          text: variants[0].text,
+          provider: results[0].provider,
+          model: results[0].model,
+          usage: sumUsage(variants.map((v) => v.usage)),
+          knowledge: variants[0].knowledge,
+          warnings: variants[0].warnings,
+          variants,
+          prompt,
+        };
       });
+      res.json({ ok: true, ...out, prompt });
+    } catch (e) {
+      console.error("[ai] generate error:", e?.status || "", e?.message || e);
+      res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
 
-      // Use empty input; most of the task is in instructions (reduces prompt duplication)
-      const result = await aiCreateText({
+  /**
+   * POST /api/ai/tasks — structured "tasks": JSON validated against TASKS_SCHEMA (ai/taskExtraction.js)
+   * body: { mode, email, provider? }
+   * returns: { ok:true, tasks: [{ title, description, assigneeHint, deadline, projectHint }], provider, model, usage, cached }
+   */
+  router.post("/tasks", async (req, res) => {
+    try {
+      const { mode = "fast", email, provider } = req.body || {};
+      const safeEmail = safeEmailFrom(email);
+      if (!safeEmail?.bodyText && !safeEmail?.subject) return res.status(400).json({ ok: false, error: "email em falta" });
+
+      const instructions = tasksPrompt({ email: safeEmail });
+      const out = await cachedAiCall(req, "tasks_structured", { mode, provider, prompt: instructions }, async () => {
+        const result = await aiCreateStructured({
+          provider,
+          mode,
+          instructions,
+          input: "ok",
+          schema: TASKS_SCHEMA,
+          schemaName: "email_tasks",
+          max_output_tokens: 1200,
+          temperature: 0.1,
+        });
+        return { tasks: normalizeTasks(result.data), provider: result.provider, model: result.model, usage: result.usage };
+      });
+
+      res.json({ ok: true, ...out });
+    } catch (e) {
+      console.error("[ai] tasks error:", e?.status || "", e?.message || e);
+      res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /**
+   * POST /api/ai/qualify — "qualify" action: inbound email → typed lead (ai/leadQualification.js)
+   * body: { mode, email, provider? }
+   * returns: { ok:true, lead: { company, contactName, email, phone, productInterest, quantities, budget, urgency },
+   *            provider, model, usage, cached }   each lead field = { value, confidence (0..1) }
+   * Nothing is written to Odoo here: the add-in prefills the lead form and the user confirms.
+   */
+  router.post("/qualify", async (req, res) => {
+    try {
+      const { mode = "fast", email, provider } = req.body || {};
+      const safeEmail = safeEmailFrom(email);
+      if (!safeEmail?.bodyText && !safeEmail?.subject) return res.status(400).json({ ok: false, error: "email em falta" });
+
+      const instructions = qualifyPrompt({ email: safeEmail });
+      const out = await cachedAiCall(req, "qualify", { mode, provider, prompt: instructions }, async () => {
+        const result = await aiCreateStructured({
+          provider,
+          mode,
+          instructions,
+          input: "ok",
+          schema: LEAD_SCHEMA,
+          schemaName: "lead_qualification",
+          max_output_tokens: 800,
+          temperature: 0,
+        });
+        return { lead: normalizeLead(result.data), provider: result.provider, model: result.model, usage: result.usage };
+      });
+
+      res.json({ ok: true, ...out });
+    } catch (e) {
+      console.error("[ai] qualify error:", e?.status || "", e?.message || e);
+      res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
+    }
+  });
+
+  /**
+   * POST /api/ai/summarize-thread — summary of the whole conversation (ai/threadSource.js)
+   * body: { mode, provider?, conversationId, email: { subject, from, to, cc, bodyText (full, untrimmed), receivedAtIso? },
+   *         thread?: { ewsUrl, token, itemIds: [] }, promptVersion?,
+   *         locale? (summary language, default "pt-PT"), bilingual? (+ key quotes in the original language) }
+   * Messages come from EWS when the add-in sends item ids + callback token; on failure (or without them)
+   * from the quoted chain in email.bodyText.
+   * returns: { ok:true, html, text, provider, model, usage, knowledge, warnings, cached, prompt,
+   *            thread: { source: "ews"|"quoted", messageCount, omitted } }
+   */
+  router.post("/summarize-thread", async (req, res) => {
+    try {
+      const { mode = "fast", provider, conversationId, email, thread, locale = "pt-PT", bilingual } = req.body || {};
+      if (!email?.bodyText && !thread?.itemIds?.length) return res.status(400).json({ ok: false, error: "email em falta" });
+
+      let messages = null;
+      let source = "quoted";
+      if (thread?.itemIds?.length) {
+        try {
+          messages = await fetchEwsThread(thread);
+          source = "ews";
+        } catch (e) {
+          console.warn("[ai] thread via EWS failed, using quoted chain:", conversationId || "", e?.message || e);
+        }
+      }
+      if (!messages) {
+        messages = parseQuotedChain(String(email?.bodyText || ""), {
+          from: String(email?.from || ""),
+          date: String(email?.receivedAtIso || ""),
+          subject: String(email?.subject || ""),
+        });
+      }
+
+      const transcript = threadTranscript(messages);
+      const threadEmail = { subject: String(email?.subject || messages.at(-1)?.subject || ""), bodyText: transcript.text };
+      const notes = selectKnowledge(listKnowledge(), [threadEmail.subject, transcript.text].join("\n"));
+      const selected = promptPackFor(req);
+      const prompt = promptInfo(selected);
+      const opts = {
+        provider,
         mode,
-        instructions,
+        instructions:
+          buildPrompt({ action: "summarize_thread", locale, bilingual: bilingual === true, email: threadEmail, pack: selected.pack }) +
+          knowledgeBlock(notes),
         input: "ok",
-        max_output_tokens:
-          action === "summarize" || action === "tasks" ? 600 : action === "reply" ? 700 : 500,
+        max_output_tokens: 800,
         temperature: 0.25,
-      });
+      };
 
-      const html = ensureBasicHtml(result.text || "");
-      const text = stripHtmlToText(html);
+      const out = await cachedAiCall(req, "summarize_thread", { mode, provider, prompt: opts.instructions }, async () => {
+        const result = await aiCreateText(opts);
+        const { html, usage, knowledge, warnings } = await finishDraft({ action: "summarize_thread" }, { opts, notes }, result);
+        return { html, text: stripHtmlToText(html), provider: result.provider, model: result.model, usage, knowledge, warnings, prompt };
+      });
 
-      res.json({ ok: true, html, text });
+      res.json({ ok: true, ...out, prompt, thread: { source, messageCount: transcript.count, omitted: transcript.omitted } });
     } catch (e) {
-      console.error("[ai] generate error:", e?.status || "", e?.message || e);
+      console.error("[ai] summarize-thread error:", e?.status || "", e?.message || e);
       res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
     }
   });
 
+  /**
+   * POST /api/ai/generate/stream — same body as /generate, answered as NDJSON (one JSON per line):
+   *   { type: "delta", text }                              raw model output as it arrives
+   *   { type: "done", html, text, provider, model, usage, knowledge, warnings, lengthCheck?, prompt } same as /generate
+   *     (an overshoot is only trimmed here: the streamed text can't be regenerated)
+   *   { type: "error", error, status }
+   * Closing the connection (client abort) cancels the upstream provider request; what was already
+   * generated still goes to the usage ledger (estimated usage), so cancelling doesn't bypass the budget.
+   */
+  router.post("/generate/stream", async (req, res) => {
+    const upstream = new AbortController();
+    res.on("close", () => {
+      if (!res.writableEnded) upstream.abort();
+    });
+
+    let started = false;
+    const send = (obj) => {
+      if (!started) {
+        started = true;
+        res.status(200);
+        res.setHeader("Content-Type", "application/x-ndjson; charset=utf-8");
+        res.setHeader("Cache-Control", "no-cache, no-transform");
+        res.setHeader("X-Accel-Buffering", "no"); // proxies (Render/nginx) must not buffer
+        res.flushHeaders();
+      }
+      res.write(`${JSON.stringify(obj)}\n`);
+    };
+
+    const action = String(req.body?.action || "reply");
+    const user = aiUser(req);
+    let prompt;
+    try {
+      // drafts streamed live are always new (not cached), but they count for the budget/ledger
+      assertAiCaller(user);
+      assertBudget(user);
+      const selected = promptPackFor(req);
+      prompt = promptInfo(selected);
+      const gen = generateRequest(req.body, { pack: selected.pack });
+      const result = await aiStreamText({ ...gen.opts, signal: upstream.signal }, (delta) =>
+        send({ type: "delta", text: delta })
+      );
+
+      const { html, usage, knowledge, warnings, lengthCheck } = await finishDraft(req.body, gen, result, { regenerate: false });
+      account(user, action, { provider: result.provider, model: result.model, usage, prompt });
+      send({
+        type: "done",
+        html,
+        text: stripHtmlToText(html),
+        provider: result.provider,
+        model: result.model,
+        usage,
+        knowledge,
+        warnings,
+        lengthCheck,
+        prompt,
+      });
+      res.end();
+    } catch (e) {
+      // the provider was called: tokens were spent even when cancelled or failed halfway
+      if (e?.partial) account(user, action, { ...e.partial, prompt });
+      if (upstream.signal.aborted) return;
+      console.error("[ai] generate stream error:", e?.status || "", e?.message || e);
+      // Before the first chunk we can still answer with a normal HTTP error
+      if (!started) return res.status(e?.status || 500).json({ ok: false, error: String(e?.message || e) });
+      send({ type: "error", error: String(e?.message || e), status: e?.status || 500 });
+      res.end();
+    }
+  });
+
   return router;
 }
@@ -0,0 +1,110 @@
+// server/src/routes/invoiceStudioRoutes.js
+import express from "express";
+import {
+  extractToBucket,
+  INVOICESTUDIO_CREDENTIAL,
+  invoiceStudioAccount,
+  invoiceStudioConfig,
+  invoiceStudioLogin,
+  invoiceStudioSessionForRequest,
+  saveInvoiceStudioSession,
+} from "../invoiceStudio.js";
+import {
+  deleteUserCredential,
+  issueUserToken,
+  resolveUserToken,
+  userFromRequest,
+} from "../credentialStore.js";
+import { verifiedOutlookUser } from "../outlookIdentity.js";
+
+export function createInvoiceStudioRouter() {
+  const router = express.Router();
+
+  /**
+   * GET /api/invoicestudio/status
+   * returns: { ok, configured, url, hasToken, authOptional, outlookUser, account: { login, userName, org, remember, expired } | null }
+   */
+  router.get("/status", (req, res) => {
+    try {
+      const cfg = invoiceStudioConfig();
+      const user = userFromRequest(req);
+      res.json({
+        ok: true,
+        configured: Boolean(cfg.apiBase),
+        url: cfg.url,
+        hasToken: Boolean(cfg.token),
+        authOptional: cfg.authOptional,
+        outlookUser: user || "",
+        account: invoiceStudioAccount(user),
+      });
+    } catch (e) {
+      console.error(e);
+      res.status(500).send(String(e?.message || e));
+    }
+  });
+
+  /**
+   * POST /api/invoicestudio/auth/login
+   * body: { identityToken, outlookUser, email, password, remember }
+   * The Outlook user must be proven (Office SSO identityToken or the caller's x-icc-token, see outlookIdentity.js).
+   * The JWT stays on the server (sealed, per Outlook user); with `remember` the password is kept
+   * too, so an expired token is renewed without asking again.
+   * returns: { ok, token, account }
+   */
+  router.post("/auth/login", async (req, res) => {
+    try {
+      const { email, password, remember } = req.body || {};
+      const login = String(email || "").trim();
+      const pwd = String(password || "");
+      if (!login || !pwd) return res.status(400).send("Missing email/password");
+
+      const { user } = await verifiedOutlookUser(req);
+
+      const r = await invoiceStudioLogin(login, pwd);
+      saveInvoiceStudioSession(user, { ...r, login, password: remember ? pwd : "" });
+
+      // Reuse the current token when it already belongs to this Outlook user
+      const current = String(req.get("x-icc-token") || "").trim();
+      const token = current && resolveUserToken(current) === user ? current : issueUserToken(user);
+
+      res.json({ ok: true, token, account: invoiceStudioAccount(user) });
+    } catch (e) {
+      console.error("[invoicestudio-auth] login error:", e?.message || e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  /**
+   * POST /api/invoicestudio/auth/logout
+   * Forgets the user's InvoiceStudio session.
+   */
+  router.post("/auth/logout", (req, res) => {
+    try {
+      const user = userFromRequest(req);
+      if (user) deleteUserCredential(user, INVOICESTUDIO_CREDENTIAL);
+      res.json({ ok: true });
+    } catch (e) {
+      console.error(e);
+      res.status(500).send(String(e?.message || e));
+    }
+  });
+
+  /**
+   * POST /api/invoicestudio/extract
+   * body: { project, attachments: [{ name, contentType, contentBase64 }] }
+   * returns: { ok, project, batchIds, results: [{ fileName, status, documentId?, normalized?, error? }] }
+   * 401 → the add-in asks the user to log in again.
+   */
+  router.post("/extract", async (req, res) => {
+    try {
+      const { project, attachments } = req.body || {};
+      const out = await extractToBucket(project, attachments, invoiceStudioSessionForRequest(req));
+      res.json({ ok: true, ...out });
+    } catch (e) {
+      console.error(e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  return router;
+}
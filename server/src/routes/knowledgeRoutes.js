@@ -0,0 +1,70 @@
+// server/src/routes/knowledgeRoutes.js
+import express from "express";
+import { userFromRequest } from "../credentialStore.js";
+import { addKnowledge, listKnowledge, removeKnowledge, updateKnowledge } from "../knowledgeStore.js";
+
+/**
+ * Shared AI knowledge base (Settings → IA knowledge). Entries:
+ *   { id, title, body, tags: [], pinned, createdBy, createdAt, updatedBy, updatedAt }
+ * Anyone may read; writes need a known Outlook user (x-icc-token), recorded as createdBy/updatedBy.
+ */
+function requireWriter(req) {
+  const user = userFromRequest(req);
+  if (!user) {
+    throw Object.assign(new Error("Inicia sessão (Definições → Odoo ou InvoiceStudio) para alterar a base de conhecimento."), {
+      status: 401,
+    });
+  }
+  return user;
+}
+
+export function createKnowledgeRouter() {
+  const router = express.Router();
+
+  // GET /api/knowledge → { ok, entries }
+  router.get("/", (_req, res) => {
+    try {
+      res.json({ ok: true, entries: listKnowledge() });
+    } catch (e) {
+      console.error(e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  // POST /api/knowledge  body: { title, body, tags, pinned } → { ok, entry }
+  router.post("/", (req, res) => {
+    try {
+      const entry = addKnowledge(req.body || {}, requireWriter(req));
+      res.json({ ok: true, entry });
+    } catch (e) {
+      console.error(e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  // PATCH /api/knowledge/:id  body: any of { title, body, tags, pinned } → { ok, entry }
+  router.patch("/:id", (req, res) => {
+    try {
+      const entry = updateKnowledge(req.params.id, req.body || {}, requireWriter(req));
+      if (!entry) return res.status(404).send("Nota não encontrada");
+      res.json({ ok: true, entry });
+    } catch (e) {
+      console.error(e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  router.delete("/:id", (req, res) => {
+    try {
+      requireWriter(req);
+      const entry = removeKnowledge(req.params.id);
+      if (!entry) return res.status(404).send("Nota não encontrada");
+      res.json({ ok: true });
+    } catch (e) {
+      console.error(e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  return router;
+}
@@ -0,0 +1,94 @@
+// server/src/routes/odooAuthRoutes.js
+import express from "express";
+import { invalidateOdooSession, odooClient, odooServerFromEnv } from "../odoo.js";
+import { ODOO_CREDENTIAL, requireUserAuth } from "../odooAuth.js";
+import {
+  deleteUserCredential,
+  getUserCredential,
+  issueUserToken,
+  resolveUserToken,
+  setUserCredential,
+  userFromRequest,
+} from "../credentialStore.js";
+import { verifiedOutlookUser } from "../outlookIdentity.js";
+
+export function createOdooAuthRouter() {
+  const router = express.Router();
+
+  /**
+   * GET /api/odoo/auth/status
+   * returns: { ok, outlookUser, linked, login, requireUserAuth }
+   */
+  router.get("/status", (req, res) => {
+    try {
+      const user = userFromRequest(req);
+      const cred = user ? getUserCredential(user, ODOO_CREDENTIAL) : null;
+      res.json({
+        ok: true,
+        outlookUser: user || "",
+        linked: Boolean(cred?.login),
+        login: cred?.login || "",
+        userName: cred?.userName || "",
+        requireUserAuth: requireUserAuth(),
+      });
+    } catch (e) {
+      console.error(e);
+      res.status(500).send(String(e?.message || e));
+    }
+  });
+
+  /**
+   * POST /api/odoo/auth/login
+   * body: { identityToken, outlookUser, login, apiKey }
+   * The Outlook user must be proven (Office SSO identityToken or the caller's x-icc-token, see
+   * outlookIdentity.js). Validates the credentials against Odoo before storing them.
+   * returns: { ok, token, login, userName }
+   */
+  router.post("/login", async (req, res) => {
+    try {
+      const { login, apiKey } = req.body || {};
+      const l = String(login || "").trim();
+      const key = String(apiKey || "");
+      if (!l || !key) return res.status(400).send("Missing login/apiKey");
+
+      const { user } = await verifiedOutlookUser(req);
+
+      const odoo = await odooClient({ ...odooServerFromEnv(), login: l, password: key });
+
+      setUserCredential(user, ODOO_CREDENTIAL, {
+        login: l,
+        uid: odoo.meta.uid,
+        userName: odoo.meta.userName || "",
+        secret: key,
+      });
+
+      // Reuse the current token when it already belongs to this Outlook user
+      const current = String(req.get("x-icc-token") || "").trim();
+      const token = current && resolveUserToken(current) === user ? current : issueUserToken(user);
+
+      res.json({ ok: true, token, login: l, userName: odoo.meta.userName || "" });
+    } catch (e) {
+      console.error("[odoo-auth] login error:", e?.message || e);
+      res.status(e?.status || 500).send(String(e?.message || e));
+    }
+  });
+
+  /**
+   * POST /api/odoo/auth/logout
+   * Forgets the user's Odoo credentials (the token keeps identifying the Outlook user).
+   */
+  router.post("/logout", (req, res) => {
+    try {
+      const user = userFromRequest(req);
+      const cred = user ? getUserCredential(user, ODOO_CREDENTIAL) : null;
+      if (cred?.login) invalidateOdooSession({ ...odooServerFromEnv(), login: cred.login });
+      if (user) deleteUserCredential(user, ODOO_CREDENTIAL);
+      res.json({ ok: true });
+    } catch (e) {
+      console.error(e);
+      res.status(500).send(String(e?.message || e));
+    }
+  });
+
+  return router;
+}
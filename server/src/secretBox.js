@@ -0,0 +1,54 @@
+import crypto from "node:crypto";
+import fs from "node:fs";
+import path from "node:path";
+
+const DATA_DIR = path.join(process.cwd(), "server", "data");
+const KEY_FILE = path.join(DATA_DIR, "secret.key");
+
+/**
+ * Symmetric encryption for secrets kept at rest (API keys, third-party tokens).
+ * AES-256-GCM, key from ICC_SECRET_KEY (any string, hashed to 32 bytes).
+ * Without ICC_SECRET_KEY a random key is generated once into server/data/secret.key
+ * (fine for dev; in staging/prod define the env var so restarts/redeploys keep working).
+ */
+let cachedKey = null;
+
+function loadKey() {
+  if (cachedKey) return cachedKey;
+
+  const fromEnv = String(process.env.ICC_SECRET_KEY || "").trim();
+  if (fromEnv) {
+    cachedKey = crypto.createHash("sha256").update(fromEnv).digest();
+    return cachedKey;
+  }
+
+  if (!fs.existsSync(DATA_DIR)) fs.mkdirSync(DATA_DIR, { recursive: true });
+  if (!fs.existsSync(KEY_FILE)) {
+    console.warn("[secretBox] ICC_SECRET_KEY em falta; a gerar chave local em", KEY_FILE);
+    fs.writeFileSync(KEY_FILE, crypto.randomBytes(32).toString("hex"), { encoding: "utf-8", mode: 0o600 });
+  }
+  cachedKey = Buffer.from(fs.readFileSync(KEY_FILE, "utf-8").trim(), "hex");
+  return cachedKey;
+}
+
+// Output: "v1:<iv>:<tag>:<ciphertext>" (base64 parts)
+export function seal(plaintext) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", loadKey(), iv);
+  const enc = Buffer.concat([cipher.update(String(plaintext ?? ""), "utf-8"), cipher.final()]);
+  const tag = cipher.getAuthTag();
+  return ["v1", iv.toString("base64"), tag.toString("base64"), enc.toString("base64")].join(":");
+}
+
+export function open(sealed) {
+  const parts = String(sealed || "").split(":");
+  if (parts.length !== 4 || parts[0] !== "v1") throw new Error("Segredo em formato inválido");
+  const [, iv, tag, enc] = parts;
+  const decipher = crypto.createDecipheriv("aes-256-gcm", loadKey(), Buffer.from(iv, "base64"));
+  decipher.setAuthTag(Buffer.from(tag, "base64"));
+  return Buffer.concat([decipher.update(Buffer.from(enc, "base64")), decipher.final()]).toString("utf-8");
+}
+
+export function sha256(s) {
+  return crypto.createHash("sha256").update(String(s ?? "")).digest("hex");
+}
@@ -0,0 +1,73 @@
+// server/test/linksAuth.test.js
+// Link routes must not change links for callers without Odoo access (ODOO_REQUIRE_USER_AUTH=1, no login).
+import { after, before, test } from "node:test";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import fs from "node:fs";
+import os from "node:os";
+import path from "node:path";
+import { fileURLToPath } from "node:url";
+
+const SERVER = path.join(path.dirname(fileURLToPath(import.meta.url)), "..", "src", "index.js");
+const PORT = 17000 + Math.floor(Math.random() * 1000);
+const BASE = `http://127.0.0.1:${PORT}`;
+
+let dir;
+let server;
+let linkId;
+
+before(async () => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), "icc-links-"));
+  process.chdir(dir); // stores resolve server/data from the cwd
+  process.env.LINKS_DB_PATH = path.join(dir, "links.db");
+  const { addLink } = await import("../src/linkStore.js");
+  const links = addLink("conv-1", { model: "crm.lead", recordId: 7, recordName: "Lead 7", subject: "Olá" });
+  linkId = links[0].id;
+
+  server = spawn(process.execPath, [SERVER], {
+    cwd: dir,
+    env: { ...process.env, PORT: String(PORT), HOST: "127.0.0.1", ODOO_REQUIRE_USER_AUTH: "1", AI_ENABLED: "0" },
+    stdio: "ignore",
+  });
+  for (let i = 0; i < 100; i++) {
+    try {
+      if ((await fetch(`${BASE}/health`)).ok) return;
+    } catch {}
+    await new Promise((r) => setTimeout(r, 100));
+  }
+  throw new Error("server did not start");
+});
+
+after(() => {
+  server?.kill();
+  fs.rmSync(dir, { recursive: true, force: true });
+});
+
+async function call(method, url, body) {
+  const res = await fetch(`${BASE}${url}`, {
+    method,
+    headers: { "content-type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  return res.status;
+}
+
+async function linksOfConversation() {
+  return (await (await fetch(`${BASE}/api/links?conversationId=conv-1`)).json()).links;
+}
+
+test("DELETE /api/links/:id without credentials is refused and keeps the link", async () => {
+  assert.ok([401, 403].includes(await call("DELETE", `/api/links/${linkId}`)));
+  assert.equal((await linksOfConversation()).length, 1);
+});
+
+test("PATCH /api/links/:id without credentials is refused and keeps the target", async () => {
+  assert.ok([401, 403].includes(await call("PATCH", `/api/links/${linkId}`, { model: "res.partner", recordId: 1 })));
+  const [link] = await linksOfConversation();
+  assert.equal(link.model, "crm.lead");
+  assert.equal(link.recordId, 7);
+});
+
+test("GET /api/links/by-record without credentials is refused", async () => {
+  assert.ok([401, 403].includes(await call("GET", "/api/links/by-record?model=crm.lead&recordId=7")));
+});